@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Spectrum, waveform and level analysis of the audio output.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Per-channel levels, linear 0-1. */
+export interface Levels {
+  peak: number[];
+  rms: number[];
+}
+
+/** Frequency ranges used for band energy (Hz). */
+export const BANDS = {
+  bass: [20, 150],
+  mid: [150, 2500],
+  treble: [2500, 16000],
+} as const;
+
+export type Band = keyof typeof BANDS;
+
+/**
+ * Taps an audio node without altering it. One analyser on the mixed signal
+ * drives the spectrum and waveform; one per channel drives the meters.
+ */
+export class OutputAnalyser {
+  private readonly analyser: AnalyserNode;
+  private readonly channels: AnalyserNode[];
+  private readonly frequencyData: Uint8Array;
+  private readonly timeData: Float32Array;
+  private readonly channelData: Float32Array;
+
+  constructor(private readonly ctx: BaseAudioContext, source: AudioNode) {
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.analyser.smoothingTimeConstant = 0.75;
+    source.connect(this.analyser);
+
+    const splitter = ctx.createChannelSplitter(2);
+    source.connect(splitter);
+    this.channels = [0, 1].map((channel) => {
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      splitter.connect(analyser, channel);
+      return analyser;
+    });
+
+    this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+    this.timeData = new Float32Array(this.analyser.fftSize);
+    this.channelData = new Float32Array(1024);
+  }
+
+  /** Magnitudes per FFT bin, 0-255 over the analyser's dB range. */
+  getSpectrum(): Uint8Array {
+    this.analyser.getByteFrequencyData(this.frequencyData);
+    return this.frequencyData;
+  }
+
+  /** The most recent block of samples, -1 to 1. */
+  getWaveform(): Float32Array {
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    return this.timeData;
+  }
+
+  /** Frequency of FFT bin `i` (Hz). */
+  binFrequency(i: number): number {
+    return (i * this.ctx.sampleRate) / this.analyser.fftSize;
+  }
+
+  /** Average energy in `band`, 0-1. Reads a fresh spectrum. */
+  bandEnergy(band: Band): number {
+    const [low, high] = BANDS[band];
+    const spectrum = this.getSpectrum();
+    const binWidth = this.ctx.sampleRate / this.analyser.fftSize;
+    const from = Math.max(1, Math.floor(low / binWidth));
+    const to = Math.min(spectrum.length - 1, Math.ceil(high / binWidth));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += spectrum[i];
+    return sum / ((to - from + 1) * 255);
+  }
+
+  getLevels(): Levels {
+    const levels: Levels = {peak: [], rms: []};
+    for (const analyser of this.channels) {
+      analyser.getFloatTimeDomainData(this.channelData);
+      let peak = 0;
+      let sumSquares = 0;
+      for (const sample of this.channelData) {
+        peak = Math.max(peak, Math.abs(sample));
+        sumSquares += sample * sample;
+      }
+      levels.peak.push(peak);
+      levels.rms.push(Math.sqrt(sumSquares / this.channelData.length));
+    }
+    return levels;
+  }
+}
+
+/** Converts a linear level to dBFS, floored at `floor`. */
+export function toDb(level: number, floor = -60): number {
+  return level > 0 ? Math.max(floor, 20 * Math.log10(level)) : floor;
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Automation lanes: timestamped prompt weight and text changes
+ * measured in bars, with interpolation for replay.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A weight breakpoint. `bar` is a fractional bar position from the start. */
+export interface AutomationPoint {
+  bar: number;
+  value: number;
+}
+
+/** A prompt text change at a bar position. */
+export interface AutomationTextEvent {
+  bar: number;
+  text: string;
+}
+
+/** All recorded movements for one prompt. */
+export interface AutomationLane {
+  weights: AutomationPoint[];
+  texts: AutomationTextEvent[];
+}
+
+export type AutomationTransport = 'idle' | 'recording' | 'playing';
+
+export const DEFAULT_AUTOMATION_BARS = 8;
+
+/** Beats per bar. Automation assumes 4/4 time. */
+const BEATS_PER_BAR = 4;
+
+/**
+ * Converts audio clock time to bar positions at a BPM that may change while
+ * running. Each BPM change re-anchors the clock so earlier bars keep their
+ * positions.
+ */
+export class BarClock {
+  private anchorTime = 0;
+  private anchorBar = 0;
+  private bpm = 120;
+
+  start(now: number, bpm: number, bar = 0) {
+    this.anchorTime = now;
+    this.anchorBar = bar;
+    this.bpm = bpm;
+  }
+
+  setBpm(now: number, bpm: number) {
+    if (bpm === this.bpm) return;
+    this.anchorBar = this.barAt(now);
+    this.anchorTime = now;
+    this.bpm = bpm;
+  }
+
+  barAt(now: number): number {
+    return (
+      this.anchorBar +
+      ((now - this.anchorTime) * this.bpm) / (60 * BEATS_PER_BAR)
+    );
+  }
+}
+
+export function createLane(): AutomationLane {
+  return {weights: [], texts: []};
+}
+
+function insertSorted<T extends {bar: number}>(list: T[], item: T) {
+  let i = list.length;
+  while (i > 0 && list[i - 1].bar > item.bar) i--;
+  list.splice(i, 0, item);
+}
+
+/**
+ * Records a weight at `bar`. Points between the previous write in this pass
+ * (`sinceBar`) and `bar` are replaced, so re-recording overwrites the old
+ * movement instead of interleaving with it.
+ */
+export function recordWeight(
+  lane: AutomationLane,
+  bar: number,
+  value: number,
+  sinceBar = bar,
+) {
+  lane.weights = lane.weights.filter((p) => p.bar <= sinceBar || p.bar > bar);
+  insertSorted(lane.weights, {bar, value});
+}
+
+export function recordText(lane: AutomationLane, bar: number, text: string) {
+  insertSorted(lane.texts, {bar, text});
+}
+
+/**
+ * Returns the interpolated weight at `bar`, holding the first and last
+ * values outside the recorded range. Returns undefined for an empty lane.
+ */
+export function weightAt(
+  lane: AutomationLane,
+  bar: number,
+): number | undefined {
+  const points = lane.weights;
+  if (points.length === 0) return undefined;
+  if (bar <= points[0].bar) return points[0].value;
+  for (let i = 1; i < points.length; i++) {
+    const b = points[i];
+    if (bar <= b.bar) {
+      const a = points[i - 1];
+      const span = b.bar - a.bar;
+      if (span === 0) return b.value;
+      return a.value + ((b.value - a.value) * (bar - a.bar)) / span;
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+/** Returns the most recent text change at or before `bar`. */
+export function textAt(lane: AutomationLane, bar: number): string | undefined {
+  let text: string | undefined;
+  for (const event of lane.texts) {
+    if (event.bar > bar) break;
+    text = event.text;
+  }
+  return text;
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Continuous autosave of the working state to IndexedDB.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {parseProject, type ProjectData, serializeProject} from './project';
+
+const DB_NAME = 'promptdj';
+const DB_VERSION = 1;
+const STORE = 'autosaves';
+
+/** How many past sessions are kept to restore from. */
+const MAX_HISTORY = 8;
+
+/** A stored autosave. Each page session writes to a single entry. */
+export interface AutosaveEntry {
+  id: string;
+  savedAt: number;
+  summary: string;
+  project: string;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function summarize(data: ProjectData): string {
+  const active = data.prompts.filter((p) => p.weight > 0).map((p) => p.text);
+  const names = active.length
+    ? active.join(', ')
+    : data.prompts.map((p) => p.text).join(', ');
+  return names || 'No prompts';
+}
+
+/**
+ * Persists the working state of this page session, keeping a short history
+ * of earlier sessions. All methods fail soft: if IndexedDB is unavailable
+ * (e.g. some private browsing modes) autosave is silently disabled.
+ */
+export class AutosaveStore {
+  /** Identifies the entry written by this page session. */
+  readonly sessionId = `session-${Date.now()}`;
+  private db: Promise<IDBDatabase | null>;
+
+  constructor() {
+    this.db = this.open();
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, {keyPath: 'id'});
+      store.createIndex('savedAt', 'savedAt');
+    };
+    return promisify(request).catch((e) => {
+      console.warn('Autosave unavailable', e);
+      return null;
+    });
+  }
+
+  /** Returns stored sessions other than the current one, newest first. */
+  async list(): Promise<AutosaveEntry[]> {
+    const db = await this.db;
+    if (!db) return [];
+    try {
+      const entries = await promisify<AutosaveEntry[]>(
+        db.transaction(STORE).objectStore(STORE).getAll(),
+      );
+      return entries
+        .filter((e) => e.id !== this.sessionId)
+        .sort((a, b) => b.savedAt - a.savedAt);
+    } catch (e) {
+      console.warn('Could not read autosaves', e);
+      return [];
+    }
+  }
+
+  /** Loads and validates a stored session. */
+  load(entry: AutosaveEntry): ProjectData {
+    return parseProject(entry.project);
+  }
+
+  /** Writes the current state, then prunes the oldest sessions. */
+  async save(data: ProjectData) {
+    const db = await this.db;
+    if (!db) return;
+    const entry: AutosaveEntry = {
+      id: this.sessionId,
+      savedAt: Date.now(),
+      summary: summarize(data),
+      project: serializeProject(data),
+    };
+    try {
+      const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+      await promisify(store.put(entry));
+      const keys = await promisify(store.index('savedAt').getAllKeys());
+      // Keys are ordered by savedAt, oldest first.
+      for (const key of keys.slice(0, Math.max(0, keys.length - MAX_HISTORY))) {
+        store.delete(key);
+      }
+    } catch (e) {
+      console.warn('Autosave failed', e);
+    }
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * @fileoverview A deck: one music session played through its own output,
+ * with reconnects and adaptive buffering.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type LiveMusicGenerationConfig,
+  type WeightedPrompt,
+} from '@google/genai';
+import {type BufferBounds, JitterBuffer} from './jitter-buffer';
+import {
+  type MusicSession,
+  type MusicSessionCallbacks,
+  type MusicSessionMessage,
+  type MusicSessionProvider,
+  ReconnectBackoff,
+} from './session';
+import {decode, decodeAudioData} from './utils';
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+
+/** `waiting` is the backoff delay between reconnect attempts. */
+export type ConnectionStatus = 'connecting' | 'connected' | 'waiting';
+
+export interface DeckHandlers {
+  /** Playback, connection or buffer state changed. */
+  onChange(): void;
+  /** Something to tell the user. */
+  onNotice(message: string): void;
+  /** The server rejected a prompt. */
+  onFilteredPrompt(text: string, reason: string): void;
+  /**
+   * Audio starts at `time` on the context clock. `resumed` is set when it
+   * carries on the stream that ran dry at the last `onPause`.
+   */
+  onStart?(time: number, resumed: boolean): void;
+  /** Scheduled audio runs out or is cut off at `time`. */
+  onPause?(time: number): void;
+  onStop?(): void;
+  /** Each chunk of 16-bit PCM as it is scheduled. */
+  onAudio?(pcm: Uint8Array): void;
+}
+
+/**
+ * Plays one session into `output`. The prompts and config last set are
+ * kept, so a reconnected session picks up where the old one left off.
+ */
+export class Deck {
+  readonly output: GainNode;
+  playbackState: PlaybackState = 'stopped';
+  connectionStatus: ConnectionStatus = 'connecting';
+  // Adapts the latency between chunk arrival and playback to network jitter.
+  readonly jitterBuffer: JitterBuffer;
+  private session?: MusicSession;
+  private connected = false;
+  private readonly backoff = new ReconnectBackoff();
+  private reconnectTimer?: number;
+  // Bumped per connection so callbacks from replaced sessions are ignored.
+  private sessionGeneration = 0;
+  // Whether the user wants audio playing, so a reconnect can resume it.
+  private playbackIntended = false;
+  // Replaced on pause, so chunks already scheduled fade out with it.
+  private fade: GainNode;
+  private nextStartTime = 0;
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+
+  constructor(
+    private readonly ctx: AudioContext,
+    private readonly provider: MusicSessionProvider,
+    bounds: BufferBounds,
+    private readonly handlers: DeckHandlers,
+  ) {
+    this.output = ctx.createGain();
+    this.fade = ctx.createGain();
+    this.fade.connect(this.output);
+    this.jitterBuffer = new JitterBuffer(bounds);
+  }
+
+  /** Failed connection attempts since the last successful one. */
+  get reconnectAttempt(): number {
+    return this.backoff.attempt;
+  }
+
+  async connect() {
+    window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.setConnectionStatus('connecting');
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+    try {
+      const session = await this.provider.connect(this.callbacks(isCurrent));
+      if (!isCurrent()) {
+        // Disconnected or connected again while this one was opening.
+        session.close();
+        return;
+      }
+      this.session = session;
+    } catch (e) {
+      console.log('Could not connect: %s\n', e);
+      if (isCurrent()) this.handleConnectionLost();
+    }
+  }
+
+  /** Stops playback and closes the session without reconnecting. */
+  disconnect() {
+    this.stop();
+    this.sessionGeneration++;
+    window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.closeSession();
+    this.backoff.reset();
+    this.setConnectionStatus('waiting');
+  }
+
+  async setPrompts(prompts: WeightedPrompt[]) {
+    this.prompts = prompts;
+    // Sent again once reconnected.
+    if (!this.connected) return;
+    try {
+      await this.session!.setWeightedPrompts({weightedPrompts: prompts});
+    } catch (e) {
+      this.handlers.onNotice(e.message);
+      this.pause();
+    }
+  }
+
+  setConfig(config: LiveMusicGenerationConfig) {
+    this.config = config;
+    if (this.connected) {
+      this.session!.setMusicGenerationConfig({musicGenerationConfig: config});
+    }
+  }
+
+  setBufferBounds(bounds: BufferBounds) {
+    this.jitterBuffer.setBounds(bounds);
+    this.handlers.onChange();
+  }
+
+  /** Plays when paused or stopped, pauses when playing, stops when loading. */
+  togglePlayback() {
+    if (this.playbackState === 'playing') {
+      this.pause();
+    } else if (
+      this.playbackState === 'paused' ||
+      this.playbackState === 'stopped'
+    ) {
+      if (!this.connected) {
+        // Playback starts once connected; don't wait out the backoff.
+        this.playbackIntended = true;
+        this.setPlaybackState('loading');
+        this.ctx.resume();
+        if (this.connectionStatus === 'waiting') {
+          this.connect();
+        }
+        return;
+      }
+      this.play();
+    } else if (this.playbackState === 'loading') {
+      this.stop();
+    }
+  }
+
+  play() {
+    this.playbackIntended = true;
+    this.ctx.resume();
+    this.session!.play();
+    this.setPlaybackState('loading');
+    this.fade.gain.setValueAtTime(0, this.ctx.currentTime);
+    this.fade.gain.linearRampToValueAtTime(1, this.ctx.currentTime + 0.1);
+  }
+
+  pause() {
+    this.playbackIntended = false;
+    if (this.connected) this.session!.pause();
+    this.setPlaybackState('paused');
+    this.handlers.onPause?.(this.ctx.currentTime);
+    this.fade.gain.setValueAtTime(1, this.ctx.currentTime);
+    this.fade.gain.linearRampToValueAtTime(0, this.ctx.currentTime + 0.1);
+    this.nextStartTime = 0;
+    this.fade = this.ctx.createGain();
+    this.fade.connect(this.output);
+  }
+
+  stop() {
+    this.playbackIntended = false;
+    if (this.connected) this.session!.stop();
+    this.setPlaybackState('stopped');
+    this.handlers.onStop?.();
+    this.fade.gain.setValueAtTime(0, this.ctx.currentTime);
+    this.fade.gain.linearRampToValueAtTime(1, this.ctx.currentTime + 0.1);
+    this.nextStartTime = 0;
+  }
+
+  private setPlaybackState(state: PlaybackState) {
+    this.playbackState = state;
+    this.handlers.onChange();
+  }
+
+  private setConnectionStatus(status: ConnectionStatus) {
+    this.connectionStatus = status;
+    this.handlers.onChange();
+  }
+
+  private callbacks(isCurrent: () => boolean): MusicSessionCallbacks {
+    return {
+      onmessage: async (e: MusicSessionMessage) => {
+        if (!isCurrent()) return;
+        console.log('Received message from the server: %s\n');
+        console.log(e);
+        if (e.setupComplete) {
+          this.handleConnected();
+        }
+        if (e.filteredPrompt) {
+          this.handlers.onFilteredPrompt(
+            e.filteredPrompt.text,
+            e.filteredPrompt.filteredReason,
+          );
+        }
+        if (e.serverContent?.audioChunks !== undefined) {
+          if (
+            this.playbackState === 'paused' ||
+            this.playbackState === 'stopped'
+          )
+            return;
+          await this.schedule(decode(e.serverContent.audioChunks[0].data));
+        }
+      },
+      onerror: (e: ErrorEvent) => {
+        if (!isCurrent()) return;
+        console.log('Error occurred: %s\n', JSON.stringify(e));
+        this.handleConnectionLost();
+      },
+      onclose: (e: CloseEvent) => {
+        if (!isCurrent()) return;
+        console.log('Connection closed.');
+        this.handleConnectionLost();
+      },
+    };
+  }
+
+  private async schedule(pcm: Uint8Array) {
+    const arrival = this.ctx.currentTime;
+    const audioBuffer = await decodeAudioData(pcm, this.ctx, 48000, 2);
+    const source = this.ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(this.fade);
+    let resumed = false;
+    if (this.nextStartTime !== 0 && this.nextStartTime < this.ctx.currentTime) {
+      // Resume from this late chunk with more headroom instead of dropping
+      // it.
+      console.log('under run');
+      this.jitterBuffer.underrun(this.ctx.currentTime - this.nextStartTime);
+      this.handlers.onPause?.(this.nextStartTime);
+      this.nextStartTime = 0;
+      resumed = true;
+    }
+    if (this.nextStartTime === 0) {
+      this.jitterBuffer.restart();
+      const latency = this.jitterBuffer.target;
+      this.nextStartTime = this.ctx.currentTime + latency;
+      this.handlers.onStart?.(this.nextStartTime, resumed);
+      this.setPlaybackState('loading');
+      setTimeout(() => {
+        if (this.playbackState === 'loading') {
+          this.setPlaybackState('playing');
+        }
+      }, latency * 1000);
+    }
+    this.jitterBuffer.addChunk(arrival, audioBuffer.duration);
+    source.start(this.nextStartTime);
+    this.nextStartTime += audioBuffer.duration;
+    this.handlers.onAudio?.(pcm);
+    this.handlers.onChange();
+  }
+
+  /**
+   * A new session starts from defaults, so sends the current prompts and
+   * config again and resumes playback if the user had it running.
+   */
+  private handleConnected() {
+    if (this.backoff.attempt > 0) {
+      this.handlers.onNotice('Reconnected');
+    }
+    this.connected = true;
+    this.backoff.reset();
+    this.setConnectionStatus('connected');
+    this.session!.setMusicGenerationConfig({
+      musicGenerationConfig: this.config,
+    });
+    this.setPrompts(this.prompts);
+    if (this.playbackIntended) {
+      this.play();
+    }
+  }
+
+  /** Drops the session and schedules a reconnect with backoff. */
+  private handleConnectionLost() {
+    this.sessionGeneration++;
+    this.closeSession();
+    // Audio already scheduled plays out; playback resumes on reconnect.
+    this.handlers.onPause?.(Math.max(this.nextStartTime, this.ctx.currentTime));
+    this.nextStartTime = 0;
+    if (this.playbackIntended) {
+      this.setPlaybackState('loading');
+    }
+    if (this.backoff.attempt === 0) {
+      this.handlers.onNotice('Connection lost, reconnecting…');
+    }
+    this.setConnectionStatus('waiting');
+    this.reconnectTimer = window.setTimeout(
+      () => this.connect(),
+      this.backoff.next(),
+    );
+  }
+
+  private closeSession() {
+    this.connected = false;
+    try {
+      this.session?.close();
+    } catch (e) {
+      // The connection is already gone.
+    }
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview A local drum machine: synthesized voices for the beat
+ * sequencer's tracks, scheduled on the audio clock.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DEFAULT_TRACKS,
+  type DrumVoice,
+  type SequencerPattern,
+  type SequencerTrack,
+  emptyPattern,
+} from './sequencer';
+import {type StepClock} from './step-clock';
+
+/** Peak gain per step velocity: 1 soft, 2 medium, 3 loud. */
+const VELOCITY_GAINS = [0, 0.3, 0.6, 1];
+/** Stereo position of steps panned left (-1) or right (1). */
+const PAN_WIDTH = 0.8;
+/** Furthest a fully humanized hit drifts from its time (s). */
+const HUMANIZE_TIME = 0.015;
+/** Most of its level a fully humanized hit can lose. */
+const HUMANIZE_LEVEL = 0.4;
+
+/** Synthesizes drum hits; no samples to load. */
+export class DrumKit {
+  readonly output: GainNode;
+  private readonly noise: AudioBuffer;
+  // Open hats ring until the next closed hat chokes them.
+  private openHat?: GainNode;
+
+  constructor(private readonly ctx: BaseAudioContext) {
+    this.output = ctx.createGain();
+    this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = this.noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+
+  /**
+   * Plays `voice` at `time` with a step's velocity (1-3) and pan (-1-1),
+   * scaled by `gain`.
+   */
+  trigger(
+    voice: DrumVoice,
+    time: number,
+    velocity: number,
+    pan: number,
+    gain = 1,
+  ) {
+    const panner = this.ctx.createStereoPanner();
+    panner.pan.value = pan * PAN_WIDTH;
+    panner.connect(this.output);
+    const level = (VELOCITY_GAINS[velocity] ?? 0) * gain;
+
+    switch (voice) {
+      case 'kick':
+        this.tone('sine', [150, 45], 0.12, time, 0.45, level, panner);
+        break;
+      case 'snare':
+        this.tone('triangle', [190, 160], 0.1, time, 0.12, level * 0.5, panner);
+        this.noiseHit(['highpass', 1200], time, 0.2, level * 0.8, panner);
+        break;
+      case 'clap':
+        // A few quick bursts, then the room.
+        for (const offset of [0, 0.012, 0.024]) {
+          this.noiseHit(['bandpass', 1400], time + offset, 0.02, level, panner);
+        }
+        this.noiseHit(
+          ['bandpass', 1400],
+          time + 0.036,
+          0.18,
+          level * 0.7,
+          panner,
+        );
+        break;
+      case 'closedHat':
+        this.openHat?.gain.cancelScheduledValues(time);
+        this.openHat?.gain.setTargetAtTime(0, time, 0.005);
+        this.openHat = undefined;
+        this.noiseHit(['highpass', 7000], time, 0.05, level * 0.6, panner);
+        break;
+      case 'openHat':
+        this.openHat = this.noiseHit(
+          ['highpass', 6500],
+          time,
+          0.4,
+          level * 0.5,
+          panner,
+        );
+        break;
+      case 'tom':
+        this.tone('sine', [220, 110], 0.25, time, 0.35, level * 0.9, panner);
+        break;
+      case 'perc':
+        // A cowbell: two detuned squares through a band-pass.
+        for (const frequency of [540, 800]) {
+          this.tone(
+            'square',
+            [frequency, frequency],
+            0,
+            time,
+            0.15,
+            level * 0.25,
+            panner,
+            'bandpass',
+          );
+        }
+        break;
+      default:
+        throw new Error(`Unknown drum voice: ${voice}`);
+    }
+  }
+
+  /** An oscillator sweeping `from` to `to` over `sweep` seconds. */
+  private tone(
+    type: OscillatorType,
+    [from, to]: [number, number],
+    sweep: number,
+    time: number,
+    decay: number,
+    level: number,
+    destination: AudioNode,
+    filter?: BiquadFilterType,
+  ) {
+    const osc = this.ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, time);
+    if (sweep > 0) osc.frequency.exponentialRampToValueAtTime(to, time + sweep);
+    let node: AudioNode = osc;
+    if (filter) {
+      const biquad = this.ctx.createBiquadFilter();
+      biquad.type = filter;
+      biquad.frequency.value = from;
+      node.connect(biquad);
+      node = biquad;
+    }
+    node.connect(this.envelope(time, decay, level, destination));
+    osc.start(time);
+    osc.stop(time + decay);
+  }
+
+  /** Filtered noise with a fast attack and exponential decay. */
+  private noiseHit(
+    [type, frequency]: [BiquadFilterType, number],
+    time: number,
+    decay: number,
+    level: number,
+    destination: AudioNode,
+  ): GainNode {
+    const source = this.ctx.createBufferSource();
+    source.buffer = this.noise;
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    const envelope = this.envelope(time, decay, level, destination);
+    source.connect(filter);
+    filter.connect(envelope);
+    source.start(time);
+    source.stop(time + decay);
+    return envelope;
+  }
+
+  private envelope(
+    time: number,
+    decay: number,
+    level: number,
+    destination: AudioNode,
+  ): GainNode {
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(level, time + 0.002);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + decay);
+    gain.connect(destination);
+    return gain;
+  }
+}
+
+/**
+ * Plays a sequencer pattern on a `DrumKit` as `clock` reaches each step,
+ * rolling each step's chance and splitting ratcheted steps into even hits.
+ */
+export class DrumMachine {
+  readonly kit: DrumKit;
+  /**
+   * Whether steps make a sound. The clock keeps time either way, so
+   * turning it on mid-pattern comes in on the beat.
+   */
+  enabled = false;
+  /** How much hits drift in time and level at random, 0 to 1. */
+  humanize = 0;
+  private pattern = emptyPattern();
+  private tracks = DEFAULT_TRACKS;
+
+  constructor(private readonly ctx: BaseAudioContext, clock: StepClock) {
+    this.kit = new DrumKit(ctx);
+    clock.onStep((step, time, duration) => {
+      if (this.enabled) this.playStep(step, time, duration);
+    });
+  }
+
+  get output(): GainNode {
+    return this.kit.output;
+  }
+
+  /** Plays `pattern`, with row `i` on the voice of `tracks[i]`. */
+  setPattern(pattern: SequencerPattern, tracks: SequencerTrack[]) {
+    this.pattern = pattern;
+    this.tracks = tracks;
+  }
+
+  private playStep(step: number, time: number, duration: number) {
+    const {grid, panningGrid, probabilityGrid, ratchetGrid, nudgeGrid} =
+      this.pattern;
+    this.tracks.forEach(({voice}, track) => {
+      const velocity = grid[track]?.[step] ?? 0;
+      if (velocity === 0) return;
+      const chance = probabilityGrid[track]?.[step] ?? 100;
+      if (Math.random() * 100 >= chance) return;
+      const pan = panningGrid[track]?.[step] ?? 0;
+      const ratchet = ratchetGrid[track]?.[step] ?? 1;
+      const nudge = ((nudgeGrid[track]?.[step] ?? 0) / 100) * duration;
+      for (let hit = 0; hit < ratchet; hit++) {
+        const drift = (Math.random() * 2 - 1) * this.humanize * HUMANIZE_TIME;
+        const gain = 1 - Math.random() * this.humanize * HUMANIZE_LEVEL;
+        // Early nudges can reach back past the lookahead; those play now.
+        const hitTime = Math.max(
+          this.ctx.currentTime,
+          time + nudge + (hit * duration) / ratchet + drift,
+        );
+        this.kit.trigger(voice, hitTime, velocity, pan, gain);
+      }
+    });
+  }
+}
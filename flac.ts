@@ -0,0 +1,348 @@
+/**
+ * @fileoverview A small FLAC encoder for 16-bit PCM using fixed predictors.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+// 4-bit Rice parameters top out at 14; 15 is reserved as an escape code.
+const MAX_RICE_PARAM = 14;
+
+/** Sample rate codes that can be stored directly in a frame header. */
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+const CRC8_TABLE = makeCrcTable(0x07, 8);
+const CRC16_TABLE = makeCrcTable(0x8005, 16);
+
+function makeCrcTable(poly: number, width: number): Uint16Array {
+  const table = new Uint16Array(256);
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let j = 0; j < 8; j++) {
+      crc = crc & topBit ? (crc << 1) ^ poly : crc << 1;
+    }
+    table[i] = crc & mask;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]) & 0xffff;
+  }
+  return crc;
+}
+
+/** An MSB-first bit writer backed by a growable byte buffer. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  get byteLength() {
+    return this.length;
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  /** Writes the low `count` bits of `value` (count <= 24). */
+  write(value: number, count: number) {
+    this.acc = (this.acc << count) | (value & ((1 << count) - 1));
+    this.accBits += count;
+    this.ensure(4);
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.bytes[this.length++] = (this.acc >>> this.accBits) & 0xff;
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  /** Writes `count` bits of a value that may exceed 24 bits. */
+  writeLong(value: number, count: number) {
+    while (count > 24) {
+      count -= 24;
+      this.write(Math.floor(value / 2 ** count), 24);
+      value %= 2 ** count;
+    }
+    this.write(value, count);
+  }
+
+  writeSigned(value: number, count: number) {
+    this.write(value & ((1 << count) - 1), count);
+  }
+
+  /** Writes `count` zero bits followed by a one bit. */
+  writeUnary(count: number) {
+    while (count >= 24) {
+      this.write(0, 24);
+      count -= 24;
+    }
+    this.write(1, count + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    this.alignToByte();
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  view(start = 0, end = this.length) {
+    return this.bytes.subarray(start, end);
+  }
+}
+
+/** Encodes a frame number using FLAC's extended UTF-8 scheme. */
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let bytes = 2;
+  while (value >= 2 ** (7 - bytes + 6 * (bytes - 1))) bytes++;
+  const lead = (0xff00 >> bytes) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * (bytes - 1))), 8);
+  for (let i = bytes - 2; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function computeResidual(
+  samples: Int32Array,
+  order: number,
+  residual: Int32Array,
+): number {
+  let sum = 0;
+  for (let i = order; i < samples.length; i++) {
+    let r: number;
+    switch (order) {
+      case 0:
+        r = samples[i];
+        break;
+      case 1:
+        r = samples[i] - samples[i - 1];
+        break;
+      case 2:
+        r = samples[i] - 2 * samples[i - 1] + samples[i - 2];
+        break;
+      case 3:
+        r =
+          samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3];
+        break;
+      default:
+        r =
+          samples[i] -
+          4 * samples[i - 1] +
+          6 * samples[i - 2] -
+          4 * samples[i - 3] +
+          samples[i - 4];
+    }
+    residual[i - order] = r;
+    sum += Math.abs(r);
+  }
+  return sum;
+}
+
+/** Picks the Rice parameter that minimizes the coded size of `residual`. */
+function bestRiceParam(residual: Int32Array, count: number): number {
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const r = residual[i];
+    sum += r < 0 ? -2 * r - 1 : 2 * r;
+  }
+  if (count === 0 || sum === 0) return 0;
+  const mean = sum / count;
+  return Math.min(MAX_RICE_PARAM, Math.max(0, Math.floor(Math.log2(mean))));
+}
+
+function writeSubframe(
+  writer: BitWriter,
+  samples: Int32Array,
+  scratch: Int32Array,
+) {
+  const n = samples.length;
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = samples[i] === samples[0];
+  if (constant) {
+    writer.write(0, 8); // Padding bit, SUBFRAME_CONSTANT, no wasted bits.
+    writer.writeSigned(samples[0], 16);
+    return;
+  }
+
+  let bestOrder = 0;
+  let bestSum = Infinity;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    const sum = computeResidual(samples, order, scratch);
+    if (sum < bestSum) {
+      bestSum = sum;
+      bestOrder = order;
+    }
+  }
+  const count = n - bestOrder;
+  computeResidual(samples, bestOrder, scratch);
+  const k = bestRiceParam(scratch, count);
+
+  // Fall back to verbatim if the Rice coding would not save anything.
+  let codedBits = 0;
+  for (let i = 0; i < count; i++) {
+    const r = scratch[i];
+    const u = r < 0 ? -2 * r - 1 : 2 * r;
+    codedBits += (u >>> k) + 1 + k;
+  }
+  if (codedBits + 16 * bestOrder + 6 >= 16 * n) {
+    writer.write(0b00000010, 8); // SUBFRAME_VERBATIM
+    for (let i = 0; i < n; i++) writer.writeSigned(samples[i], 16);
+    return;
+  }
+
+  writer.write(0b00010000 | (bestOrder << 1), 8); // SUBFRAME_FIXED
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[i], 16);
+  writer.write(0b00, 2); // 4-bit Rice parameters.
+  writer.write(0, 4); // Partition order 0: a single partition.
+  writer.write(k, 4);
+  for (let i = 0; i < count; i++) {
+    const r = scratch[i];
+    const u = r < 0 ? -2 * r - 1 : 2 * r;
+    writer.writeUnary(u >>> k);
+    if (k > 0) writer.write(u & ((1 << k) - 1), k);
+  }
+}
+
+function writeMetadataHeader(
+  writer: BitWriter,
+  isLast: boolean,
+  type: number,
+  length: number,
+) {
+  writer.write(isLast ? 1 : 0, 1);
+  writer.write(type, 7);
+  writer.write(length, 24);
+}
+
+function buildVorbisComment(tags: [string, string][]): Uint8Array {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode('PromptDJ');
+  const comments = tags.map(([key, value]) =>
+    encoder.encode(`${key}=${value}`),
+  );
+  const size =
+    4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  view.setUint32(offset, vendor.length, true);
+  bytes.set(vendor, (offset += 4));
+  offset += vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const comment of comments) {
+    view.setUint32(offset, comment.length, true);
+    bytes.set(comment, (offset += 4));
+    offset += comment.length;
+  }
+  return bytes;
+}
+
+/**
+ * Encodes interleaved 16-bit PCM as a FLAC stream. `tags` are written as a
+ * Vorbis comment block. The STREAMINFO MD5 is left unset, which the format
+ * allows.
+ */
+export function encodeFlac(
+  samples: Int16Array,
+  sampleRate: number,
+  numChannels: number,
+  tags: [string, string][],
+): Blob {
+  const totalFrames = Math.floor(samples.length / numChannels);
+  const writer = new BitWriter();
+  const comment = buildVorbisComment(tags);
+
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+  writeMetadataHeader(writer, false, 0, 34); // STREAMINFO
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24); // Min frame size unknown.
+  writer.write(0, 24); // Max frame size unknown.
+  writer.write(sampleRate, 20);
+  writer.write(numChannels - 1, 3);
+  writer.write(15, 5); // 16 bits per sample.
+  writer.writeLong(totalFrames, 36);
+  writer.writeBytes(new Uint8Array(16)); // MD5 unknown.
+  writeMetadataHeader(writer, true, 4, comment.length); // VORBIS_COMMENT
+  writer.writeBytes(comment);
+
+  const channel = new Int32Array(BLOCK_SIZE);
+  const scratch = new Int32Array(BLOCK_SIZE);
+  const rateCode = SAMPLE_RATE_CODES[sampleRate];
+
+  for (
+    let frame = 0, start = 0;
+    start < totalFrames;
+    frame++, start += BLOCK_SIZE
+  ) {
+    const blockSize = Math.min(BLOCK_SIZE, totalFrames - start);
+    const frameStart = writer.byteLength;
+
+    writer.write(0b11111111111110, 14); // Sync code.
+    writer.write(0, 1); // Reserved.
+    writer.write(0, 1); // Fixed block size stream.
+    writer.write(0b0111, 4); // Block size stored as 16 bits after the header.
+    // Rates without a dedicated code are stored as 16-bit Hz after the header.
+    writer.write(rateCode ?? 0b1101, 4);
+    writer.write(numChannels - 1, 4); // Independent channels.
+    writer.write(0b100, 3); // 16 bits per sample.
+    writer.write(0, 1); // Reserved.
+    writeUtf8Number(writer, frame);
+    writer.write(blockSize - 1, 16);
+    if (rateCode === undefined) writer.write(sampleRate & 0xffff, 16);
+    writer.write(crc8(writer.view(), frameStart, writer.byteLength), 8);
+
+    for (let c = 0; c < numChannels; c++) {
+      const block = channel.subarray(0, blockSize);
+      for (let i = 0; i < blockSize; i++) {
+        block[i] = samples[(start + i) * numChannels + c];
+      }
+      writeSubframe(writer, block, scratch);
+    }
+
+    writer.alignToByte();
+    writer.write(crc16(writer.view(), frameStart, writer.byteLength), 16);
+  }
+
+  return new Blob([writer.view()], {type: 'audio/flac'});
+}
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview The master effects chain: DJ filter, 3-band isolator EQ,
+ * tempo-synced delay, reverb and limiter.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Delay times as note lengths, in beats. */
+export const DELAY_DIVISIONS = {
+  '1/16': 0.25,
+  '1/8': 0.5,
+  '3/16': 0.75,
+  '1/4': 1,
+  '1/2': 2,
+};
+
+export type DelayDivision = keyof typeof DELAY_DIVISIONS;
+
+export interface FxSettings {
+  /** -1 (low-pass closed) through 0 (off) to 1 (high-pass closed). */
+  filter: number;
+  filterResonance: number;
+  /** Band gains (dB). */
+  eqLow: number;
+  eqMid: number;
+  eqHigh: number;
+  killLow: boolean;
+  killMid: boolean;
+  killHigh: boolean;
+  delayMix: number;
+  delayFeedback: number;
+  delayDivision: DelayDivision;
+  reverbMix: number;
+  /** Reverb tail length (s). */
+  reverbDecay: number;
+  limiter: boolean;
+  /** Limiter ceiling (dB). */
+  limiterThreshold: number;
+}
+
+/** The numeric settings. */
+export type FxParam = {
+  [K in keyof FxSettings]: FxSettings[K] extends number ? K : never;
+}[keyof FxSettings];
+
+/** The on/off settings. */
+export type FxSwitch = {
+  [K in keyof FxSettings]: FxSettings[K] extends boolean ? K : never;
+}[keyof FxSettings];
+
+export interface FxParamRange {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const FX_PARAMS: Record<FxParam, FxParamRange> = {
+  filter: {label: 'Filter', min: -1, max: 1, step: 0.01},
+  filterResonance: {label: 'Resonance', min: 0, max: 1, step: 0.01},
+  eqLow: {label: 'Low', min: -24, max: 6, step: 0.5},
+  eqMid: {label: 'Mid', min: -24, max: 6, step: 0.5},
+  eqHigh: {label: 'High', min: -24, max: 6, step: 0.5},
+  delayMix: {label: 'Delay Mix', min: 0, max: 1, step: 0.01},
+  delayFeedback: {label: 'Feedback', min: 0, max: 0.9, step: 0.01},
+  reverbMix: {label: 'Reverb Mix', min: 0, max: 1, step: 0.01},
+  reverbDecay: {label: 'Decay', min: 0.5, max: 8, step: 0.1},
+  limiterThreshold: {label: 'Ceiling', min: -24, max: 0, step: 0.5},
+};
+
+export const FX_SWITCHES: Record<FxSwitch, string> = {
+  killLow: 'Kill Low',
+  killMid: 'Kill Mid',
+  killHigh: 'Kill High',
+  limiter: 'Limiter',
+};
+
+export const DEFAULT_FX: FxSettings = {
+  filter: 0,
+  filterResonance: 0.2,
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  killLow: false,
+  killMid: false,
+  killHigh: false,
+  delayMix: 0,
+  delayFeedback: 0.4,
+  delayDivision: '3/16',
+  reverbMix: 0,
+  reverbDecay: 2.5,
+  limiter: true,
+  limiterThreshold: -1,
+};
+
+/** Filter positions this close to the center leave the filter open. */
+const FILTER_DEADZONE = 0.02;
+/** Where the highpass sits when open, below anything audible (Hz). */
+const OPEN_HIGHPASS = 10;
+/** Isolator crossover frequencies (Hz). */
+const LOW_CROSSOVER = 250;
+const HIGH_CROSSOVER = 2500;
+/** Time constant for parameter changes, to avoid zipper noise (s). */
+const SMOOTHING = 0.02;
+const MAX_DELAY = 4;
+
+function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+/** Noise with a decaying envelope, as a simple reverb impulse response. */
+function createImpulse(ctx: BaseAudioContext, seconds: number) {
+  const length = Math.round(ctx.sampleRate * seconds);
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let c = 0; c < impulse.numberOfChannels; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+    }
+  }
+  return impulse;
+}
+
+/**
+ * Builds the chain between `input` and `destination`. The delay and reverb
+ * are sends: the dry signal always passes at full level.
+ */
+export class MasterFx {
+  readonly input: GainNode;
+  private settings: FxSettings = {...DEFAULT_FX};
+  private bpm = 120;
+  // The DJ filter: a lowpass and a highpass in series, one swept at a time.
+  private readonly lowpass: BiquadFilterNode;
+  private readonly highpass: BiquadFilterNode;
+  private readonly bands: {low: GainNode; mid: GainNode; high: GainNode};
+  private readonly delaySend: GainNode;
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private readonly reverbSend: GainNode;
+  private readonly reverb: ConvolverNode;
+  private readonly limiter: DynamicsCompressorNode;
+
+  constructor(private readonly ctx: BaseAudioContext, destination: AudioNode) {
+    this.input = ctx.createGain();
+    this.lowpass = ctx.createBiquadFilter();
+    this.lowpass.type = 'lowpass';
+    this.highpass = ctx.createBiquadFilter();
+    this.highpass.type = 'highpass';
+    this.input.connect(this.lowpass);
+    this.lowpass.connect(this.highpass);
+
+    // Isolator: split into three bands with 24dB/octave crossovers so each
+    // band can be cut completely.
+    const eqOut = ctx.createGain();
+    const band = (...filters: Array<[BiquadFilterType, number]>) => {
+      let node: AudioNode = this.highpass;
+      for (const [type, frequency] of filters) {
+        const biquad = ctx.createBiquadFilter();
+        biquad.type = type;
+        biquad.frequency.value = frequency;
+        node.connect(biquad);
+        node = biquad;
+      }
+      const gain = ctx.createGain();
+      node.connect(gain);
+      gain.connect(eqOut);
+      return gain;
+    };
+    this.bands = {
+      low: band(['lowpass', LOW_CROSSOVER], ['lowpass', LOW_CROSSOVER]),
+      mid: band(
+        ['highpass', LOW_CROSSOVER],
+        ['highpass', LOW_CROSSOVER],
+        ['lowpass', HIGH_CROSSOVER],
+        ['lowpass', HIGH_CROSSOVER],
+      ),
+      high: band(['highpass', HIGH_CROSSOVER], ['highpass', HIGH_CROSSOVER]),
+    };
+
+    const mix = ctx.createGain();
+    eqOut.connect(mix);
+
+    this.delaySend = ctx.createGain();
+    this.delay = ctx.createDelay(MAX_DELAY);
+    this.feedback = ctx.createGain();
+    eqOut.connect(this.delaySend);
+    this.delaySend.connect(this.delay);
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(mix);
+
+    this.reverbSend = ctx.createGain();
+    this.reverb = ctx.createConvolver();
+    eqOut.connect(this.reverbSend);
+    this.reverbSend.connect(this.reverb);
+    this.reverb.connect(mix);
+
+    this.limiter = ctx.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+    mix.connect(this.limiter);
+    this.limiter.connect(destination);
+
+    this.reverb.buffer = createImpulse(ctx, this.settings.reverbDecay);
+    this.update(true);
+  }
+
+  /** The end of the chain, for taps such as analysers. */
+  get output(): AudioNode {
+    return this.limiter;
+  }
+
+  set(changes: Partial<FxSettings>) {
+    const decay = this.settings.reverbDecay;
+    this.settings = {...this.settings, ...changes};
+    if (this.settings.reverbDecay !== decay) {
+      this.reverb.buffer = createImpulse(this.ctx, this.settings.reverbDecay);
+    }
+    this.update();
+  }
+
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+    this.update();
+  }
+
+  private update(immediate = false) {
+    const s = this.settings;
+    const ramp = (param: AudioParam, value: number) => {
+      if (immediate) {
+        param.value = value;
+      } else {
+        param.setTargetAtTime(value, this.ctx.currentTime, SMOOTHING);
+      }
+    };
+
+    // Sweep exponentially: 20kHz down to 40Hz, or 20Hz up to 10kHz. The
+    // filter not in use is ramped open rather than switched out, so crossing
+    // the center never jumps.
+    const resonance = 0.7 + s.filterResonance * 14;
+    const lowpassOn = s.filter <= -FILTER_DEADZONE;
+    const highpassOn = s.filter >= FILTER_DEADZONE;
+    ramp(
+      this.lowpass.frequency,
+      lowpassOn ? 20000 * (40 / 20000) ** -s.filter : this.ctx.sampleRate / 2,
+    );
+    ramp(this.lowpass.Q, lowpassOn ? resonance : 0.7);
+    ramp(
+      this.highpass.frequency,
+      highpassOn ? 20 * 500 ** s.filter : OPEN_HIGHPASS,
+    );
+    ramp(this.highpass.Q, highpassOn ? resonance : 0.7);
+
+    ramp(this.bands.low.gain, s.killLow ? 0 : dbToGain(s.eqLow));
+    ramp(this.bands.mid.gain, s.killMid ? 0 : dbToGain(s.eqMid));
+    ramp(this.bands.high.gain, s.killHigh ? 0 : dbToGain(s.eqHigh));
+
+    const beats = DELAY_DIVISIONS[s.delayDivision];
+    ramp(this.delay.delayTime, Math.min(MAX_DELAY, (beats * 60) / this.bpm));
+    ramp(this.delaySend.gain, s.delayMix);
+    ramp(this.feedback.gain, s.delayFeedback);
+    ramp(this.reverbSend.gain, s.reverbMix);
+
+    // A bypassed limiter is a compressor that never engages.
+    ramp(this.limiter.threshold, s.limiter ? s.limiterThreshold : 0);
+    ramp(this.limiter.ratio, s.limiter ? 20 : 1);
+  }
+}
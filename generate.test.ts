@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Euclidean rhythms, generated patterns and mutations.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {euclid, generatePattern, mutatePattern} from './generate';
+import {DEFAULT_TIMING, DEFAULT_TRACKS, type DrumVoice} from './sequencer';
+
+/** A rhythm as 'x' for a hit and '.' for a rest. */
+function pattern(row: readonly (boolean | number)[]): string {
+  return row.map((hit) => (hit ? 'x' : '.')).join('');
+}
+
+/** The row of the default track playing `voice`. */
+function track(voice: DrumVoice): number {
+  return DEFAULT_TRACKS.findIndex((t) => t.voice === voice);
+}
+
+/** Steps hit in `row`. */
+function hitSteps(row: number[]): number[] {
+  return row.flatMap((velocity, s) => (velocity > 0 ? [s] : []));
+}
+
+// Keeps hit counts at their targets: random variation is floor(0.5 * 3) - 1.
+const steady = () => 0.5;
+
+describe('euclid', () => {
+  it.each([
+    [3, 8, 0, 'x..x..x.'],
+    [5, 16, 0, 'x...x..x..x..x..'],
+    [4, 16, 0, 'x...x...x...x...'],
+    [3, 8, 2, 'x.x..x..'],
+    [1, 4, -1, '...x'],
+    [0, 8, 0, '........'],
+    [8, 8, 0, 'xxxxxxxx'],
+  ])(
+    'spreads %i hits over %i steps rotated by %i',
+    (hits, steps, rotation, expected) => {
+      expect(pattern(euclid(hits, steps, rotation))).toBe(expected);
+    },
+  );
+});
+
+describe('generatePattern', () => {
+  it('anchors kicks, backbeats and offbeats', () => {
+    const {grid} = generatePattern(
+      DEFAULT_TIMING,
+      DEFAULT_TRACKS,
+      undefined,
+      steady,
+    );
+    expect(hitSteps(grid[track('kick')])).toEqual([0, 4, 8, 12]);
+    expect(hitSteps(grid[track('snare')])).toEqual([4, 12]);
+    expect(hitSteps(grid[track('openHat')])).toEqual([2, 10]);
+  });
+
+  it('gives backbeat tracks an even number of hits', () => {
+    for (const density of [0.25, 0.5, 0.75, 1]) {
+      const {grid} = generatePattern(
+        DEFAULT_TIMING,
+        DEFAULT_TRACKS,
+        density,
+        steady,
+      );
+      for (const voice of ['snare', 'clap'] as const) {
+        expect(hitSteps(grid[track(voice)]).length % 2).toBe(0);
+      }
+    }
+  });
+
+  it('plays nothing at no density', () => {
+    const {grid} = generatePattern(DEFAULT_TIMING, DEFAULT_TRACKS, 0, steady);
+    expect(grid.every((row) => row.every((velocity) => velocity === 0))).toBe(
+      true,
+    );
+  });
+
+  it('fills tracks up to every step at full density', () => {
+    const {grid} = generatePattern(DEFAULT_TIMING, DEFAULT_TRACKS, 1, steady);
+    expect(hitSteps(grid[track('closedHat')])).toHaveLength(16);
+    expect(hitSteps(grid[track('kick')])).toHaveLength(8);
+    expect(hitSteps(grid[track('snare')])).toHaveLength(4);
+  });
+});
+
+describe('mutatePattern', () => {
+  it('leaves the pattern as it was at no amount', () => {
+    const original = generatePattern(DEFAULT_TIMING, DEFAULT_TRACKS);
+    const mutated = mutatePattern(original, 0);
+    expect(mutated).toEqual(original);
+    expect(mutated).not.toBe(original);
+  });
+
+  it('changes some steps at full amount', () => {
+    const original = generatePattern(DEFAULT_TIMING, DEFAULT_TRACKS);
+    expect(mutatePattern(original, 1).grid).not.toEqual(original.grid);
+  });
+});
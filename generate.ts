@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Beat pattern generation: Euclidean rhythms per track at a
+ * target density, and small random variations of a pattern.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type DrumVoice,
+  METERS,
+  type SequencerPattern,
+  type SequencerTiming,
+  type SequencerTrack,
+  copyPattern,
+  patternFromGrid,
+  stepsPerBar,
+} from './sequencer';
+
+/**
+ * Where a track's hits sit: from the downbeat, halfway between where they
+ * would from the downbeat (a backbeat at two a bar), or half a beat late.
+ */
+type Anchor = 'downbeat' | 'backbeat' | 'offbeat';
+
+/** How a track is generated. */
+interface TrackProfile {
+  /** Share of steps hit at the default density. */
+  density: number;
+  /** Tracks without one start anywhere. */
+  anchor?: Anchor;
+}
+
+/** Profiles by the sound a track plays. */
+const TRACK_PROFILES: Record<DrumVoice, TrackProfile> = {
+  kick: {density: 0.25, anchor: 'downbeat'},
+  snare: {density: 0.125, anchor: 'backbeat'},
+  clap: {density: 0.06, anchor: 'backbeat'},
+  closedHat: {density: 0.5, anchor: 'downbeat'},
+  openHat: {density: 0.1, anchor: 'offbeat'},
+  tom: {density: 0.1},
+  perc: {density: 0.15},
+};
+
+/** The density target the track profiles are written for. */
+export const DEFAULT_DENSITY = 0.5;
+
+/**
+ * `hits` spread as evenly as possible over `steps`, starting on step 0 and
+ * then moved `rotation` steps later.
+ */
+export function euclid(hits: number, steps: number, rotation = 0): boolean[] {
+  const shift = ((rotation % steps) + steps) % steps;
+  return Array.from(
+    {length: steps},
+    (_, i) => (((i - shift + steps) % steps) * hits) % steps < hits,
+  );
+}
+
+/** An accent on the beat, quieter hits between. */
+function velocityAt(
+  step: number,
+  timing: SequencerTiming,
+  random: () => number,
+): number {
+  const beat = stepsPerBar(timing) / METERS[timing.meter].beats;
+  if (step % beat === 0) return random() < 0.3 ? 3 : 2;
+  return random() < 0.3 ? 1 : 2;
+}
+
+function rotationFor(
+  anchor: Anchor | undefined,
+  hits: number,
+  timing: SequencerTiming,
+  random: () => number,
+): number {
+  const beat = stepsPerBar(timing) / METERS[timing.meter].beats;
+  switch (anchor) {
+    case 'downbeat':
+      return 0;
+    case 'backbeat':
+      return Math.round(timing.steps / hits / 2);
+    case 'offbeat':
+      return Math.round(beat / 2);
+    default:
+      return Math.floor(random() * timing.steps);
+  }
+}
+
+/**
+ * A new pattern on `timing` with a Euclidean rhythm on each of `tracks`.
+ * Tracks keep to the usual role of their sound, e.g. a kick starts on the
+ * downbeat and a snare sits between its hits, while `density` (0-1) scales
+ * how many hits every track gets. Hit counts vary by one at random, except
+ * on the backbeat, which is rounded to an even count to stay on it.
+ */
+export function generatePattern(
+  timing: SequencerTiming,
+  tracks: SequencerTrack[],
+  density = DEFAULT_DENSITY,
+  random = Math.random,
+): SequencerPattern {
+  const {steps} = timing;
+  const grid = tracks.map(({voice}) => {
+    const profile = TRACK_PROFILES[voice];
+    const target = (profile.density * steps * density) / DEFAULT_DENSITY;
+    const variation =
+      target >= 1 && profile.anchor !== 'backbeat'
+        ? Math.floor(random() * 3) - 1
+        : 0;
+    const rounded =
+      profile.anchor === 'backbeat'
+        ? 2 * Math.round(target / 2)
+        : Math.round(target);
+    const hits = Math.min(steps, Math.max(0, rounded + variation));
+    if (hits === 0) return Array(steps).fill(0);
+    const rotation = rotationFor(profile.anchor, hits, timing, random);
+    return euclid(hits, steps, rotation).map((hit, s) =>
+      hit ? velocityAt(s, timing, random) : 0,
+    );
+  });
+  return patternFromGrid(grid, timing);
+}
+
+/**
+ * A variation of `pattern`, touching each step with chance `amount` (0-1).
+ * Hits touched are dropped or played louder or softer; empty steps are
+ * filled at the track's own density, so sparse tracks stay sparse.
+ */
+export function mutatePattern(
+  pattern: SequencerPattern,
+  amount = 0.1,
+  random = Math.random,
+): SequencerPattern {
+  const mutated = copyPattern(pattern);
+  mutated.grid.forEach((row) => {
+    const density = row.filter((velocity) => velocity > 0).length / row.length;
+    row.forEach((velocity, s) => {
+      if (random() >= amount) return;
+      if (velocity > 0) {
+        const roll = random();
+        row[s] =
+          roll < 1 / 3
+            ? 0
+            : roll < 2 / 3
+            ? Math.min(3, velocity + 1)
+            : Math.max(1, velocity - 1);
+      } else if (random() < density) {
+        row[s] = random() < 0.5 ? 1 : 2;
+      }
+    });
+  });
+  return mutated;
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Undo and redo of user edits, recorded as commands that can
+ * be undone and applied again.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The most edits that can be undone; older ones are forgotten. */
+export const MAX_HISTORY = 100;
+
+/** How long after an edit another with its merge key joins it, in ms. */
+export const MERGE_WINDOW = 1000;
+
+/** An edit that has been made. */
+export interface Command {
+  /** Puts things back as they were before the edit. */
+  undo(): void;
+  /** Makes the edit again after an undo. */
+  redo(): void;
+  /**
+   * Edits with the same key in quick succession, e.g. the steps of a slider
+   * drag, are undone as one.
+   */
+  mergeKey?: string;
+}
+
+interface Entry extends Command {
+  /** When the edit, or the last one merged into it, was made. */
+  time: number;
+}
+
+/**
+ * Undo and redo stacks of commands. Edits made while a command is being
+ * undone or redone are not recorded, so commands can restore state through
+ * the same paths as the user.
+ */
+export class History {
+  private undoStack: Entry[] = [];
+  private redoStack: Entry[] = [];
+  // The entry the next edit may merge into; none after an undo or redo.
+  private last?: Entry;
+  private applying = false;
+
+  constructor(
+    private readonly limit = MAX_HISTORY,
+    private readonly now = () => performance.now(),
+  ) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Records an edit that has just been made. */
+  push(command: Command) {
+    if (this.applying) return;
+    const time = this.now();
+    this.redoStack = [];
+    const last = this.last;
+    if (
+      last &&
+      command.mergeKey !== undefined &&
+      command.mergeKey === last.mergeKey &&
+      time - last.time <= MERGE_WINDOW
+    ) {
+      last.redo = command.redo;
+      last.time = time;
+      return;
+    }
+    this.last = {...command, time};
+    this.undoStack.push(this.last);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+  }
+
+  /** Undoes the latest edit, if any. */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+    this.apply(() => entry.undo());
+    this.redoStack.push(entry);
+    return true;
+  }
+
+  /** Makes the latest undone edit again, if any. */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+    this.apply(() => entry.redo());
+    this.undoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * Runs `run` without recording the edits it makes, for ones that are
+   * part of a bigger edit recorded on its own.
+   */
+  ignore(run: () => void) {
+    const applying = this.applying;
+    this.applying = true;
+    try {
+      run();
+    } finally {
+      this.applying = applying;
+    }
+  }
+
+  /** Forgets every edit, e.g. when a project replaces everything. */
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.last = undefined;
+  }
+
+  private apply(run: () => void) {
+    this.last = undefined;
+    this.ignore(run);
+  }
+}
@@ -9,18 +9,164 @@ import {customElement, property, query, state} from 'lit/decorators.js';
 import {classMap} from 'lit/directives/class-map.js';
 import {styleMap} from 'lit/directives/style-map.js';
 
+import {type LiveMusicGenerationConfig} from '@google/genai';
 import {
-  GoogleGenAI,
-  type LiveMusicGenerationConfig,
-  type LiveMusicServerMessage,
-  type LiveMusicSession,
-} from '@google/genai';
-import {decode, decodeAudioData} from './utils';
-const ai = new GoogleGenAI({
-  apiKey: process.env.API_KEY,
-});
+  type AutomationLane,
+  type AutomationTransport,
+  BarClock,
+  createLane,
+  DEFAULT_AUTOMATION_BARS,
+  recordText,
+  recordWeight,
+  textAt,
+  weightAt,
+} from './automation';
+import {type AutosaveEntry, AutosaveStore} from './autosave';
+import {type Command, History} from './history';
+import {
+  type LibraryEntry,
+  type LibraryFilter,
+  PROMPT_CATEGORIES,
+  type PromptCategory,
+  type PromptLibrary,
+  addEntry,
+  emptyLibrary,
+  forgetFiltered,
+  markFiltered,
+  removeEntry,
+  restoreLibrary,
+  searchLibrary,
+  toggleFavorite,
+} from './prompt-library';
+import {
+  formatBytes,
+  formatDuration,
+  PcmRecorder,
+  type RecordingMetadata,
+} from './recorder';
+import {
+  captureScene,
+  easeInOut,
+  lerp,
+  type MorphUnit,
+  morphDurationSeconds,
+  NUM_SCENE_SLOTS,
+  type Scene,
+} from './scenes';
+import {
+  MidiController,
+  type MidiMapping,
+  type MidiMode,
+  type MidiTarget,
+} from './midi';
+import {MidiClockFollower, MidiClockOutput} from './midi-clock';
+import {DrumMachine} from './drums';
+import {StepClock} from './step-clock';
+import {
+  DEFAULT_TRACKS,
+  type DrumVoice,
+  MAX_CHAIN_LENGTH,
+  MAX_RATCHET,
+  MAX_REPEATS,
+  MAX_STEPS,
+  MAX_TRACKS,
+  METERS,
+  MIN_STEPS,
+  NUDGES,
+  PATTERN_NAMES,
+  PROBABILITIES,
+  SEQUENCER_PRESETS,
+  type ChainStep,
+  type Meter,
+  type SequencerBank,
+  type SequencerPattern,
+  type SequencerTiming,
+  type SequencerPreset,
+  type SequencerTrack,
+  type UserPreset,
+  addTrack,
+  canUseTriplets,
+  capturePreset,
+  changeMeter,
+  copyPattern,
+  emptyBank,
+  emptyPattern,
+  moveTrack,
+  presetPattern,
+  removeTrack,
+  retimePattern,
+  stepsPerBar,
+  uniquePresetName,
+} from './sequencer';
+import {DEFAULT_DENSITY, generatePattern, mutatePattern} from './generate';
+import {PatternPlayer} from './song';
+import {describePattern} from './rhythm';
+import {
+  type SmfClip,
+  SmfError,
+  describeNote,
+  encodeSmf,
+  mapNotes,
+  parseSmf,
+  quantizeClip,
+} from './smf';
+import {OutputAnalyser, toDb} from './analysis';
+import {
+  DEFAULT_FX,
+  DELAY_DIVISIONS,
+  type DelayDivision,
+  FX_PARAMS,
+  FX_SWITCHES,
+  type FxParam,
+  type FxSettings,
+  type FxSwitch,
+  MasterFx,
+} from './fx';
+import {
+  BUFFER_PRESETS,
+  type BufferBounds,
+  type BufferMode,
+} from './jitter-buffer';
+import {Deck, type PlaybackState} from './deck';
+import {
+  CROSSFADE_CURVES,
+  type CrossfadeCurve,
+  type CueSource,
+  DeckMixer,
+} from './mixer';
+import {
+  canChooseMainOutput,
+  canSelectOutput,
+  CueBus,
+  listOutputDevices,
+  type OutputDevice,
+  selectOutputDevice,
+  setMainOutput,
+  unlockOutputDevices,
+} from './outputs';
+import {
+  parsePresets,
+  parseProject,
+  type ProjectData,
+  ProjectValidationError,
+  serializePresets,
+  serializeProject,
+} from './project';
+import {MockSessionProvider} from './mock-session';
+import {LyriaSessionProvider, type MusicSessionProvider} from './session';
+import {downloadBlob} from './utils';
 let model = 'lyria-realtime-exp';
 
+/** Uses the offline mock when there is no API key or `?session=mock`. */
+function createSessionProvider(): MusicSessionProvider {
+  const apiKey = process.env.API_KEY;
+  const params = new URLSearchParams(window.location.search);
+  if (!apiKey || params.get('session') === 'mock') {
+    return new MockSessionProvider();
+  }
+  return new LyriaSessionProvider(apiKey, model);
+}
+
 interface Prompt {
   readonly promptId: string;
   readonly color: string;
@@ -28,39 +174,41 @@ interface Prompt {
   weight: number;
 }
 
-type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
-
-/** Throttles a callback to be called at most once per `freq` milliseconds. */
+/**
+ * Throttles a callback to be called at most once per `delay` milliseconds.
+ * A call made while throttled is deferred to the end of the window rather
+ * than dropped, so the final value of a burst is always delivered.
+ */
 function throttle(func: (...args: unknown[]) => void, delay: number) {
   let lastCall = 0;
+  let trailing: number | undefined;
   return (...args: unknown[]) => {
     const now = Date.now();
     const timeSinceLastCall = now - lastCall;
+    window.clearTimeout(trailing);
     if (timeSinceLastCall >= delay) {
       func(...args);
       lastCall = now;
+    } else {
+      trailing = window.setTimeout(() => {
+        lastCall = Date.now();
+        func(...args);
+      }, delay - timeSinceLastCall);
     }
   };
 }
 
-const PROMPT_TEXT_PRESETS = [
-  'Bossa Nova',
-  'Minimal Techno',
-  'Drum and Bass',
-  'Post Punk',
-  'Shoegaze',
-  'Funk',
-  'Chiptune',
-  'Lush Strings',
-  'Sparkling Arpeggios',
-  'Staccato Rhythms',
-  'Punchy Kick',
-  'Dubstep',
-  'K Pop',
-  'Neo Soul',
-  'Trip Hop',
-  'Thrash',
-];
+/** Delays a callback until `delay` milliseconds have passed without a call. */
+function debounce(func: (...args: unknown[]) => void, delay: number) {
+  let timer: number | undefined;
+  return (...args: unknown[]) => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(() => func(...args), delay);
+  };
+}
+
+/** The drag data type of prompt library entries; the data is the text. */
+const LIBRARY_DRAG_TYPE = 'application/x-promptdj-prompt';
 
 const COLORS = [
   '#9900ff',
@@ -82,6 +230,34 @@ function getUnusedRandomColor(usedColors: string[]): string {
   return availableColors[Math.floor(Math.random() * availableColors.length)];
 }
 
+/** Settings that MIDI controls can drive, with their slider ranges. */
+const MIDI_SETTING_RANGES = {
+  temperature: {label: 'Temperature', min: 0, max: 3},
+  guidance: {label: 'Guidance', min: 0, max: 6},
+  topK: {label: 'Top K', min: 1, max: 100},
+  density: {label: 'Density', min: 0, max: 1},
+  brightness: {label: 'Brightness', min: 0, max: 1},
+};
+
+type MidiSettingKey = keyof typeof MIDI_SETTING_RANGES;
+
+/** BPM range of the settings panel, also applied to followed MIDI clock. */
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+
+const MIDI_CLOCK_STORAGE_KEY = 'promptdj.midiClock';
+const BUFFER_STORAGE_KEY = 'promptdj.buffer';
+const OUTPUT_STORAGE_KEY = 'promptdj.outputs';
+const DRUMS_STORAGE_KEY = 'promptdj.drums';
+const PRESETS_STORAGE_KEY = 'promptdj.presets';
+const LIBRARY_STORAGE_KEY = 'promptdj.library';
+
+/** A MIDI output that clock can be sent to. */
+interface MidiPort {
+  id: string;
+  name: string;
+}
+
 // WeightSlider component
 // -----------------------------------------------------------------------------
 /** A slider for adjusting and visualizing prompt weight. */
@@ -444,6 +620,38 @@ export class ResetButton extends IconButton {
   }
 }
 
+// RecordButton component
+// -----------------------------------------------------------------------------
+/** A button for starting and stopping a recording of the output. */
+@customElement('record-button')
+export class RecordButton extends IconButton {
+  @property({type: Boolean}) recording = false;
+
+  static override styles = [
+    IconButton.styles,
+    css`
+      .recording {
+        animation: blink 1s ease-in-out infinite alternate;
+      }
+      @keyframes blink {
+        from {
+          opacity: 1;
+        }
+        to {
+          opacity: 0.4;
+        }
+      }
+    `,
+  ];
+
+  override renderIcon() {
+    if (this.recording) {
+      return svg`<rect class="recording" x="60" y="44" width="20" height="20" rx="2" fill="#ff2244" />`;
+    }
+    return svg`<circle cx="70" cy="54" r="11" fill="#ff2244" />`;
+  }
+}
+
 // AddPromptButton component
 // -----------------------------------------------------------------------------
 /** A button for adding a new prompt. */
@@ -532,6 +740,9 @@ class PromptController extends LitElement {
       border-radius: 5px;
       transition: box-shadow 0.3s ease-out;
     }
+    .prompt.drop-target {
+      outline: 2px dashed #fff;
+    }
     .remove-button {
       position: absolute;
       top: 1.2vmin;
@@ -615,6 +826,8 @@ class PromptController extends LitElement {
   @property({type: String}) text = '';
   @property({type: Number}) weight = 0;
   @property({type: String}) color = '';
+  /** Whether a library entry is being dragged over the prompt. */
+  @state() private dropTarget = false;
 
   @query('weight-slider') private weightInput!: WeightSlider;
   @query('#text') private textInput!: HTMLSpanElement;
@@ -656,6 +869,23 @@ class PromptController extends LitElement {
     this.dispatchPromptChange();
   }
 
+  private handleDragOver(e: DragEvent) {
+    if (!e.dataTransfer?.types.includes(LIBRARY_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    this.dropTarget = true;
+  }
+
+  /** Takes the text of a library entry dropped on the prompt. */
+  private handleDrop(e: DragEvent) {
+    this.dropTarget = false;
+    const text = e.dataTransfer?.getData(LIBRARY_DRAG_TYPE);
+    if (!text) return;
+    e.preventDefault();
+    this.text = text;
+    this.dispatchPromptChange();
+  }
+
   private dispatchPromptRemoved() {
     this.dispatchEvent(
       new CustomEvent<string>('prompt-removed', {
@@ -668,13 +898,19 @@ class PromptController extends LitElement {
 
   override render() {
     const classes = classMap({
-      prompt: true,
+      'prompt': true,
+      'drop-target': this.dropTarget,
     });
     const glowIntensity = Math.min(this.weight / 1.5, 1.0);
     const promptStyle = styleMap({
       boxShadow: `0 0 ${glowIntensity * 20}px ${this.color}99`,
     });
-    return html`<div class=${classes} style=${promptStyle}>
+    return html`<div
+      class=${classes}
+      style=${promptStyle}
+      @dragover=${this.handleDragOver}
+      @dragleave=${() => (this.dropTarget = false)}
+      @drop=${this.handleDrop}>
       <button class="remove-button" @click=${this.dispatchPromptRemoved}>
         ×</button
       >
@@ -697,6 +933,377 @@ class PromptController extends LitElement {
   }
 }
 
+/** Labels of the prompt library's views, in the order shown. */
+const LIBRARY_VIEWS: Record<LibraryFilter | 'risky', string> = {
+  all: 'ALL',
+  favorites: '★',
+  genre: 'GENRE',
+  instrument: 'INSTRUMENT',
+  mood: 'MOOD',
+  texture: 'TEXTURE',
+  risky: 'RISKY',
+};
+
+/**
+ * A searchable list of prompt texts. Clicking an entry adds it as a new
+ * prompt; dragging one onto a prompt replaces that prompt's text. Texts the
+ * server has filtered are flagged and listed under RISKY.
+ */
+@customElement('prompt-library')
+class PromptLibraryPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 1vmin;
+      padding: 1.5vmin;
+      background-color: #1a1a1a;
+      border: 1px solid #444;
+      border-radius: 5px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      box-sizing: border-box;
+    }
+    .header,
+    .add-entry {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    .views {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5vmin;
+    }
+    input,
+    button,
+    select {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.5vmin 1vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+    }
+    input {
+      flex: 1;
+      min-width: 0;
+    }
+    button {
+      cursor: pointer;
+      font-weight: bold;
+    }
+    button:hover:not(:disabled) {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    button.active {
+      background-color: #ffdd28;
+      border-color: #ffdd28;
+      color: #000;
+    }
+    ul {
+      flex: 1;
+      min-height: 0;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+      overflow-y: auto;
+    }
+    li {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      padding: 0.3vmin 0;
+    }
+    li button {
+      padding: 0.2vmin 0.6vmin;
+    }
+    .star {
+      color: #666;
+    }
+    .star.starred {
+      color: #ffdd28;
+    }
+    .entry {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .entry[draggable='true'] {
+      cursor: grab;
+    }
+    .entry[draggable='true']:hover {
+      color: #fff;
+      text-decoration: underline;
+    }
+    .risky {
+      color: #ff8a28;
+    }
+    .reason {
+      color: #aaa;
+      font-size: 1.2vmin;
+    }
+    .empty {
+      color: #888;
+    }
+  `;
+
+  @property({attribute: false}) library: PromptLibrary = emptyLibrary();
+  @state() private query = '';
+  @state() private view: LibraryFilter | 'risky' = 'all';
+  @state() private newText = '';
+  @state() private newCategory: PromptCategory = 'genre';
+
+  private dispatch<T>(type: string, detail?: T) {
+    this.dispatchEvent(new CustomEvent<T>(type, {detail}));
+  }
+
+  private changeLibrary(library: PromptLibrary) {
+    this.dispatch('library-changed', library);
+  }
+
+  private handleAddEntry() {
+    this.changeLibrary(addEntry(this.library, this.newText, this.newCategory));
+    this.newText = '';
+  }
+
+  private handleDragStart(e: DragEvent, text: string) {
+    if (!e.dataTransfer) return;
+    e.dataTransfer.setData(LIBRARY_DRAG_TYPE, text);
+    e.dataTransfer.setData('text/plain', text);
+    e.dataTransfer.effectAllowed = 'copy';
+  }
+
+  private renderEntry({text, user}: LibraryEntry) {
+    const starred = this.library.favorites.includes(text);
+    const reason = this.library.filtered[text];
+    return html`<li>
+      <button
+        class=${classMap({star: true, starred})}
+        title=${starred ? 'Remove from favorites' : 'Add to favorites'}
+        @click=${() => this.changeLibrary(toggleFavorite(this.library, text))}>
+        ★
+      </button>
+      <span
+        class="entry"
+        draggable="true"
+        title="Click to add as a prompt, or drag onto a prompt"
+        @click=${() => this.dispatch('library-add-prompt', text)}
+        @dragstart=${(e: DragEvent) => this.handleDragStart(e, text)}
+        >${text}</span
+      >
+      ${reason === undefined
+        ? ''
+        : html`<span class="risky" title="Filtered: ${reason}">⚠</span>`}
+      ${user
+        ? html`<button
+            title="Remove from the library"
+            @click=${() => this.changeLibrary(removeEntry(this.library, text))}>
+            ✕
+          </button>`
+        : ''}
+    </li>`;
+  }
+
+  private renderRisky() {
+    const needle = this.query.trim().toLowerCase();
+    const filtered = Object.entries(this.library.filtered).filter(([text]) =>
+      text.toLowerCase().includes(needle),
+    );
+    if (!filtered.length) {
+      return html`<div class="empty">No filtered prompts.</div>`;
+    }
+    return html`<ul>
+      ${filtered.map(
+        ([text, reason]) => html`<li>
+          <span class="risky">⚠</span>
+          <span class="entry" title=${text}
+            >${text} <span class="reason">${reason}</span></span
+          >
+          <button
+            title="Stop flagging this prompt"
+            @click=${() =>
+              this.changeLibrary(forgetFiltered(this.library, text))}>
+            FORGET
+          </button>
+        </li>`,
+      )}
+    </ul>`;
+  }
+
+  private renderEntries(filter: LibraryFilter) {
+    const entries = searchLibrary(this.library, this.query, filter);
+    if (!entries.length) {
+      return html`<div class="empty">No matching prompts.</div>`;
+    }
+    return html`<ul>
+      ${entries.map((entry) => this.renderEntry(entry))}
+    </ul>`;
+  }
+
+  override render() {
+    const views = Object.keys(LIBRARY_VIEWS) as (LibraryFilter | 'risky')[];
+    return html`
+      <div class="header">
+        <input
+          type="search"
+          placeholder="Search prompts"
+          .value=${this.query}
+          @input=${(e: Event) =>
+            (this.query = (e.target as HTMLInputElement).value)} />
+        <button title="Close" @click=${() => this.dispatch('close')}>✕</button>
+      </div>
+      <div class="views">
+        ${views.map(
+          (view) => html`<button
+            class=${classMap({active: this.view === view})}
+            @click=${() => (this.view = view)}>
+            ${LIBRARY_VIEWS[view]}
+          </button>`,
+        )}
+      </div>
+      ${this.view === 'risky'
+        ? this.renderRisky()
+        : this.renderEntries(this.view)}
+      <div class="add-entry">
+        <input
+          type="text"
+          placeholder="Your own prompt"
+          .value=${this.newText}
+          @input=${(e: Event) =>
+            (this.newText = (e.target as HTMLInputElement).value)}
+          @keydown=${(e: KeyboardEvent) => {
+            if (e.key === 'Enter') this.handleAddEntry();
+          }} />
+        <select
+          @change=${(e: Event) =>
+            (this.newCategory = (e.target as HTMLSelectElement)
+              .value as PromptCategory)}>
+          ${PROMPT_CATEGORIES.map(
+            (category) =>
+              html`<option
+                value=${category}
+                ?selected=${category === this.newCategory}>
+                ${category}
+              </option>`,
+          )}
+        </select>
+        <button ?disabled=${!this.newText.trim()} @click=${this.handleAddEntry}>
+          ADD
+        </button>
+      </div>
+    `;
+  }
+}
+
+/**
+ * The prompts a session should play: the weighted ones the server has not
+ * filtered, plus the beat pattern playing at the sequencer's weight.
+ */
+function sessionPrompts(
+  prompts: Iterable<Prompt>,
+  filtered: Set<string>,
+  bank: SequencerBank,
+  playingPattern: number,
+  sequencerWeight: number,
+): Prompt[] {
+  const result = [...prompts].filter(
+    (p) => !filtered.has(p.text) && p.weight !== 0,
+  );
+  const description =
+    sequencerWeight > 0
+      ? describePattern(bank.patterns[playingPattern], bank.tracks)
+      : '';
+  if (description) {
+    result.push({
+      promptId: 'prompt-sequencer',
+      text: description,
+      weight: sequencerWeight,
+      color: '#ff0044', // not used for background, but required by type
+    });
+  }
+  return result;
+}
+
+/** The detail of `sequencer-changed`. */
+interface SequencerChange {
+  bank: SequencerBank;
+  weight: number;
+  /** Changes in a row with the same key, e.g. a slider drag, undo as one. */
+  mergeKey?: string;
+}
+
+/** What clicking a step sets, besides its pan on Alt+Click. */
+type StepMode = 'velocity' | 'chance' | 'ratchet' | 'nudge';
+
+/** The grid and values clicks cycle through in each mode but velocity. */
+const STEP_MODES: Record<
+  Exclude<StepMode, 'velocity'>,
+  {
+    grid: 'probabilityGrid' | 'ratchetGrid' | 'nudgeGrid';
+    values: number[];
+    title: string;
+  }
+> = {
+  chance: {
+    grid: 'probabilityGrid',
+    values: PROBABILITIES,
+    title: 'Click to set the chance of the step playing.',
+  },
+  ratchet: {
+    grid: 'ratchetGrid',
+    values: Array.from({length: MAX_RATCHET}, (_, i) => i + 1),
+    title: 'Click to split the step into quick repeated hits.',
+  },
+  nudge: {
+    grid: 'nudgeGrid',
+    values: NUDGES,
+    title: 'Click to play the step early or late.',
+  },
+};
+
+/** How much of the pattern MUTATE changes. */
+const MUTATE_AMOUNT = 0.1;
+
+/** Suggested track descriptors; any text can be entered. */
+const TRACK_DESCRIPTORS = [
+  'kick drum',
+  '808 kick',
+  'snare drum',
+  'rimshot',
+  'clap',
+  'closed hi-hat',
+  'open hi-hat',
+  'ride cymbal',
+  'crash cymbal',
+  'toms',
+  'shaker',
+  'tambourine',
+  'congas',
+  'bongos',
+  '808 cowbell',
+  'percussion',
+];
+
+/** A MIDI clip being imported and the track each of its notes goes on. */
+interface MidiImport {
+  clip: SmfClip;
+  /** The file's name. */
+  name: string;
+  /** Tracks by note; -1 leaves the note out. */
+  mapping: Map<number, number>;
+  /** Notes with no track of their own, for the user to place. */
+  unknown: number[];
+}
+
 /** A brutalist beat sequencer for controlling drums and percussion. */
 @customElement('beat-sequencer')
 class BeatSequencer extends LitElement {
@@ -713,6 +1320,7 @@ class BeatSequencer extends LitElement {
       width: 100%;
       height: 100%;
       box-sizing: border-box;
+      position: relative;
     }
     .sequencer-controls {
       display: flex;
@@ -722,7 +1330,9 @@ class BeatSequencer extends LitElement {
     .sequencer-controls label {
       font-weight: bold;
     }
-    .sequencer-controls select {
+    .sequencer-controls select,
+    .sequencer-controls input[type='number'],
+    .sequencer-controls input[type='text'] {
       background-color: #2a2a2a;
       color: #eee;
       border: 1px solid #666;
@@ -747,6 +1357,52 @@ class BeatSequencer extends LitElement {
       background-color: #3a3a3a;
       color: #fff;
     }
+    .sequencer-controls button.active {
+      border-color: #ff0044;
+      color: #ff0044;
+    }
+    .sequencer-controls button:disabled,
+    .sequencer-controls input:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .sequencer-controls input[type='number'] {
+      width: 6vmin;
+    }
+    .patterns {
+      display: flex;
+      gap: 0.5vmin;
+    }
+    .sequencer-controls button.playing {
+      box-shadow: inset 0 -0.4vmin #ff0044;
+    }
+    .song {
+      flex-wrap: wrap;
+      gap: 1vmin;
+    }
+    .chain-step {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      padding: 0.3vmin;
+      border: 1px solid #444;
+      border-radius: 3px;
+    }
+    .chain-step.playing {
+      border-color: #ff0044;
+    }
+    .chain-step input[type='number'] {
+      width: 4vmin;
+    }
+    .swing-control {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+    }
+    .swing-control input[type='range'] {
+      width: 12vmin;
+      accent-color: #ff0044;
+    }
     .weight-control {
       display: flex;
       align-items: center;
@@ -757,9 +1413,46 @@ class BeatSequencer extends LitElement {
       flex-grow: 1;
       accent-color: #ff0044;
     }
+    .drum-control {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+    }
+    .drum-control input[type='range'] {
+      width: 10vmin;
+      accent-color: #ff0044;
+    }
+    .track-editor,
+    .preset-manager {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5vmin;
+      overflow-y: auto;
+      flex-grow: 1;
+    }
+    .preset-manager input[type='text'] {
+      width: 24vmin;
+    }
+    .preset-manager input.search {
+      margin-left: auto;
+      width: 16vmin;
+    }
+    .preset-manager .preset-name {
+      width: 24vmin;
+      padding-left: 0.6vmin;
+    }
+    .preset-manager .preset-info {
+      width: 12vmin;
+      color: #aaa;
+    }
+    .track-editor input[type='text'] {
+      width: 14vmin;
+    }
+    .track-editor input.descriptor {
+      width: 24vmin;
+    }
     .sequencer-grid {
       display: grid;
-      grid-template-columns: 2vmin 10vmin repeat(16, 1fr);
       gap: 0.5vmin;
       overflow-x: auto;
       flex-grow: 1;
@@ -802,6 +1495,15 @@ class BeatSequencer extends LitElement {
     .step:hover {
       background-color: #555;
     }
+    .step.beat {
+      border-left-color: #777;
+    }
+    .step.bar {
+      border-left-color: #bbb;
+    }
+    .step.chance {
+      border-style: dashed;
+    }
     .step.active-1 {
       /* Soft */
       background-color: #ff004466;
@@ -840,7 +1542,43 @@ class BeatSequencer extends LitElement {
         opacity: 0.7;
       }
     }
-    .panning-indicator {
+    .midi-file,
+    .preset-file {
+      display: none;
+    }
+    .dialog-overlay {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background-color: #000a;
+      z-index: 2;
+    }
+    .dialog-panel {
+      display: flex;
+      flex-direction: column;
+      gap: 1.5vmin;
+      max-width: 80%;
+      max-height: 80%;
+      padding: 3vmin;
+      background-color: #1a1a1a;
+      border: 1px solid #444;
+      border-radius: 5px;
+      overflow-y: auto;
+    }
+    .dialog-panel h2 {
+      margin: 0;
+      font-size: 2.4vmin;
+    }
+    .dialog-panel p {
+      margin: 0;
+      color: #aaa;
+    }
+    .dialog-panel .sequencer-controls label {
+      flex-grow: 1;
+    }
+    .step-indicator {
       color: rgba(255, 255, 255, 0.8);
       font-size: 1.4vmin;
       font-weight: bold;
@@ -849,111 +1587,72 @@ class BeatSequencer extends LitElement {
       display: none; /* Hidden by default */
       line-height: 1;
     }
-    .step.active-1 .panning-indicator,
-    .step.active-2 .panning-indicator,
-    .step.active-3 .panning-indicator {
+    .step.active-1 .step-indicator,
+    .step.active-2 .step-indicator,
+    .step.active-3 .step-indicator {
       display: block; /* Show on active steps */
     }
   `;
 
-  @property({type: Array}) grid: number[][] = [];
-  @property({type: Array}) panningGrid: number[][] = [];
+  @property({type: Object}) bank: SequencerBank = emptyBank();
   @property({type: Number}) weight = 0;
+  /** The pattern the deck plays, which may not be the one edited. */
+  @property({type: Number}) playingPattern = 0;
+  /** The chain step playing, or -1 outside song mode. */
+  @property({type: Number}) playingEntry = -1;
   @property({type: String}) playbackState: PlaybackState = 'stopped';
+  /** The clock the playhead follows. */
+  @property({attribute: false}) clock?: StepClock;
+  /** Whether a local drum machine can play the pattern. */
+  @property({type: Boolean}) drumEngine = false;
+  @property({type: Boolean}) localDrums = false;
+  @property({type: Number}) drumLevel = 0.8;
+  /** The tempo MIDI files are written at. */
   @property({type: Number}) bpm = 120;
+  /** Presets the user saved, kept apart from `SEQUENCER_PRESETS`. */
+  @property({attribute: false}) userPresets: UserPreset[] = [];
   @state() private currentStep = -1;
   @state() private trackVisualizerLevels: number[] = [];
+  /** What shows below the controls. */
+  @state() private panel: 'grid' | 'tracks' | 'presets' = 'grid';
+  @state() private clipboard?: SequencerPattern;
+  @state() private stepMode: StepMode = 'velocity';
+  /** The density GENERATE aims for, 0-1. */
+  @state() private density = DEFAULT_DENSITY;
+  /** A MIDI clip waiting for its unknown notes to be placed on tracks. */
+  @state() private midiImport?: MidiImport;
+  /** Why the last file could not be imported. */
+  @state() private importError?: {title: string; message: string};
+  /** The name SAVE gives the next user preset. */
+  @state() private presetName = '';
+  @state() private presetSearch = '';
+
+  @query('.midi-file') private midiFileInput!: HTMLInputElement;
+  @query('.preset-file') private presetFileInput!: HTMLInputElement;
+
+  private animationFrame?: number;
+
+  /** The pattern being edited. */
+  private get pattern(): SequencerPattern {
+    return this.bank.patterns[this.bank.selected];
+  }
 
-  private instruments = [
-    'Kick',
-    'Snare',
-    'Clap',
-    'Closed Hat',
-    'Open Hat',
-    'Tom',
-    'Percussion',
-  ];
-  private numSteps = 16;
-  private stepInterval?: number;
-
-  private presets: Record<string, number[][]> = {
-    'Brutalism': [
-      [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0], // Kick
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2], // Snare
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Clap
-      [2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2], // Closed Hat
-      [0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2], // Open Hat
-      [2, 0, 0, 2, 0, 0, 2, 0, 0, 2, 0, 0, 2, 0, 0, 0], // Tom
-      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 2, 0, 0], // Percussion
-    ],
-    'House': [
-      [2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0], // Kick
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
-      [0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0], // Closed Hat
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0], // Open Hat
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Tom
-      [0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0], // Percussion
-    ],
-    'Gabber': [
-      [2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 0], // Kick
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
-      [0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2], // Clap
-      [2, 0, 2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 0, 2, 2], // Closed Hat
-      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0], // Open Hat
-      [0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0], // Tom
-      [0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0], // Percussion
-    ],
-    'Deep Drums': [
-      [2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0], // Kick
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Snare
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Clap
-      [0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0], // Closed Hat
-      [0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2], // Open Hat
-      [0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 2, 0, 0, 0, 0], // Tom
-      [0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0], // Percussion
-    ],
-    '808': [
-      [2, 0, 0, 2, 0, 0, 2, 0, 2, 0, 0, 0, 0, 2, 0, 0], // Kick
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
-      [2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 2, 2, 2, 2, 0], // Closed Hat
-      [0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0], // Open Hat
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Tom
-      [0, 0, 2, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2, 0, 0, 0], // Percussion
-    ],
-    '505': [
-      [2, 0, 0, 0, 2, 0, 2, 0, 2, 0, 0, 0, 2, 0, 2, 0], // Kick
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2], // Snare
-      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Clap
-      [2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2], // Closed Hat
-      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0], // Open Hat
-      [0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 2, 0, 0], // Tom
-      [0, 0, 0, 0, 0, 2, 0, 2, 0, 0, 0, 0, 0, 2, 0, 2], // Percussion
-    ],
-    'Clear': [
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Percussion
-    ],
-  };
+  private get grid(): number[][] {
+    return this.pattern.grid;
+  }
 
-  constructor() {
-    super();
-    this.trackVisualizerLevels = this.instruments.map(() => 0);
-    this.panningGrid = this.instruments.map(() =>
-      Array(this.numSteps).fill(0),
-    );
+  private get panningGrid(): number[][] {
+    return this.pattern.panningGrid;
+  }
+
+  private get timing(): SequencerTiming {
+    return this.pattern.timing;
   }
 
   override updated(changedProperties: Map<string, unknown>) {
     if (
       changedProperties.has('playbackState') ||
-      changedProperties.has('bpm')
+      changedProperties.has('clock')
     ) {
       this.updatePlaybackIndicator();
     }
@@ -961,31 +1660,43 @@ class BeatSequencer extends LitElement {
 
   disconnectedCallback() {
     super.disconnectedCallback();
-    if (this.stepInterval) {
-      window.clearInterval(this.stepInterval);
+    if (this.animationFrame !== undefined) {
+      window.cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = undefined;
     }
   }
 
+  /**
+   * Follows the clock once per frame while the deck plays; the step shown
+   * is the one sounding, so the playhead stays with the audio.
+   */
   private updatePlaybackIndicator() {
-    if (this.stepInterval) {
-      window.clearInterval(this.stepInterval);
-      this.stepInterval = undefined;
-    }
-
-    if (this.playbackState === 'playing' && this.bpm > 0) {
-      const stepDuration = (60 / this.bpm) * (1000 / 4); // 16th notes
-      this.stepInterval = window.setInterval(() => {
-        this.currentStep = (this.currentStep + 1) % this.numSteps;
-        this.trackVisualizerLevels = this.instruments.map((_, trackIndex) => {
-          const stepVelocity = this.grid[trackIndex]?.[this.currentStep] ?? 0;
-          // Normalize velocity to 0-1 for visualizer scale
-          return stepVelocity > 0 ? stepVelocity / 3.0 : 0;
-        });
-      }, stepDuration);
-    } else {
+    const running =
+      this.clock &&
+      (this.playbackState === 'playing' || this.playbackState === 'loading');
+    if (!running) {
+      if (this.animationFrame !== undefined) {
+        window.cancelAnimationFrame(this.animationFrame);
+        this.animationFrame = undefined;
+      }
       this.currentStep = -1;
-      this.trackVisualizerLevels = this.instruments.map(() => 0);
+      this.trackVisualizerLevels = [];
+      return;
     }
+    if (this.animationFrame !== undefined) return;
+    const frame = () => {
+      this.animationFrame = window.requestAnimationFrame(frame);
+      const step = this.clock!.currentStep;
+      if (step === this.currentStep) return;
+      this.currentStep = step;
+      const {grid} = this.bank.patterns[this.playingPattern];
+      this.trackVisualizerLevels = grid.map((row) => {
+        const stepVelocity = row[step] ?? 0;
+        // Normalize velocity to 0-1 for visualizer scale
+        return stepVelocity > 0 ? stepVelocity / 3.0 : 0;
+      });
+    };
+    frame();
   }
 
   private handleStepClick(
@@ -1001,8 +1712,15 @@ class BeatSequencer extends LitElement {
       else if (currentPan === -1) newPan = 1;
       else if (currentPan === 1) newPan = 0;
 
-      this.panningGrid[trackIndex][stepIndex] = newPan;
-      this.requestUpdate('panningGrid');
+      const panningGrid = this.panningGrid.map((row) => [...row]);
+      panningGrid[trackIndex][stepIndex] = newPan;
+      this.setPattern({panningGrid});
+    } else if (this.stepMode !== 'velocity') {
+      const {grid: key, values} = STEP_MODES[this.stepMode];
+      const grid = this.pattern[key].map((row) => [...row]);
+      const index = values.indexOf(grid[trackIndex][stepIndex]);
+      grid[trackIndex][stepIndex] = values[(index + 1) % values.length];
+      this.setPattern({[key]: grid});
     } else {
       const currentVelocity = this.grid[trackIndex][stepIndex];
       // Cycle: 0 (off) -> 2 (medium) -> 3 (loud) -> 1 (soft) -> 0
@@ -1021,66 +1739,806 @@ class BeatSequencer extends LitElement {
           newVelocity = 1; // to soft
           break;
       }
-      this.grid[trackIndex][stepIndex] = newVelocity;
-      this.requestUpdate('grid');
+      const grid = this.grid.map((row) => [...row]);
+      grid[trackIndex][stepIndex] = newVelocity;
+      this.setPattern({grid});
     }
-    this.dispatchChange();
+  }
+
+  private setBank(changes: Partial<SequencerBank>, mergeKey?: string) {
+    this.bank = {...this.bank, ...changes};
+    this.dispatchChange(mergeKey);
+  }
+
+  /** Applies `changes` to the pattern being edited. */
+  private setPattern(changes: Partial<SequencerPattern>, mergeKey?: string) {
+    const patterns = [...this.bank.patterns];
+    patterns[this.bank.selected] = {...this.pattern, ...changes};
+    this.setBank({patterns}, mergeKey);
   }
 
   private handlePresetChange(e: Event) {
-    const presetName = (e.target as HTMLSelectElement).value;
-    if (this.presets[presetName]) {
-      this.grid = this.presets[presetName].map((row) => [...row]); // deep copy
-      this.panningGrid = this.instruments.map(() =>
-        Array(this.numSteps).fill(0),
-      );
-      this.dispatchChange();
-    }
+    const {value} = e.target as HTMLSelectElement;
+    const key = value.slice(value.indexOf(':') + 1);
+    const preset = value.startsWith('user:')
+      ? this.userPresets[Number(key)]
+      : SEQUENCER_PRESETS[key];
+    if (preset) this.loadPreset(preset);
   }
 
-  private handleRandomize() {
-    this.grid = this.grid.map((track) =>
-      track.map(() => {
-        const rand = Math.random();
-        if (rand < 0.15) return 3; // Loud
-        if (rand < 0.3) return 2; // Medium
-        if (rand < 0.4) return 1; // Soft
-        return 0; // Off
-      }),
+  /** Plays `preset` in the pattern being edited, with its weight if saved. */
+  private loadPreset(preset: SequencerPreset | UserPreset) {
+    if ('weight' in preset) this.weight = preset.weight;
+    this.setPattern(presetPattern(preset, this.bank.tracks, this.timing));
+  }
+
+  private setUserPresets(presets: UserPreset[]) {
+    this.dispatchEvent(
+      new CustomEvent<UserPreset[]>('user-presets-changed', {detail: presets}),
+    );
+  }
+
+  private handleSavePreset() {
+    const name = uniquePresetName(
+      this.presetName.trim() || `Pattern ${PATTERN_NAMES[this.bank.selected]}`,
+      this.userPresets,
     );
-    this.panningGrid = this.instruments.map(() =>
-      Array(this.numSteps).fill(0),
+    this.presetName = '';
+    this.setUserPresets([
+      ...this.userPresets,
+      capturePreset(name, this.pattern, this.bank.tracks, this.weight),
+    ]);
+  }
+
+  /** Saves a copy of `preset` as a user preset named after `name`. */
+  private duplicatePreset(name: string, preset: SequencerPreset | UserPreset) {
+    const tracks = preset.tracks ?? DEFAULT_TRACKS;
+    this.setUserPresets([
+      ...this.userPresets,
+      capturePreset(
+        uniquePresetName(`${name} copy`, this.userPresets),
+        presetPattern(preset, tracks, this.timing),
+        tracks,
+        'weight' in preset ? preset.weight : this.weight,
+      ),
+    ]);
+  }
+
+  /** Renames user preset `index`, unless the name was left empty. */
+  private handlePresetRename(index: number, e: Event) {
+    const input = e.target as HTMLInputElement;
+    const preset = this.userPresets[index];
+    const text = input.value.trim();
+    if (!text || text === preset.name) {
+      input.value = preset.name;
+      return;
+    }
+    const others = this.userPresets.filter((_, i) => i !== index);
+    const presets = [...this.userPresets];
+    presets[index] = {...preset, name: uniquePresetName(text, others)};
+    input.value = presets[index].name;
+    this.setUserPresets(presets);
+  }
+
+  private handleExportPresets() {
+    const blob = new Blob([serializePresets(this.userPresets)], {
+      type: 'application/json',
+    });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(blob, `promptdj-presets-${stamp}.json`);
+  }
+
+  /** Adds the presets of a file, renaming any whose names are taken. */
+  private async handleImportPresets(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so picking the same file again still fires a change event.
+    input.value = '';
+    if (!file) return;
+    let imported: UserPreset[];
+    try {
+      imported = parsePresets(await file.text());
+    } catch (err) {
+      this.importError = {
+        title: 'Could not import presets',
+        message:
+          err instanceof ProjectValidationError
+            ? err.message
+            : 'The file could not be read.',
+      };
+      return;
+    }
+    const presets = [...this.userPresets];
+    for (const preset of imported) {
+      presets.push({...preset, name: uniquePresetName(preset.name, presets)});
+    }
+    this.setUserPresets(presets);
+  }
+
+  private togglePanel(panel: 'tracks' | 'presets') {
+    this.panel = this.panel === panel ? 'grid' : panel;
+  }
+
+  private setTiming(timing: SequencerTiming, mergeKey?: string) {
+    this.setPattern(retimePattern(this.pattern, timing), mergeKey);
+  }
+
+  private handleLengthChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const steps = Math.round(Number(input.value));
+    if (!Number.isFinite(steps)) {
+      input.value = String(this.timing.steps);
+      return;
+    }
+    const clamped = Math.min(MAX_STEPS, Math.max(MIN_STEPS, steps));
+    input.value = String(clamped);
+    this.setTiming({...this.timing, steps: clamped});
+  }
+
+  private handleGenerate() {
+    this.setPattern(
+      generatePattern(this.timing, this.bank.tracks, this.density),
     );
-    this.dispatchChange();
   }
 
   private handleWeightChange(e: Event) {
     this.weight = Number((e.target as HTMLInputElement).value);
-    this.dispatchChange();
+    this.dispatchChange('weight');
+  }
+
+  private handleExportMidi() {
+    const smf = encodeSmf(this.pattern, this.bank.tracks, this.bpm);
+    const blob = new Blob([smf], {type: 'audio/midi'});
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const name = PATTERN_NAMES[this.bank.selected];
+    downloadBlob(blob, `promptdj-beat-${name}-${stamp}.mid`);
+  }
+
+  /**
+   * Reads a drum clip into the pattern being edited, first asking which
+   * track any notes without a known track go on.
+   */
+  private async handleImportMidi(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so picking the same file again still fires a change event.
+    input.value = '';
+    if (!file) return;
+    let clip: SmfClip;
+    try {
+      clip = parseSmf(new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      this.importError = {
+        title: 'Could not import MIDI',
+        message:
+          err instanceof SmfError ? err.message : 'The file could not be read.',
+      };
+      return;
+    }
+    const notes = [...new Set(clip.notes.map(({note}) => note))];
+    const mapping = mapNotes(notes, this.bank.tracks);
+    const unknown = notes.filter((note) => !mapping.has(note));
+    if (unknown.length === 0) {
+      this.applyMidi(clip, mapping);
+      return;
+    }
+    unknown.forEach((note) => mapping.set(note, -1));
+    this.midiImport = {clip, name: file.name, mapping, unknown};
+  }
+
+  private applyMidi(clip: SmfClip, mapping: Map<number, number>) {
+    this.midiImport = undefined;
+    this.setPattern(quantizeClip(clip, this.bank.tracks, this.timing, mapping));
+  }
+
+  private renderDrumControl() {
+    return html`<div class="drum-control">
+      <button
+        class=${classMap({active: this.localDrums})}
+        title="Play the pattern on local drum sounds, on top of the stream"
+        @click=${() =>
+          this.dispatchEvent(
+            new CustomEvent<boolean>('local-drums', {detail: !this.localDrums}),
+          )}>
+        DRUMS
+      </button>
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.01"
+        title="Drum level"
+        .value=${this.drumLevel.toString()}
+        @input=${(e: Event) =>
+          this.dispatchEvent(
+            new CustomEvent<number>('drum-level', {
+              detail: Number((e.target as HTMLInputElement).value),
+            }),
+          )} />
+    </div>`;
+  }
+
+  private renderTimingControls() {
+    const {steps, meter, triplets, swing} = this.timing;
+    return html`<div class="sequencer-controls">
+      <label for="pattern-length">LENGTH:</label>
+      <input
+        type="number"
+        id="pattern-length"
+        min=${MIN_STEPS}
+        max=${MAX_STEPS}
+        .value=${String(steps)}
+        @change=${this.handleLengthChange} />
+      <label for="pattern-meter">METER:</label>
+      <select
+        id="pattern-meter"
+        @change=${(e: Event) =>
+          this.setTiming(
+            changeMeter(
+              this.timing,
+              (e.target as HTMLSelectElement).value as Meter,
+              triplets,
+            ),
+          )}>
+        ${Object.keys(METERS).map(
+          (name) =>
+            html`<option value=${name} ?selected=${name === meter}>
+              ${name}
+            </option>`,
+        )}
+      </select>
+      <button
+        class=${classMap({active: triplets})}
+        ?disabled=${!canUseTriplets(meter)}
+        title="Three steps per beat"
+        @click=${() =>
+          this.setTiming(changeMeter(this.timing, meter, !triplets))}>
+        TRIPLETS
+      </button>
+      <div class="swing-control">
+        <label for="pattern-swing">SWING:</label>
+        <input
+          type="range"
+          id="pattern-swing"
+          min="0"
+          max="1"
+          step="0.01"
+          ?disabled=${triplets}
+          .value=${String(swing)}
+          @input=${(e: Event) =>
+            this.setTiming(
+              {
+                ...this.timing,
+                swing: Number((e.target as HTMLInputElement).value),
+              },
+              'swing',
+            )} />
+        <span>${Math.round(swing * 100)}%</span>
+      </div>
+    </div>`;
+  }
+
+  private renderGenerateControls() {
+    return html`<div class="sequencer-controls">
+      <button
+        title="A new pattern of Euclidean rhythms at the density"
+        @click=${this.handleGenerate}>
+        GENERATE
+      </button>
+      <div class="swing-control">
+        <label for="generate-density">DENSITY:</label>
+        <input
+          type="range"
+          id="generate-density"
+          min="0"
+          max="1"
+          step="0.01"
+          .value=${String(this.density)}
+          @input=${(e: Event) =>
+            (this.density = Number((e.target as HTMLInputElement).value))} />
+        <span>${Math.round(this.density * 100)}%</span>
+      </div>
+      <button
+        title="Change a few steps of the pattern"
+        @click=${() =>
+          this.setPattern(mutatePattern(this.pattern, MUTATE_AMOUNT))}>
+        MUTATE ${MUTATE_AMOUNT * 100}%
+      </button>
+      <div class="swing-control">
+        <label for="humanize">HUMANIZE:</label>
+        <input
+          type="range"
+          id="humanize"
+          min="0"
+          max="1"
+          step="0.01"
+          title="Random drift in the drums' timing and level"
+          .value=${String(this.bank.humanize)}
+          @input=${(e: Event) =>
+            this.setBank(
+              {humanize: Number((e.target as HTMLInputElement).value)},
+              'humanize',
+            )} />
+        <span>${Math.round(this.bank.humanize * 100)}%</span>
+      </div>
+      <label for="step-mode">STEP:</label>
+      <select
+        id="step-mode"
+        @change=${(e: Event) =>
+          (this.stepMode = (e.target as HTMLSelectElement).value as StepMode)}>
+        ${(['velocity', 'chance', 'ratchet', 'nudge'] as const).map(
+          (mode) =>
+            html`<option value=${mode} ?selected=${mode === this.stepMode}>
+              ${mode.toUpperCase()}
+            </option>`,
+        )}
+      </select>
+    </div>`;
+  }
+
+  /** What a step shows in the current mode: its pan, chance, hits or nudge. */
+  private stepIndicator(track: number, step: number): string {
+    switch (this.stepMode) {
+      case 'velocity': {
+        const pan = this.panningGrid[track]?.[step];
+        return pan === -1 ? '◀' : pan === 1 ? '▶' : '';
+      }
+      case 'chance': {
+        const chance = this.pattern.probabilityGrid[track]?.[step] ?? 100;
+        return chance < 100 ? `${chance}` : '';
+      }
+      case 'ratchet': {
+        const hits = this.pattern.ratchetGrid[track]?.[step] ?? 1;
+        return hits > 1 ? `×${hits}` : '';
+      }
+      case 'nudge': {
+        const nudge = this.pattern.nudgeGrid[track]?.[step] ?? 0;
+        return nudge > 0 ? `+${nudge}` : nudge < 0 ? `${nudge}` : '';
+      }
+      default:
+        return '';
+    }
+  }
+
+  private renderPatternBank() {
+    const {selected} = this.bank;
+    return html`<div class="sequencer-controls">
+      <label>PATTERN:</label>
+      <div class="patterns">
+        ${PATTERN_NAMES.map(
+          (name, i) => html`<button
+            class=${classMap({
+              active: i === selected,
+              playing: i === this.playingPattern,
+            })}
+            title=${i === this.playingPattern ? 'Playing' : ''}
+            @click=${() => this.setBank({selected: i})}>
+            ${name}
+          </button>`,
+        )}
+      </div>
+      <button @click=${() => (this.clipboard = copyPattern(this.pattern))}>
+        COPY
+      </button>
+      <button
+        ?disabled=${!this.clipboard}
+        @click=${() => this.setPattern(copyPattern(this.clipboard!))}>
+        PASTE
+      </button>
+      <button
+        @click=${() =>
+          this.setPattern(emptyPattern(this.timing, this.bank.tracks.length))}>
+        CLEAR
+      </button>
+      <button
+        title="Save the pattern as a General MIDI drum file"
+        @click=${this.handleExportMidi}>
+        EXPORT MIDI
+      </button>
+      <button
+        title="Quantize a MIDI drum clip onto the pattern"
+        @click=${() => this.midiFileInput.click()}>
+        IMPORT MIDI
+      </button>
+      <input
+        type="file"
+        class="midi-file"
+        accept=".mid,.midi,audio/midi"
+        @change=${this.handleImportMidi} />
+    </div>`;
+  }
+
+  private renderDialog() {
+    if (this.importError) {
+      return html`<div class="dialog-overlay">
+        <div class="dialog-panel">
+          <h2>${this.importError.title}</h2>
+          <p>${this.importError.message}</p>
+          <div class="sequencer-controls">
+            <button @click=${() => (this.importError = undefined)}>OK</button>
+          </div>
+        </div>
+      </div>`;
+    }
+    if (!this.midiImport) return '';
+    const {clip, name, mapping, unknown} = this.midiImport;
+    return html`<div class="dialog-overlay">
+      <div class="dialog-panel">
+        <h2>Import ${name}</h2>
+        <p>Choose a track for each note without one.</p>
+        ${unknown.map(
+          (note) => html`<div class="sequencer-controls">
+            <label>${describeNote(note)}</label>
+            <select
+              @change=${(e: Event) =>
+                mapping.set(
+                  note,
+                  Number((e.target as HTMLSelectElement).value),
+                )}>
+              <option value="-1" ?selected=${mapping.get(note) === -1}>
+                Ignore
+              </option>
+              ${this.bank.tracks.map(
+                (track, i) =>
+                  html`<option value=${i} ?selected=${mapping.get(note) === i}>
+                    ${track.name}
+                  </option>`,
+              )}
+            </select>
+          </div>`,
+        )}
+        <div class="sequencer-controls">
+          <button @click=${() => this.applyMidi(clip, mapping)}>IMPORT</button>
+          <button @click=${() => (this.midiImport = undefined)}>CANCEL</button>
+        </div>
+      </div>
+    </div>`;
+  }
+
+  private setChainStep(index: number, changes: Partial<ChainStep>) {
+    const chain = [...this.bank.chain];
+    chain[index] = {...chain[index], ...changes};
+    this.setBank({chain});
+  }
+
+  private renderChainStep(step: ChainStep, index: number) {
+    return html`<div
+      class=${classMap({
+        'chain-step': true,
+        'playing': index === this.playingEntry,
+      })}>
+      <select
+        title="Pattern"
+        @change=${(e: Event) =>
+          this.setChainStep(index, {
+            pattern: Number((e.target as HTMLSelectElement).value),
+          })}>
+        ${PATTERN_NAMES.map(
+          (name, i) =>
+            html`<option value=${i} ?selected=${i === step.pattern}>
+              ${name}
+            </option>`,
+        )}
+      </select>
+      <span>×</span>
+      <input
+        type="number"
+        title="Repeats"
+        min="1"
+        max=${MAX_REPEATS}
+        .value=${String(step.repeats)}
+        @change=${(e: Event) => {
+          const input = e.target as HTMLInputElement;
+          const repeats = Math.round(Number(input.value));
+          const clamped = Number.isFinite(repeats)
+            ? Math.min(MAX_REPEATS, Math.max(1, repeats))
+            : step.repeats;
+          input.value = String(clamped);
+          this.setChainStep(index, {repeats: clamped});
+        }} />
+      <button
+        title="Remove"
+        @click=${() =>
+          this.setBank({
+            chain: this.bank.chain.filter((_, i) => i !== index),
+          })}>
+        ✕
+      </button>
+    </div>`;
+  }
+
+  private renderSong() {
+    const {chain, songMode, selected} = this.bank;
+    return html`<div class="sequencer-controls song">
+      <button
+        class=${classMap({active: songMode})}
+        title="Play the chain instead of the selected pattern"
+        @click=${() => this.setBank({songMode: !songMode})}>
+        SONG
+      </button>
+      ${chain.map((step, i) => this.renderChainStep(step, i))}
+      <button
+        ?disabled=${chain.length >= MAX_CHAIN_LENGTH}
+        title="Add the selected pattern to the chain"
+        @click=${() =>
+          this.setBank({chain: [...chain, {pattern: selected, repeats: 1}]})}>
+        + ${PATTERN_NAMES[selected]}
+      </button>
+    </div>`;
   }
 
-  private dispatchChange() {
+  private dispatchChange(mergeKey?: string) {
     this.dispatchEvent(
-      new CustomEvent('sequencer-changed', {
-        detail: {
-          grid: this.grid,
-          panningGrid: this.panningGrid,
-          weight: this.weight,
-        },
+      new CustomEvent<SequencerChange>('sequencer-changed', {
+        detail: {bank: this.bank, weight: this.weight, mergeKey},
       }),
     );
   }
 
+  /** Applies a change to the tracks; a copied pattern no longer fits. */
+  private editTracks(bank: SequencerBank) {
+    this.clipboard = undefined;
+    this.setBank(bank);
+  }
+
+  private setTrack(index: number, changes: Partial<SequencerTrack>) {
+    const tracks = [...this.bank.tracks];
+    tracks[index] = {...tracks[index], ...changes};
+    this.setBank({tracks});
+  }
+
+  /** Sets a text field of a track, unless it was left empty. */
+  private handleTrackText(index: number, key: 'name' | 'descriptor', e: Event) {
+    const input = e.target as HTMLInputElement;
+    const text = input.value.trim();
+    if (!text) {
+      input.value = this.bank.tracks[index][key];
+      return;
+    }
+    this.setTrack(index, {[key]: text});
+  }
+
+  private renderTrackEditor() {
+    const {tracks} = this.bank;
+    return html`<div class="track-editor">
+      ${tracks.map(
+        (track, i) => html`<div class="sequencer-controls">
+          <input
+            type="text"
+            title="Name"
+            maxlength="20"
+            .value=${track.name}
+            @change=${(e: Event) => this.handleTrackText(i, 'name', e)} />
+          <input
+            type="text"
+            class="descriptor"
+            title="What the model is told the track is"
+            list="track-descriptors"
+            .value=${track.descriptor}
+            @change=${(e: Event) => this.handleTrackText(i, 'descriptor', e)} />
+          <select
+            title="Sound on the local drums"
+            @change=${(e: Event) =>
+              this.setTrack(i, {
+                voice: (e.target as HTMLSelectElement).value as DrumVoice,
+              })}>
+            ${DEFAULT_TRACKS.map(
+              ({name, voice}) =>
+                html`<option value=${voice} ?selected=${voice === track.voice}>
+                  ${name}
+                </option>`,
+            )}
+          </select>
+          <button
+            title="Move up"
+            ?disabled=${i === 0}
+            @click=${() => this.editTracks(moveTrack(this.bank, i, i - 1))}>
+            ▲
+          </button>
+          <button
+            title="Move down"
+            ?disabled=${i === tracks.length - 1}
+            @click=${() => this.editTracks(moveTrack(this.bank, i, i + 1))}>
+            ▼
+          </button>
+          <button
+            title="Remove"
+            ?disabled=${tracks.length === 1}
+            @click=${() => this.editTracks(removeTrack(this.bank, i))}>
+            ✕
+          </button>
+        </div>`,
+      )}
+      <div class="sequencer-controls">
+        <button
+          ?disabled=${tracks.length >= MAX_TRACKS}
+          @click=${() =>
+            this.editTracks(
+              addTrack(this.bank, {
+                name: `Track ${tracks.length + 1}`,
+                descriptor: 'percussion',
+                voice: 'perc',
+              }),
+            )}>
+          + TRACK
+        </button>
+      </div>
+      <datalist id="track-descriptors">
+        ${TRACK_DESCRIPTORS.map((d) => html`<option value=${d}></option>`)}
+      </datalist>
+    </div>`;
+  }
+
+  private renderPresetManager() {
+    const search = this.presetSearch.trim().toLowerCase();
+    const matches = (name: string) => name.toLowerCase().includes(search);
+    return html`<div class="preset-manager">
+      <div class="sequencer-controls">
+        <input
+          type="text"
+          placeholder=${`Pattern ${PATTERN_NAMES[this.bank.selected]}`}
+          title="Name of the new preset"
+          maxlength="40"
+          .value=${this.presetName}
+          @input=${(e: Event) =>
+            (this.presetName = (e.target as HTMLInputElement).value)} />
+        <button
+          title="Save the pattern, its panning and the weight as a preset"
+          @click=${this.handleSavePreset}>
+          SAVE
+        </button>
+        <input
+          type="text"
+          class="search"
+          placeholder="Search"
+          .value=${this.presetSearch}
+          @input=${(e: Event) =>
+            (this.presetSearch = (e.target as HTMLInputElement).value)} />
+        <button
+          ?disabled=${this.userPresets.length === 0}
+          title="Save your presets to a file"
+          @click=${this.handleExportPresets}>
+          EXPORT
+        </button>
+        <button
+          title="Add presets from a file"
+          @click=${() => this.presetFileInput.click()}>
+          IMPORT
+        </button>
+        <input
+          type="file"
+          class="preset-file"
+          accept=".json,application/json"
+          @change=${this.handleImportPresets} />
+      </div>
+      ${this.userPresets.map((preset, i) =>
+        matches(preset.name)
+          ? html`<div class="sequencer-controls">
+              <input
+                type="text"
+                title="Rename"
+                maxlength="40"
+                .value=${preset.name}
+                @change=${(e: Event) => this.handlePresetRename(i, e)} />
+              <span class="preset-info">
+                Weight ${preset.weight.toFixed(2)}
+              </span>
+              <button @click=${() => this.loadPreset(preset)}>LOAD</button>
+              <button @click=${() => this.duplicatePreset(preset.name, preset)}>
+                DUPLICATE
+              </button>
+              <button
+                title="Delete"
+                @click=${() =>
+                  this.setUserPresets(
+                    this.userPresets.filter((_, j) => j !== i),
+                  )}>
+                ✕
+              </button>
+            </div>`
+          : '',
+      )}
+      ${Object.entries(SEQUENCER_PRESETS).map(([name, preset]) =>
+        matches(name)
+          ? html`<div class="sequencer-controls">
+              <span class="preset-name">${name}</span>
+              <span class="preset-info">Factory</span>
+              <button @click=${() => this.loadPreset(preset)}>LOAD</button>
+              <button @click=${() => this.duplicatePreset(name, preset)}>
+                DUPLICATE
+              </button>
+            </div>`
+          : '',
+      )}
+    </div>`;
+  }
+
+  private renderGrid() {
+    const barSteps = stepsPerBar(this.timing);
+    const beatSteps = barSteps / METERS[this.timing.meter].beats;
+    const showPlayhead = this.bank.selected === this.playingPattern;
+    const stepTitle = `${
+      this.stepMode === 'velocity'
+        ? 'Click to set velocity.'
+        : STEP_MODES[this.stepMode].title
+    } Alt+Click to set panning.`;
+    return html`<div
+      class="sequencer-grid"
+      style=${styleMap({
+        gridTemplateColumns: `2vmin 10vmin repeat(${this.timing.steps}, minmax(2vmin, 1fr))`,
+      })}>
+      ${this.bank.tracks.map(
+        (track, trackIndex) => html`
+          <div class="visualizer">
+            <div
+              class="visualizer-bar"
+              style=${styleMap({
+                transform: `scaleY(${
+                  this.trackVisualizerLevels[trackIndex] ?? 0
+                })`,
+              })}></div>
+          </div>
+          <div class="instrument-label" title=${track.descriptor}>
+            ${track.name}
+          </div>
+          ${this.grid[trackIndex]?.map(
+            (velocity, stepIndex) => html`
+              <div
+                class=${classMap({
+                  step: true,
+                  ['active-' + velocity]: velocity > 0,
+                  playing: showPlayhead && this.currentStep === stepIndex,
+                  beat: stepIndex % beatSteps === 0,
+                  bar: stepIndex % barSteps === 0,
+                  chance:
+                    (this.pattern.probabilityGrid[trackIndex]?.[stepIndex] ??
+                      100) < 100,
+                })}
+                title=${stepTitle}
+                @click=${(e: MouseEvent) =>
+                  this.handleStepClick(trackIndex, stepIndex, e)}>
+                <div class="step-indicator">
+                  ${this.stepIndicator(trackIndex, stepIndex)}
+                </div>
+              </div>
+            `,
+          )}
+        `,
+      )}
+    </div>`;
+  }
+
   override render() {
     return html`
       <div class="sequencer-controls">
         <label for="preset-select">PRESET:</label>
         <select id="preset-select" @change=${this.handlePresetChange}>
-          ${Object.keys(this.presets).map(
-            (name) => html`<option value=${name}>${name}</option>`,
-          )}
+          <optgroup label="Factory">
+            ${Object.keys(SEQUENCER_PRESETS).map(
+              (name) => html`<option value="factory:${name}">${name}</option>`,
+            )}
+          </optgroup>
+          ${this.userPresets.length > 0
+            ? html`<optgroup label="User">
+                ${this.userPresets.map(
+                  (preset, i) =>
+                    html`<option value="user:${i}">${preset.name}</option>`,
+                )}
+              </optgroup>`
+            : ''}
         </select>
-        <button @click=${this.handleRandomize}>RANDOMIZE</button>
+        <button
+          class=${classMap({active: this.panel === 'presets'})}
+          title="Save, rename, import and export your own presets"
+          @click=${() => this.togglePanel('presets')}>
+          PRESETS
+        </button>
+        <button
+          class=${classMap({active: this.panel === 'tracks'})}
+          title="Add, remove, rename and reorder the instrument tracks"
+          @click=${() => this.togglePanel('tracks')}>
+          TRACKS
+        </button>
         <div class="weight-control">
           <label for="beat-weight">WEIGHT:</label>
           <input
@@ -1093,1162 +2551,3995 @@ class BeatSequencer extends LitElement {
             @input=${this.handleWeightChange} />
           <span>${this.weight.toFixed(2)}</span>
         </div>
+        ${this.drumEngine ? this.renderDrumControl() : ''}
       </div>
-      <div class="sequencer-grid">
-        ${this.instruments.map(
-          (instrument, trackIndex) => html`
-            <div class="visualizer">
-              <div
-                class="visualizer-bar"
-                style=${styleMap({
-                  transform: `scaleY(${
-                    this.trackVisualizerLevels[trackIndex] ?? 0
-                  })`,
-                })}></div>
-            </div>
-            <div class="instrument-label">${instrument}</div>
-            ${this.grid[trackIndex]?.map(
-              (velocity, stepIndex) => html`
-                <div
-                  class=${classMap({
-                    step: true,
-                    ['active-' + velocity]: velocity > 0,
-                    playing: this.currentStep === stepIndex,
-                  })}
-                  title="Click to set velocity. Alt+Click to set panning."
-                  @click=${(e: MouseEvent) =>
-                    this.handleStepClick(trackIndex, stepIndex, e)}>
-                  <div class="panning-indicator">
-                    ${this.panningGrid[trackIndex]?.[stepIndex] === -1
-                      ? '◀'
-                      : this.panningGrid[trackIndex]?.[stepIndex] === 1
-                      ? '▶'
-                      : ''}
-                  </div>
-                </div>
-              `,
-            )}
-          `,
-        )}
-      </div>
+      ${this.renderPatternBank()} ${this.renderTimingControls()}
+      ${this.renderGenerateControls()} ${this.renderSong()}
+      ${this.panel === 'tracks'
+        ? this.renderTrackEditor()
+        : this.panel === 'presets'
+        ? this.renderPresetManager()
+        : this.renderGrid()}
+      ${this.renderDialog()}
     `;
   }
 }
 
-/** A panel for managing real-time music generation settings. */
-@customElement('settings-controller')
-class SettingsController extends LitElement {
+/** A row of scene slots for storing and recalling mixes. */
+@customElement('scene-bar')
+class SceneBar extends LitElement {
   static override styles = css`
     :host {
-      display: block;
-      padding: 2vmin;
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      color: #eee;
+    }
+    button,
+    input,
+    select {
       background-color: #2a2a2a;
       color: #eee;
-      box-sizing: border-box;
-      border-radius: 5px;
-      font-family: 'Google Sans', sans-serif;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
       font-size: 1.5vmin;
-      overflow-y: auto;
-      scrollbar-width: thin;
-      scrollbar-color: #666 #1a1a1a;
-      transition: width 0.3s ease-out max-height 0.3s ease-out;
+      font-family: inherit;
     }
-    :host([showadvanced]) {
-      max-height: 40vmin;
+    button {
+      cursor: pointer;
+      font-weight: bold;
+      transition: all 0.2s ease;
     }
-    :host::-webkit-scrollbar {
-      width: 6px;
+    button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
     }
-    :host::-webkit-scrollbar-track {
-      background: #1a1a1a;
-      border-radius: 3px;
+    .store.armed {
+      background-color: #ff0044;
+      border-color: #ff5588;
+      color: #fff;
     }
-    :host::-webkit-scrollbar-thumb {
-      background-color: #666;
-      border-radius: 3px;
+    .slot {
+      min-width: 7vmin;
+      max-width: 12vmin;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      color: #777;
     }
-    .setting {
-      margin-bottom: 0.5vmin;
-      display: flex;
-      flex-direction: column;
-      gap: 0.5vmin;
+    .slot.filled {
+      color: #eee;
+      border-color: #aaa;
+    }
+    .slot.active {
+      border-color: #2af6de;
+      box-shadow: 0 0 1vmin #2af6de88;
+    }
+    input[type='number'] {
+      width: 6em;
     }
     label {
       font-weight: bold;
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-      white-space: nowrap;
-      user-select: none;
-    }
-    label span:last-child {
-      font-weight: normal;
-      color: #ccc;
-      min-width: 3em;
-      text-align: right;
+      margin-left: 1vmin;
     }
-    input[type='range'] {
-      --track-height: 8px;
-      --track-bg: #0009;
-      --track-border-radius: 4px;
-      --thumb-size: 16px;
-      --thumb-bg: #5200ff;
-      --thumb-border-radius: 50%;
-      --thumb-box-shadow: 0 0 3px rgba(0, 0, 0, 0.7);
-      --value-percent: 0%;
-      -webkit-appearance: none;
-      appearance: none;
-      width: 100%;
-      height: var(--track-height);
-      background: transparent;
-      cursor: pointer;
-      margin: 0.5vmin 0;
-      border: none;
-      padding: 0;
-      vertical-align: middle;
+  `;
+
+  @property({type: Array}) scenes: (Scene | null)[] = [];
+  @property({type: Number}) activeSlot = -1;
+  @state() private storeArmed = false;
+  @state() private morphAmount = 0;
+  @state() private morphUnit: MorphUnit = 'seconds';
+
+  private handleSlotClick(slot: number, e: MouseEvent) {
+    if (e.altKey) {
+      this.dispatchEvent(
+        new CustomEvent<number>('scene-clear', {detail: slot}),
+      );
+      return;
     }
-    input[type='range']::-webkit-slider-runnable-track {
-      width: 100%;
-      height: var(--track-height);
-      cursor: pointer;
-      border: none;
-      background: linear-gradient(
-        to right,
-        var(--thumb-bg) var(--value-percent),
-        var(--track-bg) var(--value-percent)
+    if (this.storeArmed) {
+      const current = this.scenes[slot]?.name ?? `Scene ${slot + 1}`;
+      const name = window.prompt('Scene name', current)?.trim();
+      this.storeArmed = false;
+      if (name === undefined) return;
+      this.dispatchEvent(
+        new CustomEvent<{slot: number; name: string}>('scene-store', {
+          detail: {slot, name: name || current},
+        }),
       );
-      border-radius: var(--track-border-radius);
+      return;
     }
-    input[type='range']::-moz-range-track {
-      width: 100%;
-      height: var(--track-height);
-      cursor: pointer;
-      background: var(--track-bg);
-      border-radius: var(--track-border-radius);
-      border: none;
+    if (!this.scenes[slot]) return;
+    this.dispatchEvent(
+      new CustomEvent<{slot: number; amount: number; unit: MorphUnit}>(
+        'scene-recall',
+        {detail: {slot, amount: this.morphAmount, unit: this.morphUnit}},
+      ),
+    );
+  }
+
+  override render() {
+    return html`
+      <button
+        class=${classMap({store: true, armed: this.storeArmed})}
+        title="Arm, then click a slot to store the current mix"
+        @click=${() => (this.storeArmed = !this.storeArmed)}>
+        STORE
+      </button>
+      ${Array.from({length: NUM_SCENE_SLOTS}, (_, slot) => {
+        const scene = this.scenes[slot];
+        return html`<button
+          class=${classMap({
+            slot: true,
+            filled: !!scene,
+            active: slot === this.activeSlot,
+          })}
+          title="Click to recall. Alt+Click to clear."
+          @click=${(e: MouseEvent) => this.handleSlotClick(slot, e)}>
+          ${scene?.name ?? slot + 1}
+        </button>`;
+      })}
+      <label for="morph-amount">MORPH</label>
+      <input
+        type="number"
+        id="morph-amount"
+        min="0"
+        step="0.5"
+        .value=${String(this.morphAmount)}
+        @input=${(e: Event) =>
+          (this.morphAmount = Math.max(
+            0,
+            Number((e.target as HTMLInputElement).value) || 0,
+          ))} />
+      <select
+        .value=${this.morphUnit}
+        @change=${(e: Event) =>
+          (this.morphUnit = (e.target as HTMLSelectElement)
+            .value as MorphUnit)}>
+        <option value="seconds">sec</option>
+        <option value="bars">bars</option>
+      </select>
+    `;
+  }
+}
+
+/** Editable weight curves per prompt, with the automation transport. */
+@customElement('automation-lanes')
+class AutomationLanes extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 1.5vmin;
+      background-color: #1a1a1a;
+      padding: 2vmin;
+      border-radius: 5px;
+      color: #eee;
+      font-family: 'Google Sans', monospace;
+      font-size: 1.5vmin;
+      width: 100%;
+      height: 100%;
+      box-sizing: border-box;
     }
-    input[type='range']::-webkit-slider-thumb {
-      -webkit-appearance: none;
-      appearance: none;
-      height: var(--thumb-size);
-      width: var(--thumb-size);
-      background: var(--thumb-bg);
-      border-radius: var(--thumb-border-radius);
-      box-shadow: var(--thumb-box-shadow);
-      cursor: pointer;
-      margin-top: calc((var(--thumb-size) - var(--track-height)) / -2);
+    .transport {
+      display: flex;
+      gap: 1vmin;
+      align-items: center;
     }
-    input[type='range']::-moz-range-thumb {
-      height: var(--thumb-size);
-      width: var(--thumb-size);
-      background: var(--thumb-bg);
-      border-radius: var(--thumb-border-radius);
-      box-shadow: var(--thumb-box-shadow);
-      cursor: pointer;
-      border: none;
+    .transport label {
+      font-weight: bold;
     }
-    input[type='number'],
-    input[type='text'],
-    select {
+    button,
+    input {
       background-color: #2a2a2a;
       color: #eee;
       border: 1px solid #666;
       border-radius: 3px;
-      padding: 0.4vmin;
+      padding: 0.6vmin 1.2vmin;
       font-size: 1.5vmin;
       font-family: inherit;
-      box-sizing: border-box;
-    }
-    input[type='number'] {
-      width: 6em;
-    }
-    input[type='text'] {
-      width: 100%;
-    }
-    input[type='text']::placeholder {
-      color: #888;
-    }
-    input[type='number']:focus,
-    input[type='text']:focus {
-      outline: none;
-      border-color: #5200ff;
-      box-shadow: 0 0 0 2px rgba(82, 0, 255, 0.3);
-    }
-    select {
-      width: 100%;
-    }
-    select:focus {
-      outline: none;
-      border-color: #5200ff;
-    }
-    select option {
-      background-color: #2a2a2a;
-      color: #eee;
-    }
-    .checkbox-setting {
-      flex-direction: row;
-      align-items: center;
-      gap: 1vmin;
     }
-    input[type='checkbox'] {
+    button {
       cursor: pointer;
-      accent-color: #5200ff;
+      font-weight: bold;
+      transition: all 0.2s ease;
     }
-    .core-settings-row {
-      display: flex;
-      flex-direction: row;
-      flex-wrap: wrap;
-      gap: 4vmin;
-      margin-bottom: 1vmin;
-      justify-content: space-evenly;
+    button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
     }
-    .core-settings-row .setting {
-      min-width: 16vmin;
+    button.on {
+      background-color: #ff0044;
+      border-color: #ff5588;
+      color: #fff;
     }
-    .core-settings-row label span:last-child {
-      min-width: 2.5em;
+    input[type='number'] {
+      width: 5em;
     }
-    .advanced-toggle {
-      cursor: pointer;
-      margin: 2vmin 0 1vmin 0;
+    .position {
+      margin-left: auto;
       color: #aaa;
-      text-decoration: underline;
-      user-select: none;
-      font-size: 1.4vmin;
-      width: fit-content;
     }
-    .advanced-toggle:hover {
-      color: #eee;
+    .lanes {
+      display: flex;
+      flex-direction: column;
+      gap: 1vmin;
+      overflow-y: auto;
+      flex-grow: 1;
     }
-    .advanced-settings {
+    .lane {
       display: grid;
-      grid-template-columns: repeat(auto-fit, minmax(10vmin, 1fr));
-      gap: 3vmin;
+      grid-template-columns: 14vmin 1fr;
+      gap: 1vmin;
+      align-items: stretch;
+      min-height: 7vmin;
+    }
+    .lane-label {
+      display: flex;
+      align-items: center;
+      justify-content: flex-end;
+      text-align: right;
       overflow: hidden;
-      max-height: 0;
-      opacity: 0;
-      transition:
-        max-height 0.3s ease-out,
-        opacity 0.3s ease-out;
+      color: #aaa;
+      font-weight: bold;
     }
-    .advanced-settings.visible {
-      max-width: 120vmin;
-      max-height: 40vmin;
-      opacity: 1;
+    .track {
+      position: relative;
+      background-color: #222;
+      background-image: linear-gradient(to right, #444 1px, transparent 1px);
+      border: 1px solid #333;
+      cursor: crosshair;
+      touch-action: none;
     }
-    hr.divider {
-      display: none;
-      border: none;
-      border-top: 1px solid #666;
-      margin: 2vmin 0;
+    .track svg {
+      position: absolute;
+      inset: 0;
       width: 100%;
+      height: 100%;
+      pointer-events: none;
     }
-    :host([showadvanced]) hr.divider {
-      display: block;
+    .handle {
+      position: absolute;
+      width: 1.2vmin;
+      height: 1.2vmin;
+      margin: -0.6vmin 0 0 -0.6vmin;
+      border-radius: 50%;
+      background: #fff;
+      cursor: grab;
     }
-    .auto-row {
-      display: flex;
-      align-items: center;
-      gap: 0.5vmin;
+    .text-marker {
+      position: absolute;
+      top: 0;
+      width: 2px;
+      height: 100%;
+      background: #ffdd2888;
+      pointer-events: auto;
     }
-    .setting[auto='true'] input[type='range'] {
+    .playhead {
+      position: absolute;
+      top: 0;
+      width: 2px;
+      height: 100%;
+      background: #fff;
       pointer-events: none;
-      filter: grayscale(100%);
     }
-    .auto-row span {
-      margin-left: auto;
-    }
-    .auto-row label {
-      cursor: pointer;
-    }
-    .auto-row input[type='checkbox'] {
-      cursor: pointer;
-      margin: 0;
+    .empty {
+      color: #777;
     }
   `;
 
-  private readonly defaultConfig = {
-    temperature: 1.1,
-    topK: 40,
-    guidance: 4.0,
-  };
-
-  @state() private config: LiveMusicGenerationConfig = this.defaultConfig;
+  @property({type: Array}) prompts: Prompt[] = [];
+  @property({type: Object}) lanes = new Map<string, AutomationLane>();
+  @property({type: Number}) lengthBars = DEFAULT_AUTOMATION_BARS;
+  @property({type: Number}) playheadBar = 0;
+  @property({type: String}) transport: AutomationTransport = 'idle';
+  @property({type: Boolean}) loop = true;
 
-  @state() showAdvanced = false;
+  private drag: {promptId: string; index: number; bounds: DOMRect} | null =
+    null;
 
-  @state() autoDensity = true;
+  constructor() {
+    super();
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+  }
 
-  @state() lastDefinedDensity: number;
+  private positionFromEvent(e: PointerEvent, bounds: DOMRect) {
+    const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+    const x = clamp01((e.clientX - bounds.left) / bounds.width);
+    const y = clamp01((e.clientY - bounds.top) / bounds.height);
+    return {bar: x * this.lengthBars, value: (1 - y) * 2};
+  }
 
-  @state() autoBrightness = true;
+  private cloneLane(promptId: string): AutomationLane {
+    const lane = this.lanes.get(promptId) ?? createLane();
+    return {weights: lane.weights.map((p) => ({...p})), texts: [...lane.texts]};
+  }
 
-  @state() lastDefinedBrightness: number;
+  private dispatchLaneChange(promptId: string, lane: AutomationLane) {
+    this.dispatchEvent(
+      new CustomEvent<{promptId: string; lane: AutomationLane}>(
+        'lane-changed',
+        {detail: {promptId, lane}},
+      ),
+    );
+  }
 
-  public resetToDefaults() {
-    this.config = this.defaultConfig;
-    this.autoDensity = true;
-    this.lastDefinedDensity = undefined;
-    this.autoBrightness = true;
-    this.lastDefinedBrightness = undefined;
-    this.dispatchSettingsChange();
+  private handleTrackPointerDown(promptId: string, e: PointerEvent) {
+    e.preventDefault();
+    const bounds = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const lane = this.cloneLane(promptId);
+    const point = this.positionFromEvent(e, bounds);
+    recordWeight(lane, point.bar, point.value);
+    this.dispatchLaneChange(promptId, lane);
+    const index = lane.weights.findIndex((p) => p.bar === point.bar);
+    this.startDrag(promptId, index, bounds);
   }
 
-  private updateSliderBackground(inputEl: HTMLInputElement) {
-    if (inputEl.type !== 'range') {
+  private handleHandlePointerDown(
+    promptId: string,
+    index: number,
+    e: PointerEvent,
+  ) {
+    e.preventDefault();
+    e.stopPropagation();
+    const track = (e.currentTarget as HTMLElement).parentElement!;
+    if (e.altKey) {
+      const lane = this.cloneLane(promptId);
+      lane.weights.splice(index, 1);
+      this.dispatchLaneChange(promptId, lane);
       return;
     }
-    const min = Number(inputEl.min) || 0;
-    const max = Number(inputEl.max) || 100;
-    const value = Number(inputEl.value);
-    const percentage = ((value - min) / (max - min)) * 100;
-    inputEl.style.setProperty('--value-percent', `${percentage}%`);
+    this.startDrag(promptId, index, track.getBoundingClientRect());
   }
 
-  private handleInputChange(e: Event) {
-    const target = e.target as HTMLInputElement;
-    const key = target.id as
-      | keyof LiveMusicGenerationConfig
-      | 'auto-density'
-      | 'auto-brightness';
-    let value: string | number | boolean | undefined = target.value;
-
-    if (target.type === 'number' || target.type === 'range') {
-      value = target.value === '' ? undefined : Number(target.value);
-      // Update slider background if it's a range input before handling the value change.
-      if (target.type === 'range') {
-        this.updateSliderBackground(target);
-      }
-    } else if (target.type === 'checkbox') {
-      value = target.checked;
-    } else if (target.type === 'select-one') {
-      const selectElement = target as unknown as HTMLSelectElement;
-      if (selectElement.options[selectElement.selectedIndex]?.disabled) {
-        value = undefined;
-      } else {
-        value = target.value;
-      }
-    }
+  private startDrag(promptId: string, index: number, bounds: DOMRect) {
+    this.drag = {promptId, index, bounds};
+    document.body.classList.add('dragging');
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp, {once: true});
+  }
 
-    const newConfig = {
-      ...this.config,
-      [key]: value,
+  private handlePointerMove(e: PointerEvent) {
+    if (!this.drag) return;
+    const {promptId, index, bounds} = this.drag;
+    const lane = this.cloneLane(promptId);
+    const point = this.positionFromEvent(e, bounds);
+    // Keep points in order by clamping between the neighbours.
+    const prev = lane.weights[index - 1]?.bar ?? 0;
+    const next = lane.weights[index + 1]?.bar ?? this.lengthBars;
+    lane.weights[index] = {
+      bar: Math.max(prev, Math.min(next, point.bar)),
+      value: point.value,
     };
+    this.dispatchLaneChange(promptId, lane);
+  }
 
-    if (newConfig.density !== undefined) {
-      this.lastDefinedDensity = newConfig.density;
-      console.log(this.lastDefinedDensity);
-    }
-
-    if (newConfig.brightness !== undefined) {
-      this.lastDefinedBrightness = newConfig.brightness;
-    }
-
-    if (key === 'auto-density') {
-      this.autoDensity = Boolean(value);
-      newConfig.density = this.autoDensity
-        ? undefined
-        : this.lastDefinedDensity;
-    } else if (key === 'auto-brightness') {
-      this.autoBrightness = Boolean(value);
-      newConfig.brightness = this.autoBrightness
-        ? undefined
-        : this.lastDefinedBrightness;
-    }
-
-    this.config = newConfig;
-    this.dispatchSettingsChange();
-  }
-
-  override updated(changedProperties: Map<string | symbol, unknown>) {
-    super.updated(changedProperties);
-    if (changedProperties.has('config')) {
-      this.shadowRoot
-        ?.querySelectorAll<HTMLInputElement>('input[type="range"]')
-        .forEach((slider: HTMLInputElement) => {
-          const configValue =
-            this.config[slider.id as keyof LiveMusicGenerationConfig];
-          if (typeof configValue === 'number') {
-            slider.value = String(configValue);
-          } else if (slider.id === 'density' || slider.id === 'brightness') {
-            // Handle potentially undefined density/brightness with default for background
-            slider.value = String(configValue ?? 0.5);
-          }
-          this.updateSliderBackground(slider);
-        });
-    }
+  private handlePointerUp() {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    document.body.classList.remove('dragging');
+    this.drag = null;
   }
 
-  private dispatchSettingsChange() {
+  private dispatchTransport(transport: AutomationTransport) {
     this.dispatchEvent(
-      new CustomEvent<LiveMusicGenerationConfig>('settings-changed', {
-        detail: this.config,
-        bubbles: true,
-        composed: true,
+      new CustomEvent<AutomationTransport>('automation-transport', {
+        detail: transport,
       }),
     );
   }
 
-  private toggleAdvancedSettings() {
-    this.showAdvanced = !this.showAdvanced;
+  private renderLane(prompt: Prompt) {
+    const lane = this.lanes.get(prompt.promptId);
+    const toX = (bar: number) => (bar / this.lengthBars) * 100;
+    const toY = (value: number) => (1 - value / 2) * 100;
+    const weights = lane?.weights ?? [];
+    let line = '';
+    if (weights.length > 0) {
+      const first = weights[0];
+      const last = weights[weights.length - 1];
+      line = [
+        `0,${toY(first.value)}`,
+        ...weights.map((p) => `${toX(p.bar)},${toY(p.value)}`),
+        `100,${toY(last.value)}`,
+      ].join(' ');
+    }
+    return html`<div class="lane">
+      <div class="lane-label" style=${styleMap({color: prompt.color})}>
+        ${prompt.text}
+      </div>
+      <div
+        class="track"
+        style=${styleMap({backgroundSize: `${100 / this.lengthBars}% 100%`})}
+        @pointerdown=${(e: PointerEvent) =>
+          this.handleTrackPointerDown(prompt.promptId, e)}>
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none">
+          <polyline
+            points=${line}
+            fill="none"
+            stroke=${prompt.color}
+            stroke-width="2"
+            vector-effect="non-scaling-stroke" />
+        </svg>
+        ${lane?.texts.map(
+          (event) => html`<div
+            class="text-marker"
+            title=${event.text}
+            style=${styleMap({left: `${toX(event.bar)}%`})}></div>`,
+        )}
+        ${weights.map(
+          (p, index) => html`<div
+            class="handle"
+            title="Drag to move. Alt+Click to delete."
+            style=${styleMap({
+              left: `${toX(p.bar)}%`,
+              top: `${toY(p.value)}%`,
+              backgroundColor: prompt.color,
+            })}
+            @pointerdown=${(e: PointerEvent) =>
+              this.handleHandlePointerDown(prompt.promptId, index, e)}></div>`,
+        )}
+        <div
+          class="playhead"
+          style=${styleMap({
+            left: `${toX(Math.min(this.playheadBar, this.lengthBars))}%`,
+          })}></div>
+      </div>
+    </div>`;
   }
 
   override render() {
-    const cfg = this.config;
-    const advancedClasses = classMap({
-      'advanced-settings': true,
-      'visible': this.showAdvanced,
-    });
-    const scaleMap = new Map<string, string>([
-      ['Auto', 'SCALE_UNSPECIFIED'],
-      ['C Major / A Minor', 'C_MAJOR_A_MINOR'],
-      ['C# Major / A# Minor', 'D_FLAT_MAJOR_B_FLAT_MINOR'],
-      ['D Major / B Minor', 'D_MAJOR_B_MINOR'],
-      ['D# Major / C Minor', 'E_FLAT_MAJOR_C_MINOR'],
-      ['E Major / C# Minor', 'E_MAJOR_D_FLAT_MINOR'],
-      ['F Major / D Minor', 'F_MAJOR_D_MINOR'],
-      ['F# Major / D# Minor', 'G_FLAT_MAJOR_E_FLAT_MINOR'],
-      ['G Major / E Minor', 'G_MAJOR_E_MINOR'],
-      ['G# Major / F Minor', 'A_FLAT_MAJOR_F_MINOR'],
-      ['A Major / F# Minor', 'A_MAJOR_G_FLAT_MINOR'],
-      ['A# Major / G Minor', 'B_FLAT_MAJOR_G_MINOR'],
-      ['B Major / G# Minor', 'B_MAJOR_A_FLAT_MINOR'],
-    ]);
-
+    const bar = Math.floor(this.playheadBar) + 1;
+    const beat = Math.floor((this.playheadBar % 1) * 4) + 1;
     return html`
-      <div class="core-settings-row">
-        <div class="setting">
-          <label for="temperature"
-            >Temperature<span>${cfg.temperature!.toFixed(1)}</span></label
-          >
-          <input
-            type="range"
-            id="temperature"
-            min="0"
-            max="3"
-            step="0.1"
-            .value=${cfg.temperature!.toString()}
-            @input=${this.handleInputChange} />
-        </div>
-        <div class="setting">
-          <label for="guidance"
-            >Guidance<span>${cfg.guidance!.toFixed(1)}</span></label
-          >
-          <input
-            type="range"
-            id="guidance"
-            min="0"
-            max="6"
-            step="0.1"
-            .value=${cfg.guidance!.toString()}
-            @input=${this.handleInputChange} />
-        </div>
-        <div class="setting">
-          <label for="topK">Top K<span>${cfg.topK}</span></label>
-          <input
-            type="range"
-            id="topK"
-            min="1"
-            max="100"
-            step="1"
-            .value=${cfg.topK!.toString()}
-            @input=${this.handleInputChange} />
-        </div>
-      </div>
-      <hr class="divider" />
-      <div class=${advancedClasses}>
-        <div class="setting">
-          <label for="seed">Seed</label>
-          <input
-            type="number"
-            id="seed"
-            .value=${cfg.seed ?? ''}
-            @input=${this.handleInputChange}
-            placeholder="Auto" />
-        </div>
-        <div class="setting">
-          <label for="bpm">BPM</label>
-          <input
-            type="number"
-            id="bpm"
-            min="60"
-            max="180"
-            .value=${cfg.bpm ?? ''}
-            @input=${this.handleInputChange}
-            placeholder="Auto" />
-        </div>
-        <div class="setting" auto=${this.autoDensity}>
-          <label for="density">Density</label>
-          <input
-            type="range"
-            id="density"
-            min="0"
-            max="1"
-            step="0.05"
-            .value=${this.lastDefinedDensity}
-            @input=${this.handleInputChange} />
-          <div class="auto-row">
-            <input
-              type="checkbox"
-              id="auto-density"
-              .checked=${this.autoDensity}
-              @input=${this.handleInputChange} />
-            <label for="auto-density">Auto</label>
-            <span>${(this.lastDefinedDensity ?? 0.5).toFixed(2)}</span>
-          </div>
-        </div>
-        <div class="setting" auto=${this.autoBrightness}>
-          <label for="brightness">Brightness</label>
-          <input
-            type="range"
-            id="brightness"
-            min="0"
-            max="1"
-            step="0.05"
-            .value=${this.lastDefinedBrightness}
-            @input=${this.handleInputChange} />
-          <div class="auto-row">
-            <input
-              type="checkbox"
-              id="auto-brightness"
-              .checked=${this.autoBrightness}
-              @input=${this.handleInputChange} />
-            <label for="auto-brightness">Auto</label>
-            <span>${(this.lastDefinedBrightness ?? 0.5).toFixed(2)}</span>
-          </div>
-        </div>
-        <div class="setting">
-          <label for="scale">Scale</label>
-          <select
-            id="scale"
-            .value=${cfg.scale || 'SCALE_UNSPECIFIED'}
-            @change=${this.handleInputChange}>
-            <option value="" disabled selected>Select Scale</option>
-            ${[...scaleMap.entries()].map(
-              ([displayName, enumValue]) =>
-                html`<option value=${enumValue}>${displayName}</option>`,
-            )}
-          </select>
-        </div>
-        <div class="setting">
-          <div class="setting checkbox-setting">
-            <input
-              type="checkbox"
-              id="muteBass"
-              .checked=${!!cfg.muteBass}
-              @change=${this.handleInputChange} />
-            <label for="muteBass" style="font-weight: normal;">Mute Bass</label>
-          </div>
-          <div class="setting checkbox-setting">
-            <input
-              type="checkbox"
-              id="muteDrums"
-              .checked=${!!cfg.muteDrums}
-              @change=${this.handleInputChange} />
-            <label for="muteDrums" style="font-weight: normal;"
-              >Mute Drums</label
-            >
-          </div>
-          <div class="setting checkbox-setting">
-            <input
-              type="checkbox"
-              id="onlyBassAndDrums"
-              .checked=${!!cfg.onlyBassAndDrums}
-              @change=${this.handleInputChange} />
-            <label for="onlyBassAndDrums" style="font-weight: normal;"
-              >Only Bass & Drums</label
-            >
-          </div>
-        </div>
+      <div class="transport">
+        <button
+          class=${classMap({on: this.transport === 'recording'})}
+          @click=${() =>
+            this.dispatchTransport(
+              this.transport === 'recording' ? 'idle' : 'recording',
+            )}>
+          REC
+        </button>
+        <button
+          class=${classMap({on: this.transport === 'playing'})}
+          @click=${() =>
+            this.dispatchTransport(
+              this.transport === 'playing' ? 'idle' : 'playing',
+            )}>
+          PLAY
+        </button>
+        <button @click=${() => this.dispatchTransport('idle')}>STOP</button>
+        <button
+          class=${classMap({on: this.loop})}
+          @click=${() =>
+            this.dispatchEvent(
+              new CustomEvent<boolean>('automation-loop', {detail: !this.loop}),
+            )}>
+          LOOP
+        </button>
+        <label for="automation-length">LENGTH</label>
+        <input
+          type="number"
+          id="automation-length"
+          min="1"
+          max="1024"
+          .value=${String(this.lengthBars)}
+          @change=${(e: Event) =>
+            this.dispatchEvent(
+              new CustomEvent<number>('automation-length', {
+                detail: Math.max(
+                  1,
+                  Math.round(Number((e.target as HTMLInputElement).value)) || 1,
+                ),
+              }),
+            )} />
+        <span>bars</span>
+        <button
+          @click=${() =>
+            this.dispatchEvent(new CustomEvent('automation-clear'))}>
+          CLEAR
+        </button>
+        <span class="position">${bar}.${beat}</span>
       </div>
-      <div class="advanced-toggle" @click=${this.toggleAdvancedSettings}>
-        ${this.showAdvanced ? 'Hide' : 'Show'} Advanced Settings
+      <div class="lanes">
+        ${this.prompts.length
+          ? this.prompts.map((prompt) => this.renderLane(prompt))
+          : html`<div class="empty">Add prompts to automate them.</div>`}
       </div>
     `;
   }
 }
 
-/** Component for the PromptDJ UI. */
-@customElement('prompt-dj')
-class PromptDj extends LitElement {
+/** Lists MIDI-mappable controls with learn, mode and takeover options. */
+@customElement('midi-panel')
+class MidiPanel extends LitElement {
   static override styles = css`
     :host {
-      height: 100%;
-      width: 100%;
       display: flex;
       flex-direction: column;
-      justify-content: center;
-      align-items: center;
-      box-sizing: border-box;
-      padding: 2vmin;
-      position: relative;
-      font-size: 1.8vmin;
       gap: 1vmin;
+      padding: 2vmin;
+      background-color: #1a1a1a;
+      border: 1px solid #444;
+      border-radius: 5px;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      max-height: 70vh;
+      overflow-y: auto;
+      box-shadow: 0 0 3vmin #000;
     }
-    #background {
-      position: absolute;
-      height: 100%;
-      width: 100%;
-      z-index: -1;
-      background: #111;
-      transition: background-image 0.5s ease-in-out;
-    }
-    .main-content {
+    .header {
       display: flex;
-      flex-direction: column;
-      flex: 4;
-      width: 100%;
-      min-height: 0;
+      align-items: center;
+      gap: 1vmin;
     }
-    .tabs {
-      display: flex;
-      gap: 1px;
-      margin-bottom: 1vmin;
-      flex-shrink: 0;
+    .header h2 {
+      margin: 0 auto 0 0;
+      font-size: 2vmin;
     }
-    .tabs button {
-      padding: 1vmin 2vmin;
-      font-size: 1.8vmin;
-      font-family: 'Google Sans', sans-serif;
-      border: 1px solid #444;
-      border-bottom: none;
-      background-color: #2a2a2a;
+    .row {
+      display: grid;
+      grid-template-columns: 16vmin 12vmin auto auto auto auto;
+      gap: 1vmin;
+      align-items: center;
+    }
+    .label {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-weight: bold;
+    }
+    .source {
       color: #aaa;
+    }
+    button,
+    select {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.5vmin 1vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+    }
+    button {
       cursor: pointer;
-      border-radius: 5px 5px 0 0;
-      transition: all 0.2s ease;
+      font-weight: bold;
     }
-    .tabs button:hover {
+    button:hover {
       background-color: #3a3a3a;
       color: #fff;
     }
-    .tabs button.active {
-      background-color: #1a1a1a;
-      color: #ff0044;
-      font-weight: bold;
-      border-color: #1a1a1a;
+    button.learning {
+      background-color: #ffdd28;
+      border-color: #ffdd28;
+      color: #000;
     }
-    .prompts-area,
-    .beats-area {
+    label {
       display: flex;
-      align-items: flex-end;
-      justify-content: center;
-      width: 100%;
+      align-items: center;
+      gap: 0.5vmin;
+      white-space: nowrap;
+    }
+    input[type='checkbox'] {
+      accent-color: #5200ff;
+    }
+    .clock {
+      display: flex;
+      align-items: center;
       gap: 2vmin;
-      flex-grow: 1;
-      min-height: 0;
+      padding-bottom: 1vmin;
+      border-bottom: 1px solid #444;
     }
-    .beats-area {
+  `;
+
+  @property({type: Array}) targets: MidiTarget[] = [];
+  @property({type: Array}) mappings: MidiMapping[] = [];
+  @property({type: String}) learnTarget: string | null = null;
+  @property({type: Boolean}) enabled = false;
+  @property({type: Array}) outputs: MidiPort[] = [];
+  /** Output ID to send clock to: '' for none, '*' for all outputs. */
+  @property({type: String}) clockOutput = '';
+  @property({type: Boolean}) followClock = false;
+  @property({type: Number}) incomingBpm?: number;
+
+  private dispatch<T>(type: string, detail?: T) {
+    this.dispatchEvent(new CustomEvent<T>(type, {detail}));
+  }
+
+  private describe(mapping?: MidiMapping) {
+    if (!mapping) return '—';
+    const kind = mapping.type === 'cc' ? 'CC' : 'Note';
+    return `${kind} ${mapping.control} · Ch ${mapping.channel + 1}`;
+  }
+
+  private renderRow(target: MidiTarget) {
+    const mapping = this.mappings.find((m) => m.target === target.id);
+    const learning = this.learnTarget === target.id;
+    const continuous = target.kind === 'continuous' && mapping?.type === 'cc';
+    return html`<div class="row">
+      <span class="label" title=${target.label}>${target.label}</span>
+      <span class="source"
+        >${learning ? 'Move a control…' : this.describe(mapping)}</span
+      >
+      <button
+        class=${classMap({learning})}
+        ?disabled=${!this.enabled}
+        @click=${() =>
+          this.dispatch('midi-learn', learning ? null : target.id)}>
+        LEARN
+      </button>
+      ${continuous
+        ? html`<select
+            .value=${mapping.mode}
+            @change=${(e: Event) =>
+              this.dispatch('midi-mapping-update', {
+                target: target.id,
+                changes: {
+                  mode: (e.target as HTMLSelectElement).value as MidiMode,
+                },
+              })}>
+            <option value="absolute">Absolute</option>
+            <option value="relative">Relative</option>
+          </select>`
+        : html`<span></span>`}
+      ${continuous && mapping.mode === 'absolute'
+        ? html`<label
+            ><input
+              type="checkbox"
+              .checked=${mapping.softTakeover}
+              @change=${(e: Event) =>
+                this.dispatch('midi-mapping-update', {
+                  target: target.id,
+                  changes: {
+                    softTakeover: (e.target as HTMLInputElement).checked,
+                  },
+                })} />Soft takeover</label
+          >`
+        : html`<span></span>`}
+      ${mapping
+        ? html`<button
+            title="Remove mapping"
+            @click=${() => this.dispatch('midi-mapping-remove', target.id)}>
+            ✕
+          </button>`
+        : html`<span></span>`}
+    </div>`;
+  }
+
+  private renderClock() {
+    if (!this.enabled) return '';
+    return html`<div class="clock">
+      <label
+        >CLOCK OUT
+        <select
+          .value=${this.clockOutput}
+          @change=${(e: Event) =>
+            this.dispatch(
+              'midi-clock-output',
+              (e.target as HTMLSelectElement).value,
+            )}>
+          <option value="">None</option>
+          <option value="*">All outputs</option>
+          ${this.outputs.map(
+            (output) =>
+              html`<option value=${output.id}>${output.name}</option>`,
+          )}
+        </select></label
+      >
+      <label
+        ><input
+          type="checkbox"
+          .checked=${this.followClock}
+          @change=${(e: Event) =>
+            this.dispatch(
+              'midi-clock-follow',
+              (e.target as HTMLInputElement).checked,
+            )} />Follow incoming clock</label
+      >
+      <span class="source"
+        >${this.incomingBpm === undefined
+          ? 'No clock received'
+          : `Receiving ${this.incomingBpm} BPM`}</span
+      >
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      <div class="header">
+        <h2>MIDI Mapping</h2>
+        ${this.enabled
+          ? ''
+          : html`<button @click=${() => this.dispatch('midi-enable')}>
+              ENABLE MIDI
+            </button>`}
+        <button @click=${() => this.dispatch('close')}>CLOSE</button>
+      </div>
+      ${this.renderClock()}
+      ${this.targets.map((target) => this.renderRow(target))}
+    `;
+  }
+}
+
+/** Spectrum range shown by the visualizer (Hz). */
+const SPECTRUM_MIN_HZ = 30;
+const SPECTRUM_MAX_HZ = 16000;
+const SPECTRUM_BARS = 48;
+/** Width of one column of the scrolling waveform (device pixels). */
+const WAVEFORM_COLUMN = 2;
+/** Per-frame decay of the meters' peak-hold markers. */
+const PEAK_HOLD_DECAY = 0.97;
+
+/** Spectrum, scrolling waveform and level meters for the audio output. */
+@customElement('audio-visualizer')
+class AudioVisualizer extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
       align-items: stretch;
+      gap: 1vmin;
+      height: 9vmin;
     }
-    #prompts-container {
+    canvas {
+      flex: 1;
+      min-width: 0;
+      background-color: #0a0a0a;
+      border: 1px solid #333;
+      border-radius: 5px;
+    }
+    button {
+      align-self: center;
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
+      font-size: 1.5vmin;
+      font-family: 'Google Sans', sans-serif;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    button.on {
+      background-color: #5200ff;
+      border-color: #8a5cff;
+    }
+  `;
+
+  @property({attribute: false}) analyser?: OutputAnalyser;
+  /** Whether the page background pulses with the music. */
+  @property({type: Boolean}) pulse = false;
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+  private frame?: number;
+  private resizeObserver?: ResizeObserver;
+  // Min and max sample per frame, oldest first.
+  private history: Array<[number, number]> = [];
+  private peakHold = [0, 0];
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.frame = requestAnimationFrame(this.draw);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.resizeObserver?.disconnect();
+  }
+
+  override firstUpdated() {
+    this.resizeObserver = new ResizeObserver(() => {
+      const scale = window.devicePixelRatio;
+      this.canvas.width = this.canvas.clientWidth * scale;
+      this.canvas.height = this.canvas.clientHeight * scale;
+    });
+    this.resizeObserver.observe(this.canvas);
+  }
+
+  private draw = () => {
+    this.frame = requestAnimationFrame(this.draw);
+    const ctx = this.canvas?.getContext('2d');
+    if (!ctx || !this.analyser) return;
+    const {width, height} = this.canvas;
+    ctx.clearRect(0, 0, width, height);
+    const metersWidth = height * 0.5;
+    const spectrumWidth = (width - metersWidth) * 0.45;
+    this.drawSpectrum(ctx, 0, spectrumWidth, height);
+    this.drawWaveform(
+      ctx,
+      spectrumWidth,
+      width - metersWidth - spectrumWidth,
+      height,
+    );
+    this.drawMeters(ctx, width - metersWidth, metersWidth, height);
+  };
+
+  private drawSpectrum(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    width: number,
+    height: number,
+  ) {
+    const analyser = this.analyser!;
+    const spectrum = analyser.getSpectrum();
+    const barWidth = width / SPECTRUM_BARS;
+    const ratio = SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ;
+    let bin = 1;
+    for (let i = 0; i < SPECTRUM_BARS; i++) {
+      // Log-spaced bars, each showing the loudest bin in its range.
+      const upper = SPECTRUM_MIN_HZ * ratio ** ((i + 1) / SPECTRUM_BARS);
+      let level = 0;
+      while (bin < spectrum.length && analyser.binFrequency(bin) < upper) {
+        level = Math.max(level, spectrum[bin++]);
+      }
+      const barHeight = (level / 255) * height;
+      ctx.fillStyle = `hsl(${260 + (i / SPECTRUM_BARS) * 90}, 100%, 55%)`;
+      ctx.fillRect(
+        x + i * barWidth,
+        height - barHeight,
+        barWidth * 0.8,
+        barHeight,
+      );
+    }
+  }
+
+  private drawWaveform(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    width: number,
+    height: number,
+  ) {
+    let min = 0;
+    let max = 0;
+    for (const sample of this.analyser!.getWaveform()) {
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+    }
+    this.history.push([min, max]);
+    const columns = Math.floor(width / WAVEFORM_COLUMN);
+    if (this.history.length > columns) {
+      this.history.splice(0, this.history.length - columns);
+    }
+    const mid = height / 2;
+    ctx.fillStyle = '#ff0044';
+    this.history.forEach(([lo, hi], i) => {
+      const left = x + width - (this.history.length - i) * WAVEFORM_COLUMN;
+      const top = mid - hi * mid;
+      ctx.fillRect(left, top, WAVEFORM_COLUMN, Math.max(1, (hi - lo) * mid));
+    });
+  }
+
+  private drawMeters(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    width: number,
+    height: number,
+  ) {
+    const {peak, rms} = this.analyser!.getLevels();
+    const barWidth = width / 2;
+    // Meters show -60 to 0 dBFS.
+    const toHeight = (level: number) => ((toDb(level) + 60) / 60) * height;
+    peak.forEach((level, channel) => {
+      this.peakHold[channel] = Math.max(
+        level,
+        this.peakHold[channel] * PEAK_HOLD_DECAY,
+      );
+      const left = x + channel * barWidth;
+      const rmsHeight = toHeight(rms[channel]);
+      ctx.fillStyle = toDb(rms[channel]) > -6 ? '#ff2244' : '#3dff8c';
+      ctx.fillRect(left, height - rmsHeight, barWidth * 0.8, rmsHeight);
+      const holdHeight = toHeight(this.peakHold[channel]);
+      ctx.fillStyle = this.peakHold[channel] >= 1 ? '#ff2244' : '#fff';
+      ctx.fillRect(left, height - holdHeight, barWidth * 0.8, 2);
+    });
+  }
+
+  override render() {
+    return html`<canvas></canvas>
+      <button
+        class=${classMap({on: this.pulse})}
+        title="Pulse the background with the bass"
+        @click=${() =>
+          this.dispatchEvent(
+            new CustomEvent<boolean>('pulse-changed', {detail: !this.pulse}),
+          )}>
+        PULSE
+      </button>`;
+  }
+}
+
+/** Chooses the playback buffer mode and shows its current latency. */
+@customElement('buffer-control')
+class BufferControl extends LitElement {
+  static override styles = css`
+    :host {
       display: flex;
-      flex-direction: row;
-      align-items: flex-end;
-      flex-shrink: 1;
-      height: 100%;
-      gap: 2vmin;
-      margin-left: 10vmin;
-      padding: 1vmin;
+      align-items: center;
+      gap: 0.8vmin;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      color: #ccc;
+    }
+    select,
+    input {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.4vmin 0.8vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+    }
+    input {
+      width: 5vmin;
+    }
+    .readout {
+      font-family: monospace;
+      white-space: nowrap;
+    }
+  `;
+
+  @property({type: String}) mode: BufferMode = 'balanced';
+  @property({type: Object}) bounds: BufferBounds = BUFFER_PRESETS.balanced;
+  @property({type: Number}) target = 0;
+  @property({type: Number}) jitter = 0;
+
+  private dispatch<T>(type: string, detail: T) {
+    this.dispatchEvent(new CustomEvent<T>(type, {detail}));
+  }
+
+  private handleBoundChange(key: keyof BufferBounds, e: Event) {
+    const value = Number((e.target as HTMLInputElement).value);
+    if (!(value > 0)) return;
+    const bounds = {...this.bounds, [key]: value};
+    // Keep min <= max by moving the other bound.
+    if (bounds.min > bounds.max) {
+      if (key === 'min') bounds.max = value;
+      else bounds.min = value;
+    }
+    this.dispatch('buffer-bounds', bounds);
+  }
+
+  override render() {
+    return html`
+      <label for="buffer-mode">BUFFER</label>
+      <select
+        id="buffer-mode"
+        .value=${this.mode}
+        @change=${(e: Event) =>
+          this.dispatch(
+            'buffer-mode',
+            (e.target as HTMLSelectElement).value as BufferMode,
+          )}>
+        <option value="low-latency">Low latency</option>
+        <option value="balanced">Balanced</option>
+        <option value="safe">Safe</option>
+        <option value="custom">Custom</option>
+      </select>
+      ${this.mode === 'custom'
+        ? html`<input
+              type="number"
+              min="0.1"
+              step="0.1"
+              title="Minimum latency (s)"
+              .value=${String(this.bounds.min)}
+              @change=${(e: Event) =>
+                this.handleBoundChange('min', e)} />–<input
+              type="number"
+              min="0.1"
+              step="0.1"
+              title="Maximum latency (s)"
+              .value=${String(this.bounds.max)}
+              @change=${(e: Event) => this.handleBoundChange('max', e)} />`
+        : ''}
+      <span class="readout" title="Target latency and measured arrival jitter"
+        >${this.target.toFixed(1)}s ±${Math.round(this.jitter * 1000)}ms</span
+      >
+    `;
+  }
+}
+
+/** Chooses the output devices for the main mix and the cue. */
+@customElement('output-picker')
+class OutputPicker extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      color: #ccc;
+    }
+    select,
+    button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.4vmin 0.8vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+      max-width: 18vmin;
+    }
+    button {
+      cursor: pointer;
+      font-weight: bold;
+    }
+    button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+  `;
+
+  @property({type: Array}) devices: OutputDevice[] = [];
+  @property({type: String}) output = '';
+  @property({type: String}) cue = '';
+  /** Whether the main output can leave the default device. */
+  @property({type: Boolean}) outputSupported = false;
+  @property({type: Boolean}) cueSupported = false;
+
+  private dispatch<T>(type: string, detail: T) {
+    this.dispatchEvent(new CustomEvent<T>(type, {detail}));
+  }
+
+  private renderSelect(
+    id: string,
+    value: string,
+    emptyLabel: string,
+    event: string,
+  ) {
+    // A device in use that could not be listed, e.g. before the browser
+    // allowed listing, still shows as selected.
+    const missing = value && !this.devices.some((d) => d.id === value);
+    return html`<select
+      id=${id}
+      .value=${value}
+      @change=${(e: Event) =>
+        this.dispatch(event, (e.target as HTMLSelectElement).value)}>
+      <option value="">${emptyLabel}</option>
+      ${this.devices.map(
+        (device) => html`<option value=${device.id}>${device.label}</option>`,
+      )}
+      ${missing ? html`<option value=${value}>Saved device</option>` : ''}
+    </select>`;
+  }
+
+  override render() {
+    if (!this.outputSupported && !this.cueSupported) return '';
+    const output = this.renderSelect(
+      'output',
+      this.output,
+      'Default',
+      'output-device',
+    );
+    const cue = this.renderSelect('cue', this.cue, 'None', 'cue-device');
+    return html`
+      ${this.outputSupported
+        ? html`<label for="output">OUT</label>${output}`
+        : ''}
+      ${this.cueSupported ? html`<label for="cue">CUE</label>${cue}` : ''}
+      <button
+        title="Find more output devices"
+        @click=${() => this.dispatch('output-find', null)}>
+        +
+      </button>
+    `;
+  }
+}
+
+/** The master FX panels, left to right in signal order. */
+const FX_PANELS: Array<{
+  title: string;
+  params: FxParam[];
+  switches: FxSwitch[];
+}> = [
+  {title: 'Filter', params: ['filter', 'filterResonance'], switches: []},
+  {
+    title: 'EQ',
+    params: ['eqLow', 'eqMid', 'eqHigh'],
+    switches: ['killLow', 'killMid', 'killHigh'],
+  },
+  {title: 'Delay', params: ['delayMix', 'delayFeedback'], switches: []},
+  {title: 'Reverb', params: ['reverbMix', 'reverbDecay'], switches: []},
+  {title: 'Limiter', params: ['limiterThreshold'], switches: ['limiter']},
+];
+
+/** Controls for the master effects chain, one panel per effect. */
+@customElement('fx-rack')
+class FxRack extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      gap: 1.5vmin;
+      padding: 2vmin;
+      background-color: #1a1a1a;
+      color: #eee;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      border-radius: 5px;
+      box-sizing: border-box;
       overflow-x: auto;
-      scrollbar-width: thin;
-      scrollbar-color: #666 #1a1a1a;
     }
-    #prompts-container::-webkit-scrollbar {
-      height: 8px;
+    .panel {
+      display: flex;
+      flex-direction: column;
+      gap: 1vmin;
+      min-width: 18vmin;
+      padding: 1.5vmin;
+      border: 1px solid #444;
+      border-radius: 5px;
+      background-color: #222;
     }
-    #prompts-container::-webkit-scrollbar-track {
-      background: #111;
-      border-radius: 4px;
+    h3 {
+      margin: 0 0 0.5vmin;
+      font-size: 1.8vmin;
+      color: #ff0044;
     }
-    #prompts-container::-webkit-scrollbar-thumb {
-      background-color: #666;
-      border-radius: 4px;
+    .param {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      gap: 0.3vmin 1vmin;
+    }
+    .param input {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: #5200ff;
+    }
+    .value {
+      font-family: monospace;
+      color: #aaa;
+    }
+    .switches {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5vmin;
+    }
+    button,
+    select {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.5vmin 1vmin;
+      font-size: 1.4vmin;
+      font-family: inherit;
+    }
+    button {
+      cursor: pointer;
+      font-weight: bold;
+    }
+    button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    button.on {
+      background-color: #ff0044;
+      border-color: #ff5588;
+      color: #fff;
+    }
+  `;
+
+  @property({type: Object}) settings: FxSettings = DEFAULT_FX;
+  @property({type: Number}) bpm = 120;
+
+  private change(changes: Partial<FxSettings>) {
+    this.dispatchEvent(
+      new CustomEvent<Partial<FxSettings>>('fx-changed', {detail: changes}),
+    );
+  }
+
+  private formatValue(param: FxParam) {
+    const value = this.settings[param];
+    if (param.startsWith('eq') || param === 'limiterThreshold') {
+      return `${value.toFixed(1)} dB`;
+    }
+    if (param === 'reverbDecay') return `${value.toFixed(1)} s`;
+    if (param === 'filter') {
+      if (value === 0) return 'Off';
+      return `${value < 0 ? 'LP' : 'HP'} ${Math.abs(value).toFixed(2)}`;
+    }
+    return value.toFixed(2);
+  }
+
+  private renderParam(param: FxParam) {
+    const {label, min, max, step} = FX_PARAMS[param];
+    return html`<label class="param" title="Double-click to reset">
+      <span>${label}</span>
+      <span class="value">${this.formatValue(param)}</span>
+      <input
+        type="range"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${String(this.settings[param])}
+        @input=${(e: Event) =>
+          this.change({[param]: Number((e.target as HTMLInputElement).value)})}
+        @dblclick=${() => this.change({[param]: DEFAULT_FX[param]})} />
+    </label>`;
+  }
+
+  private renderDelayTime() {
+    const division = this.settings.delayDivision;
+    const ms = Math.round((DELAY_DIVISIONS[division] * 60000) / this.bpm);
+    return html`<label class="param">
+      <span>Time</span>
+      <span class="value">${ms} ms</span>
+      <select
+        .value=${division}
+        @change=${(e: Event) =>
+          this.change({
+            delayDivision: (e.target as HTMLSelectElement)
+              .value as DelayDivision,
+          })}>
+        ${Object.keys(DELAY_DIVISIONS).map(
+          (d) => html`<option value=${d}>${d}</option>`,
+        )}
+      </select>
+    </label>`;
+  }
+
+  override render() {
+    return FX_PANELS.map(
+      (panel) => html`<div class="panel">
+        <h3>${panel.title}</h3>
+        ${panel.title === 'Delay' ? this.renderDelayTime() : ''}
+        ${panel.params.map((param) => this.renderParam(param))}
+        <div class="switches">
+          ${panel.switches.map(
+            (key) => html`<button
+              class=${classMap({on: this.settings[key]})}
+              @click=${() => this.change({[key]: !this.settings[key]})}>
+              ${FX_SWITCHES[key]}
+            </button>`,
+          )}
+        </div>
+      </div>`,
+    );
+  }
+}
+
+/** A panel for managing real-time music generation settings. */
+@customElement('settings-controller')
+class SettingsController extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      padding: 2vmin;
+      background-color: #2a2a2a;
+      color: #eee;
+      box-sizing: border-box;
+      border-radius: 5px;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      overflow-y: auto;
+      scrollbar-width: thin;
+      scrollbar-color: #666 #1a1a1a;
+      transition: width 0.3s ease-out max-height 0.3s ease-out;
+    }
+    :host([showadvanced]) {
+      max-height: 40vmin;
+    }
+    :host::-webkit-scrollbar {
+      width: 6px;
+    }
+    :host::-webkit-scrollbar-track {
+      background: #1a1a1a;
+      border-radius: 3px;
+    }
+    :host::-webkit-scrollbar-thumb {
+      background-color: #666;
+      border-radius: 3px;
+    }
+    .setting {
+      margin-bottom: 0.5vmin;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5vmin;
+    }
+    label {
+      font-weight: bold;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      white-space: nowrap;
+      user-select: none;
+    }
+    label span:last-child {
+      font-weight: normal;
+      color: #ccc;
+      min-width: 3em;
+      text-align: right;
+    }
+    input[type='range'] {
+      --track-height: 8px;
+      --track-bg: #0009;
+      --track-border-radius: 4px;
+      --thumb-size: 16px;
+      --thumb-bg: #5200ff;
+      --thumb-border-radius: 50%;
+      --thumb-box-shadow: 0 0 3px rgba(0, 0, 0, 0.7);
+      --value-percent: 0%;
+      -webkit-appearance: none;
+      appearance: none;
+      width: 100%;
+      height: var(--track-height);
+      background: transparent;
+      cursor: pointer;
+      margin: 0.5vmin 0;
+      border: none;
+      padding: 0;
+      vertical-align: middle;
+    }
+    input[type='range']::-webkit-slider-runnable-track {
+      width: 100%;
+      height: var(--track-height);
+      cursor: pointer;
+      border: none;
+      background: linear-gradient(
+        to right,
+        var(--thumb-bg) var(--value-percent),
+        var(--track-bg) var(--value-percent)
+      );
+      border-radius: var(--track-border-radius);
+    }
+    input[type='range']::-moz-range-track {
+      width: 100%;
+      height: var(--track-height);
+      cursor: pointer;
+      background: var(--track-bg);
+      border-radius: var(--track-border-radius);
+      border: none;
+    }
+    input[type='range']::-webkit-slider-thumb {
+      -webkit-appearance: none;
+      appearance: none;
+      height: var(--thumb-size);
+      width: var(--thumb-size);
+      background: var(--thumb-bg);
+      border-radius: var(--thumb-border-radius);
+      box-shadow: var(--thumb-box-shadow);
+      cursor: pointer;
+      margin-top: calc((var(--thumb-size) - var(--track-height)) / -2);
+    }
+    input[type='range']::-moz-range-thumb {
+      height: var(--thumb-size);
+      width: var(--thumb-size);
+      background: var(--thumb-bg);
+      border-radius: var(--thumb-border-radius);
+      box-shadow: var(--thumb-box-shadow);
+      cursor: pointer;
+      border: none;
+    }
+    input[type='number'],
+    input[type='text'],
+    select {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.4vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+      box-sizing: border-box;
+    }
+    input[type='number'] {
+      width: 6em;
+    }
+    input[type='text'] {
+      width: 100%;
+    }
+    input[type='text']::placeholder {
+      color: #888;
+    }
+    input[type='number']:focus,
+    input[type='text']:focus {
+      outline: none;
+      border-color: #5200ff;
+      box-shadow: 0 0 0 2px rgba(82, 0, 255, 0.3);
+    }
+    select {
+      width: 100%;
+    }
+    select:focus {
+      outline: none;
+      border-color: #5200ff;
+    }
+    select option {
+      background-color: #2a2a2a;
+      color: #eee;
+    }
+    .checkbox-setting {
+      flex-direction: row;
+      align-items: center;
+      gap: 1vmin;
+    }
+    input[type='checkbox'] {
+      cursor: pointer;
+      accent-color: #5200ff;
+    }
+    .core-settings-row {
+      display: flex;
+      flex-direction: row;
+      flex-wrap: wrap;
+      gap: 4vmin;
+      margin-bottom: 1vmin;
+      justify-content: space-evenly;
+    }
+    .core-settings-row .setting {
+      min-width: 16vmin;
+    }
+    .core-settings-row label span:last-child {
+      min-width: 2.5em;
+    }
+    .advanced-toggle {
+      cursor: pointer;
+      margin: 2vmin 0 1vmin 0;
+      color: #aaa;
+      text-decoration: underline;
+      user-select: none;
+      font-size: 1.4vmin;
+      width: fit-content;
+    }
+    .advanced-toggle:hover {
+      color: #eee;
+    }
+    .advanced-settings {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(10vmin, 1fr));
+      gap: 3vmin;
+      overflow: hidden;
+      max-height: 0;
+      opacity: 0;
+      transition:
+        max-height 0.3s ease-out,
+        opacity 0.3s ease-out;
+    }
+    .advanced-settings.visible {
+      max-width: 120vmin;
+      max-height: 40vmin;
+      opacity: 1;
+    }
+    hr.divider {
+      display: none;
+      border: none;
+      border-top: 1px solid #666;
+      margin: 2vmin 0;
+      width: 100%;
+    }
+    :host([showadvanced]) hr.divider {
+      display: block;
+    }
+    .auto-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    .setting[auto='true'] input[type='range'] {
+      pointer-events: none;
+      filter: grayscale(100%);
+    }
+    .auto-row span {
+      margin-left: auto;
+    }
+    .auto-row label {
+      cursor: pointer;
+    }
+    .auto-row input[type='checkbox'] {
+      cursor: pointer;
+      margin: 0;
+    }
+  `;
+
+  private readonly defaultConfig = {
+    temperature: 1.1,
+    topK: 40,
+    guidance: 4.0,
+  };
+
+  @state() private config: LiveMusicGenerationConfig = this.defaultConfig;
+
+  @state() showAdvanced = false;
+
+  @state() autoDensity = true;
+
+  @state() lastDefinedDensity: number;
+
+  @state() autoBrightness = true;
+
+  @state() lastDefinedBrightness: number;
+
+  public resetToDefaults() {
+    this.config = this.defaultConfig;
+    this.autoDensity = true;
+    this.lastDefinedDensity = undefined;
+    this.autoBrightness = true;
+    this.lastDefinedBrightness = undefined;
+    this.dispatchSettingsChange();
+  }
+
+  public getConfig(): LiveMusicGenerationConfig {
+    return {...this.config};
+  }
+
+  /** Replaces the whole config, e.g. when loading a project. */
+  public setConfig(config: LiveMusicGenerationConfig) {
+    this.config = {...this.defaultConfig, ...config};
+    this.autoDensity = config.density === undefined;
+    this.lastDefinedDensity = config.density;
+    this.autoBrightness = config.brightness === undefined;
+    this.lastDefinedBrightness = config.brightness;
+    this.dispatchSettingsChange();
+  }
+
+  /**
+   * Sets a single numeric setting, e.g. from a MIDI controller or incoming
+   * MIDI clock. Setting density or brightness takes it out of Auto.
+   */
+  public setParameter(key: MidiSettingKey | 'bpm', value: number) {
+    this.config = {...this.config, [key]: value};
+    if (key === 'density') {
+      this.autoDensity = false;
+      this.lastDefinedDensity = value;
+    } else if (key === 'brightness') {
+      this.autoBrightness = false;
+      this.lastDefinedBrightness = value;
+    }
+    this.dispatchSettingsChange();
+  }
+
+  private updateSliderBackground(inputEl: HTMLInputElement) {
+    if (inputEl.type !== 'range') {
+      return;
+    }
+    const min = Number(inputEl.min) || 0;
+    const max = Number(inputEl.max) || 100;
+    const value = Number(inputEl.value);
+    const percentage = ((value - min) / (max - min)) * 100;
+    inputEl.style.setProperty('--value-percent', `${percentage}%`);
+  }
+
+  private handleInputChange(e: Event) {
+    const target = e.target as HTMLInputElement;
+    const key = target.id as
+      | keyof LiveMusicGenerationConfig
+      | 'auto-density'
+      | 'auto-brightness';
+    let value: string | number | boolean | undefined = target.value;
+
+    if (target.type === 'number' || target.type === 'range') {
+      value = target.value === '' ? undefined : Number(target.value);
+      // Update slider background if it's a range input before handling the value change.
+      if (target.type === 'range') {
+        this.updateSliderBackground(target);
+      }
+    } else if (target.type === 'checkbox') {
+      value = target.checked;
+    } else if (target.type === 'select-one') {
+      const selectElement = target as unknown as HTMLSelectElement;
+      if (selectElement.options[selectElement.selectedIndex]?.disabled) {
+        value = undefined;
+      } else {
+        value = target.value;
+      }
+    }
+
+    const newConfig = {
+      ...this.config,
+      [key]: value,
+    };
+
+    if (newConfig.density !== undefined) {
+      this.lastDefinedDensity = newConfig.density;
+      console.log(this.lastDefinedDensity);
+    }
+
+    if (newConfig.brightness !== undefined) {
+      this.lastDefinedBrightness = newConfig.brightness;
+    }
+
+    if (key === 'auto-density') {
+      this.autoDensity = Boolean(value);
+      newConfig.density = this.autoDensity
+        ? undefined
+        : this.lastDefinedDensity;
+    } else if (key === 'auto-brightness') {
+      this.autoBrightness = Boolean(value);
+      newConfig.brightness = this.autoBrightness
+        ? undefined
+        : this.lastDefinedBrightness;
+    }
+
+    this.config = newConfig;
+    this.dispatchSettingsChange();
+  }
+
+  override updated(changedProperties: Map<string | symbol, unknown>) {
+    super.updated(changedProperties);
+    if (changedProperties.has('config')) {
+      this.shadowRoot
+        ?.querySelectorAll<HTMLInputElement>('input[type="range"]')
+        .forEach((slider: HTMLInputElement) => {
+          const configValue =
+            this.config[slider.id as keyof LiveMusicGenerationConfig];
+          if (typeof configValue === 'number') {
+            slider.value = String(configValue);
+          } else if (slider.id === 'density' || slider.id === 'brightness') {
+            // Handle potentially undefined density/brightness with default for background
+            slider.value = String(configValue ?? 0.5);
+          }
+          this.updateSliderBackground(slider);
+        });
+    }
+  }
+
+  private dispatchSettingsChange() {
+    this.dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('settings-changed', {
+        detail: this.config,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private toggleAdvancedSettings() {
+    this.showAdvanced = !this.showAdvanced;
+  }
+
+  override render() {
+    const cfg = this.config;
+    const advancedClasses = classMap({
+      'advanced-settings': true,
+      'visible': this.showAdvanced,
+    });
+    const scaleMap = new Map<string, string>([
+      ['Auto', 'SCALE_UNSPECIFIED'],
+      ['C Major / A Minor', 'C_MAJOR_A_MINOR'],
+      ['C# Major / A# Minor', 'D_FLAT_MAJOR_B_FLAT_MINOR'],
+      ['D Major / B Minor', 'D_MAJOR_B_MINOR'],
+      ['D# Major / C Minor', 'E_FLAT_MAJOR_C_MINOR'],
+      ['E Major / C# Minor', 'E_MAJOR_D_FLAT_MINOR'],
+      ['F Major / D Minor', 'F_MAJOR_D_MINOR'],
+      ['F# Major / D# Minor', 'G_FLAT_MAJOR_E_FLAT_MINOR'],
+      ['G Major / E Minor', 'G_MAJOR_E_MINOR'],
+      ['G# Major / F Minor', 'A_FLAT_MAJOR_F_MINOR'],
+      ['A Major / F# Minor', 'A_MAJOR_G_FLAT_MINOR'],
+      ['A# Major / G Minor', 'B_FLAT_MAJOR_G_MINOR'],
+      ['B Major / G# Minor', 'B_MAJOR_A_FLAT_MINOR'],
+    ]);
+
+    return html`
+      <div class="core-settings-row">
+        <div class="setting">
+          <label for="temperature"
+            >Temperature<span>${cfg.temperature!.toFixed(1)}</span></label
+          >
+          <input
+            type="range"
+            id="temperature"
+            min="0"
+            max="3"
+            step="0.1"
+            .value=${cfg.temperature!.toString()}
+            @input=${this.handleInputChange} />
+        </div>
+        <div class="setting">
+          <label for="guidance"
+            >Guidance<span>${cfg.guidance!.toFixed(1)}</span></label
+          >
+          <input
+            type="range"
+            id="guidance"
+            min="0"
+            max="6"
+            step="0.1"
+            .value=${cfg.guidance!.toString()}
+            @input=${this.handleInputChange} />
+        </div>
+        <div class="setting">
+          <label for="topK">Top K<span>${cfg.topK}</span></label>
+          <input
+            type="range"
+            id="topK"
+            min="1"
+            max="100"
+            step="1"
+            .value=${cfg.topK!.toString()}
+            @input=${this.handleInputChange} />
+        </div>
+      </div>
+      <hr class="divider" />
+      <div class=${advancedClasses}>
+        <div class="setting">
+          <label for="seed">Seed</label>
+          <input
+            type="number"
+            id="seed"
+            .value=${cfg.seed ?? ''}
+            @input=${this.handleInputChange}
+            placeholder="Auto" />
+        </div>
+        <div class="setting">
+          <label for="bpm">BPM</label>
+          <input
+            type="number"
+            id="bpm"
+            min=${MIN_BPM}
+            max=${MAX_BPM}
+            .value=${cfg.bpm ?? ''}
+            @input=${this.handleInputChange}
+            placeholder="Auto" />
+        </div>
+        <div class="setting" auto=${this.autoDensity}>
+          <label for="density">Density</label>
+          <input
+            type="range"
+            id="density"
+            min="0"
+            max="1"
+            step="0.05"
+            .value=${this.lastDefinedDensity}
+            @input=${this.handleInputChange} />
+          <div class="auto-row">
+            <input
+              type="checkbox"
+              id="auto-density"
+              .checked=${this.autoDensity}
+              @input=${this.handleInputChange} />
+            <label for="auto-density">Auto</label>
+            <span>${(this.lastDefinedDensity ?? 0.5).toFixed(2)}</span>
+          </div>
+        </div>
+        <div class="setting" auto=${this.autoBrightness}>
+          <label for="brightness">Brightness</label>
+          <input
+            type="range"
+            id="brightness"
+            min="0"
+            max="1"
+            step="0.05"
+            .value=${this.lastDefinedBrightness}
+            @input=${this.handleInputChange} />
+          <div class="auto-row">
+            <input
+              type="checkbox"
+              id="auto-brightness"
+              .checked=${this.autoBrightness}
+              @input=${this.handleInputChange} />
+            <label for="auto-brightness">Auto</label>
+            <span>${(this.lastDefinedBrightness ?? 0.5).toFixed(2)}</span>
+          </div>
+        </div>
+        <div class="setting">
+          <label for="scale">Scale</label>
+          <select
+            id="scale"
+            .value=${cfg.scale || 'SCALE_UNSPECIFIED'}
+            @change=${this.handleInputChange}>
+            <option value="" disabled selected>Select Scale</option>
+            ${[...scaleMap.entries()].map(
+              ([displayName, enumValue]) =>
+                html`<option value=${enumValue}>${displayName}</option>`,
+            )}
+          </select>
+        </div>
+        <div class="setting">
+          <div class="setting checkbox-setting">
+            <input
+              type="checkbox"
+              id="muteBass"
+              .checked=${!!cfg.muteBass}
+              @change=${this.handleInputChange} />
+            <label for="muteBass" style="font-weight: normal;">Mute Bass</label>
+          </div>
+          <div class="setting checkbox-setting">
+            <input
+              type="checkbox"
+              id="muteDrums"
+              .checked=${!!cfg.muteDrums}
+              @change=${this.handleInputChange} />
+            <label for="muteDrums" style="font-weight: normal;"
+              >Mute Drums</label
+            >
+          </div>
+          <div class="setting checkbox-setting">
+            <input
+              type="checkbox"
+              id="onlyBassAndDrums"
+              .checked=${!!cfg.onlyBassAndDrums}
+              @change=${this.handleInputChange} />
+            <label for="onlyBassAndDrums" style="font-weight: normal;"
+              >Only Bass & Drums</label
+            >
+          </div>
+        </div>
+      </div>
+      <div class="advanced-toggle" @click=${this.toggleAdvancedSettings}>
+        ${this.showAdvanced ? 'Hide' : 'Show'} Advanced Settings
+      </div>
+    `;
+  }
+}
+
+/** Deck B's prompts when two-deck mode is first switched on. */
+const DECK_B_PROMPTS = [
+  'Deep House',
+  'Rolling Bassline',
+  'Dusty Rhodes Chords',
+  'Shuffled Hi-Hats',
+];
+
+/**
+ * Deck B's own prompts, beat pattern and settings. The app owns the
+ * session and receives them through `deck-prompts-changed` and
+ * `deck-config-changed`.
+ */
+@customElement('deck-panel')
+class DeckPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      flex-grow: 1;
+      min-height: 0;
+      width: 100%;
+      font-family: 'Google Sans', sans-serif;
+    }
+    :host([hidden]) {
+      display: none;
+    }
+    .views {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      margin-bottom: 1vmin;
+      color: #ccc;
+      font-size: 1.5vmin;
+    }
+    .views .title {
+      color: #ff0044;
+      font-weight: bold;
+      margin-right: 1vmin;
+    }
+    .views button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    .views button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    .views button.active {
+      border-color: #ffdd28;
+      color: #ffdd28;
+    }
+    .view {
+      display: flex;
+      align-items: flex-end;
+      justify-content: center;
+      gap: 2vmin;
+      flex-grow: 1;
+      min-height: 0;
+    }
+    .view[hidden] {
+      display: none;
+    }
+    .view.settings {
+      align-items: flex-start;
+    }
+    .prompts {
+      display: flex;
+      align-items: flex-end;
+      gap: 2vmin;
+      height: 100%;
+      padding: 1vmin;
+      overflow-x: auto;
+      scrollbar-width: thin;
+      scrollbar-color: #666 #1a1a1a;
+    }
+    prompt-controller {
+      height: 100%;
+      max-height: 80vmin;
+      min-width: 14vmin;
+      max-width: 16vmin;
+      flex: 1;
+    }
+    add-prompt-button {
+      width: 12vmin;
+      flex-shrink: 0;
+    }
+    settings-controller {
+      width: 100%;
+      max-width: 90vmin;
+    }
+  `;
+
+  @property({type: String}) playbackState: PlaybackState = 'stopped';
+  @property({type: Object}) filteredPrompts = new Set<string>();
+  @property({attribute: false}) userPresets: UserPreset[] = [];
+  /** The deck's step clock, for the sequencer playhead. */
+  @property({attribute: false}) clock?: StepClock;
+  @state() private view: 'prompts' | 'beats' | 'settings' = 'prompts';
+  @state() private prompts = new Map<string, Prompt>();
+  @state() private sequencerBank = emptyBank();
+  @state() private sequencerWeight = 0;
+  @state() private playingPattern = 0;
+  @state() private playingEntry = -1;
+  /** The deck's tempo, for MIDI files written from its sequencer. */
+  @state() private bpm = 120;
+  private player?: PatternPlayer;
+  private nextPromptId = 0;
+
+  @query('settings-controller') private settingsController!: SettingsController;
+
+  constructor() {
+    super();
+    DECK_B_PROMPTS.forEach((text) => this.addPrompt(text));
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('clock')) {
+      this.player?.dispose();
+      this.player = this.clock
+        ? new PatternPlayer(this.clock, {
+            onStart: (pattern, entry) => {
+              this.playingPattern = pattern;
+              this.playingEntry = entry;
+              this.dispatchPrompts();
+            },
+          })
+        : undefined;
+      this.player?.update(this.sequencerBank);
+    }
+  }
+
+  override firstUpdated() {
+    this.dispatchPrompts();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.player?.dispose();
+  }
+
+  /** Sets deck B's BPM, e.g. to match deck A. */
+  async matchBpm(bpm: number) {
+    await this.updateComplete;
+    this.settingsController.setParameter('bpm', bpm);
+  }
+
+  private addPrompt(text: string) {
+    const promptId = `prompt-${this.nextPromptId++}`;
+    const usedColors = [...this.prompts.values()].map((p) => p.color);
+    this.prompts = new Map(this.prompts).set(promptId, {
+      promptId,
+      text,
+      weight: 0,
+      color: getUnusedRandomColor(usedColors),
+    });
+  }
+
+  private dispatchPrompts = throttle(() => {
+    this.dispatchEvent(
+      new CustomEvent<Prompt[]>('deck-prompts-changed', {
+        detail: sessionPrompts(
+          this.prompts.values(),
+          this.filteredPrompts,
+          this.sequencerBank,
+          this.playingPattern,
+          this.sequencerWeight,
+        ),
+      }),
+    );
+  }, 200);
+
+  private handlePromptChanged(e: CustomEvent<Prompt>) {
+    this.prompts = new Map(this.prompts).set(e.detail.promptId, e.detail);
+    this.dispatchPrompts();
+  }
+
+  private handlePromptRemoved(e: CustomEvent<string>) {
+    e.stopPropagation();
+    const prompts = new Map(this.prompts);
+    prompts.delete(e.detail);
+    this.prompts = prompts;
+    this.dispatchPrompts();
+  }
+
+  private handleSequencerChange(e: CustomEvent<SequencerChange>) {
+    this.sequencerBank = e.detail.bank;
+    this.sequencerWeight = e.detail.weight;
+    this.player?.update(e.detail.bank);
+    this.dispatchPrompts();
+  }
+
+  private handleSettingsChange(e: CustomEvent<LiveMusicGenerationConfig>) {
+    e.stopPropagation();
+    if (e.detail.bpm) this.bpm = e.detail.bpm;
+    this.dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('deck-config-changed', {
+        detail: e.detail,
+      }),
+    );
+  }
+
+  private renderViewButton(view: DeckPanel['view'], label: string) {
+    return html`<button
+      class=${classMap({active: this.view === view})}
+      @click=${() => (this.view = view)}>
+      ${label}
+    </button>`;
+  }
+
+  override render() {
+    // Every view stays rendered so its controls keep their state.
+    return html`
+      <div class="views">
+        <span class="title">DECK B</span>
+        ${this.renderViewButton('prompts', 'PROMPTS')}
+        ${this.renderViewButton('beats', 'BEATS')}
+        ${this.renderViewButton('settings', 'SETTINGS')}
+      </div>
+      <div class="view" ?hidden=${this.view !== 'prompts'}>
+        <div class="prompts" @prompt-removed=${this.handlePromptRemoved}>
+          ${[...this.prompts.values()].map(
+            (prompt) => html`<prompt-controller
+              .promptId=${prompt.promptId}
+              .text=${prompt.text}
+              .weight=${prompt.weight}
+              .color=${prompt.color}
+              ?filtered=${this.filteredPrompts.has(prompt.text)}
+              @prompt-changed=${this.handlePromptChanged}></prompt-controller>`,
+          )}
+        </div>
+        <add-prompt-button
+          @click=${() => this.addPrompt('New Prompt')}></add-prompt-button>
+      </div>
+      <div class="view" ?hidden=${this.view !== 'beats'}>
+        <beat-sequencer
+          .bank=${this.sequencerBank}
+          .weight=${this.sequencerWeight}
+          .playingPattern=${this.playingPattern}
+          .playingEntry=${this.playingEntry}
+          .playbackState=${this.playbackState}
+          .clock=${this.clock}
+          .bpm=${this.bpm}
+          .userPresets=${this.userPresets}
+          @user-presets-changed=${(e: CustomEvent<UserPreset[]>) =>
+            this.dispatchEvent(
+              new CustomEvent<UserPreset[]>('user-presets-changed', {
+                detail: e.detail,
+              }),
+            )}
+          @sequencer-changed=${this.handleSequencerChange}></beat-sequencer>
+      </div>
+      <div class="view settings" ?hidden=${this.view !== 'settings'}>
+        <settings-controller
+          @settings-changed=${this.handleSettingsChange}></settings-controller>
+      </div>
+    `;
+  }
+}
+
+/**
+ * The crossfader between deck A and deck B, with its curve, the headphone
+ * cue and BPM sync.
+ */
+@customElement('crossfader-control')
+class CrossfaderControl extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.5vmin;
+      color: #ccc;
+    }
+    button,
+    select {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+      cursor: pointer;
+    }
+    button {
+      font-weight: bold;
+    }
+    button:hover:not(:disabled) {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    button.active {
+      border-color: #ffdd28;
+      color: #ffdd28;
+    }
+    button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .deck {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      font-weight: bold;
+    }
+    .bpm {
+      font-family: monospace;
+      font-weight: normal;
+      color: #aaa;
+    }
+    input[type='range'] {
+      width: 30vmin;
+      accent-color: #ff0044;
+    }
+  `;
+
+  /** 0 is all deck A, 1 all deck B. */
+  @property({type: Number}) position = 0.5;
+  @property({type: String}) curve: CrossfadeCurve = 'constant-power';
+  @property({type: String}) cue: CueSource = 'off';
+  /** Whether a cue output device is set. */
+  @property({type: Boolean}) cueReady = false;
+  @property({type: Number}) bpmA?: number;
+  @property({type: Number}) bpmB?: number;
+  @property({type: Boolean}) bpmSync = false;
+
+  private dispatch<T>(type: string, detail: T) {
+    this.dispatchEvent(new CustomEvent<T>(type, {detail}));
+  }
+
+  private renderCue(deck: 'a' | 'b') {
+    // Cueing to the main output would only double the deck in the mix.
+    return html`<button
+      class=${classMap({active: this.cue === deck})}
+      title=${this.cueReady
+        ? 'Pre-listen on the cue output'
+        : 'Choose a cue output first'}
+      ?disabled=${!this.cueReady}
+      @click=${() =>
+        this.dispatch('cue-source', this.cue === deck ? 'off' : deck)}>
+      CUE
+    </button>`;
+  }
+
+  override render() {
+    const bpm = (value?: number) => (value ? `${value} BPM` : 'auto BPM');
+    return html`
+      <div class="deck">A <span class="bpm">${bpm(this.bpmA)}</span></div>
+      ${this.renderCue('a')}
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.01"
+        title="Crossfader (double-click to center)"
+        .value=${String(this.position)}
+        @input=${(e: Event) =>
+          this.dispatch(
+            'crossfader',
+            Number((e.target as HTMLInputElement).value),
+          )}
+        @dblclick=${() => this.dispatch('crossfader', 0.5)} />
+      ${this.renderCue('b')}
+      <div class="deck">B <span class="bpm">${bpm(this.bpmB)}</span></div>
+      <select
+        title="Crossfader curve"
+        .value=${this.curve}
+        @change=${(e: Event) =>
+          this.dispatch(
+            'crossfade-curve',
+            (e.target as HTMLSelectElement).value as CrossfadeCurve,
+          )}>
+        ${Object.entries(CROSSFADE_CURVES).map(
+          ([curve, label]) => html`<option value=${curve}>${label}</option>`,
+        )}
+      </select>
+      <button
+        class=${classMap({active: this.bpmSync})}
+        title="Keep deck B at deck A's BPM"
+        @click=${() => this.dispatch('bpm-sync', !this.bpmSync)}>
+        SYNC
+      </button>
+    `;
+  }
+}
+
+/** The prompts and their automation lanes at one moment, for undo. */
+interface PromptsSnapshot {
+  prompts: Map<string, Prompt>;
+  lanes: Map<string, AutomationLane>;
+}
+
+/** What a scene morph changes, for undo. */
+interface MixSnapshot {
+  prompts: PromptsSnapshot;
+  sequencerWeight: number;
+  config: LiveMusicGenerationConfig;
+}
+
+/** Whether typing in `target` should get the browser's own undo. */
+function isTextField(target: EventTarget | undefined): boolean {
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['range', 'checkbox', 'button', 'file'].includes(target.type);
+  }
+  return target instanceof HTMLElement && target.isContentEditable;
+}
+
+/** Component for the PromptDJ UI. */
+@customElement('prompt-dj')
+class PromptDj extends LitElement {
+  static override styles = css`
+    :host {
+      height: 100%;
+      width: 100%;
+      display: flex;
+      flex-direction: column;
+      justify-content: center;
+      align-items: center;
+      box-sizing: border-box;
+      padding: 2vmin;
+      position: relative;
+      font-size: 1.8vmin;
+      gap: 1vmin;
+    }
+    #background {
+      position: absolute;
+      height: 100%;
+      width: 100%;
+      z-index: -1;
+      background: #111;
+      transition: background-image 0.5s ease-in-out;
+    }
+    .main-content {
+      display: flex;
+      flex-direction: column;
+      flex: 4;
+      width: 100%;
+      min-height: 0;
+    }
+    .tabs {
+      display: flex;
+      gap: 1px;
+      margin-bottom: 1vmin;
+      flex-shrink: 0;
+    }
+    .tabs > button {
+      padding: 1vmin 2vmin;
+      font-size: 1.8vmin;
+      font-family: 'Google Sans', sans-serif;
+      border: 1px solid #444;
+      border-bottom: none;
+      background-color: #2a2a2a;
+      color: #aaa;
+      cursor: pointer;
+      border-radius: 5px 5px 0 0;
+      transition: all 0.2s ease;
+    }
+    .tabs > button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    .tabs > button.active {
+      background-color: #1a1a1a;
+      color: #ff0044;
+      font-weight: bold;
+      border-color: #1a1a1a;
+    }
+    .project-controls {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      margin-left: auto;
+    }
+    .project-controls button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
+      font-size: 1.5vmin;
+      font-family: 'Google Sans', sans-serif;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    .project-controls button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    .project-controls button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .project-controls input[type='file'] {
+      display: none;
+    }
+    .restore-overlay {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background-color: #000a;
+      z-index: 12;
+    }
+    .restore-panel {
+      display: flex;
+      flex-direction: column;
+      gap: 1.5vmin;
+      min-width: 50vmin;
+      max-width: 80vmin;
+      padding: 3vmin;
+      background-color: #1a1a1a;
+      border: 1px solid #444;
+      border-radius: 5px;
+      font-family: 'Google Sans', sans-serif;
+    }
+    .restore-panel h2 {
+      margin: 0;
+      font-size: 2.4vmin;
+    }
+    .restore-panel ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 0.8vmin;
+      max-height: 40vmin;
+      overflow-y: auto;
+    }
+    .restore-panel li button {
+      width: 100%;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 0.4vmin;
+      text-align: left;
+    }
+    .restore-panel .summary {
+      color: #aaa;
+      font-weight: normal;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      max-width: 100%;
+    }
+    .restore-panel button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 1vmin 1.5vmin;
+      font-size: 1.6vmin;
+      font-family: inherit;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    .restore-panel button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    midi-panel {
+      position: absolute;
+      top: 8vmin;
+      right: 2vmin;
+      z-index: 10;
+    }
+    .project-controls button.active {
+      border-color: #ffdd28;
+      color: #ffdd28;
+    }
+    .prompts-area,
+    .beats-area,
+    .automation-area {
+      display: flex;
+      align-items: flex-end;
+      justify-content: center;
+      width: 100%;
+      gap: 2vmin;
+      flex-grow: 1;
+      min-height: 0;
+    }
+    .beats-area,
+    .automation-area {
+      align-items: stretch;
+    }
+    .fx-area {
+      display: flex;
+      align-items: flex-start;
+      justify-content: center;
+      width: 100%;
+      flex-grow: 1;
+      min-height: 0;
+    }
+    #prompts-container {
+      display: flex;
+      flex-direction: row;
+      align-items: flex-end;
+      flex-shrink: 1;
+      height: 100%;
+      gap: 2vmin;
+      margin-left: 10vmin;
+      padding: 1vmin;
+      overflow-x: auto;
+      scrollbar-width: thin;
+      scrollbar-color: #666 #1a1a1a;
+    }
+    #prompts-container::-webkit-scrollbar {
+      height: 8px;
+    }
+    #prompts-container::-webkit-scrollbar-track {
+      background: #111;
+      border-radius: 4px;
+    }
+    #prompts-container::-webkit-scrollbar-thumb {
+      background-color: #666;
+      border-radius: 4px;
+    }
+    #prompts-container::-webkit-scrollbar-thumb:hover {
+      background-color: #777;
+    }
+    /* Add pseudo-elements for centering while keeping elements visible when scrolling */
+    #prompts-container::before,
+    #prompts-container::after {
+      content: '';
+      flex: 1;
+      min-width: 0.5vmin;
+    }
+    .add-prompt-button-container {
+      display: flex;
+      flex-direction: column;
+      justify-content: flex-end;
+      align-items: center;
+      gap: 1vmin;
+      height: 100%;
+      flex-shrink: 0;
+    }
+    .preview-controls {
+      display: flex;
+      flex-direction: column;
+      align-items: stretch;
+      gap: 0.6vmin;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.4vmin;
+      color: #ffdd28;
+      text-align: center;
+    }
+    .preview-controls button,
+    .library-button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    .preview-controls button:hover:not(:disabled),
+    .library-button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    .preview-controls button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .library-button.active {
+      background-color: #ffdd28;
+      border-color: #ffdd28;
+      color: #000;
+    }
+    prompt-library {
+      width: 30vmin;
+      height: 100%;
+      flex-shrink: 0;
+    }
+    scene-bar {
+      flex-shrink: 0;
+    }
+    .mixer-container {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      flex-shrink: 0;
+    }
+    .mixer-container play-pause-button {
+      width: 8vmin;
+    }
+    audio-visualizer {
+      width: 100%;
+      max-width: 90vmin;
+      flex-shrink: 0;
+      margin-bottom: 1vmin;
+    }
+    #settings-container {
+      flex: 1;
+      margin: 1vmin 0;
+      width: 100%;
+      max-width: 90vmin;
+    }
+    .playback-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      flex-shrink: 0;
+    }
+    play-pause-button,
+    add-prompt-button,
+    reset-button,
+    record-button {
+      width: 12vmin;
+      flex-shrink: 0;
+    }
+    .recording-status {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      min-width: 24vmin;
+      font-family: 'Google Sans', monospace;
+      font-size: 1.6vmin;
+      color: #ccc;
+    }
+    .recording-status.recording {
+      color: #ff2244;
+    }
+    .connection-status {
+      display: flex;
+      align-items: center;
+      justify-content: flex-end;
+      gap: 1vmin;
+      min-width: 24vmin;
+      font-family: 'Google Sans', sans-serif;
+      font-size: 1.6vmin;
+      color: #ccc;
+    }
+    .connection-status .dot {
+      width: 1.2vmin;
+      height: 1.2vmin;
+      border-radius: 50%;
+      background-color: #ffdd28;
+    }
+    .connection-status.connected .dot {
+      background-color: #3dff8c;
+    }
+    .connection-status.waiting .dot {
+      background-color: #ff2244;
+    }
+    .recording-status button,
+    .connection-status button {
+      background-color: #2a2a2a;
+      color: #eee;
+      border: 1px solid #666;
+      border-radius: 3px;
+      padding: 0.6vmin 1.2vmin;
+      font-size: 1.5vmin;
+      font-family: inherit;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    .recording-status button:hover,
+    .connection-status button:hover {
+      background-color: #3a3a3a;
+      color: #fff;
+    }
+    prompt-controller {
+      height: 100%;
+      max-height: 80vmin;
+      min-width: 14vmin;
+      max-width: 16vmin;
+      flex: 1;
+    }
+  `;
+
+  @property({
+    type: Object,
+    attribute: false,
+  })
+  private prompts: Map<string, Prompt>;
+  private nextPromptId: number; // Monotonically increasing ID for new prompts
+  private readonly sessionProvider = createSessionProvider();
+  private readonly sampleRate = 48000;
+  private audioContext = new (window.AudioContext ||
+    (window as any).webkitAudioContext)({sampleRate: this.sampleRate});
+  private readonly masterFx = new MasterFx(
+    this.audioContext,
+    this.audioContext.destination,
+  );
+  @state() private fxSettings: FxSettings = {...DEFAULT_FX};
+  private readonly outputAnalyser = new OutputAnalyser(
+    this.audioContext,
+    this.masterFx.output,
+  );
+  @state() private pulseBackground = false;
+  private pulseFrame?: number;
+  private readonly cueBus = new CueBus(this.audioContext);
+  private readonly mixer = new DeckMixer(
+    this.audioContext,
+    this.masterFx.input,
+    this.cueBus.input,
+  );
+  @state() private outputDevices: OutputDevice[] = [];
+  // '' is the default device for the main output, and no device for the
+  // cue.
+  @state() private mainOutput = '';
+  @state() private cueDevice = '';
+  // Count deck A's and deck B's steps from when their audio starts.
+  private readonly stepClock = new StepClock(this.audioContext);
+  private readonly deckBClock = new StepClock(this.audioContext);
+  // Follows deck A's clock, and sounds only when local drums are on.
+  private readonly drums = new DrumMachine(this.audioContext, this.stepClock);
+  private readonly patternPlayer = new PatternPlayer(this.stepClock, {
+    onSchedule: (pattern) => {
+      const {patterns, tracks} = this.sequencerBank;
+      this.drums.setPattern(patterns[pattern], tracks);
+    },
+    // The beat prompt follows the arrangement from the bar it changes on.
+    onStart: (pattern, entry) => {
+      this.playingPattern = pattern;
+      this.playingEntry = entry;
+      this.setSessionPrompts();
+    },
+  });
+  @state() private localDrums = false;
+  @state() private drumLevel = 0.8;
+  /** The beat sequencer presets the user saved, shared by both decks. */
+  @state() private userPresets: UserPreset[] = [];
+  @state() private library: PromptLibrary = emptyLibrary();
+  @state() private showLibrary = false;
+  @state() private bufferMode: BufferMode = 'balanced';
+  @state() private bufferBounds: BufferBounds = BUFFER_PRESETS.balanced;
+  // The recorder and the MIDI clock follow deck A.
+  private readonly deckA = new Deck(
+    this.audioContext,
+    this.sessionProvider,
+    this.bufferBounds,
+    {
+      onChange: () => this.requestUpdate(),
+      onNotice: (message) => this.toastMessage.show(message),
+      onFilteredPrompt: (text, reason) =>
+        this.handleFilteredPrompt(text, reason),
+      onStart: (time, resumed) => {
+        this.midiClockOut.start(time);
+        if (resumed) {
+          this.stepClock.resume(time);
+        } else {
+          this.stepClock.start(time);
+        }
+      },
+      onPause: (time) => {
+        this.midiClockOut.pause(time);
+        this.stepClock.stop(time);
+      },
+      onStop: () => {
+        this.midiClockOut.stop();
+        this.stepClock.stop();
+      },
+      onAudio: (pcm) => this.recordChunk(pcm),
+    },
+  );
+  // Connected only in two-deck mode.
+  private readonly deckB = new Deck(
+    this.audioContext,
+    this.sessionProvider,
+    this.bufferBounds,
+    {
+      onChange: () => this.requestUpdate(),
+      onNotice: (message) => this.toastMessage.show(`Deck B: ${message}`),
+      onFilteredPrompt: (text, reason) =>
+        this.handleFilteredPrompt(text, reason),
+      onStart: (time, resumed) => {
+        if (resumed) {
+          this.deckBClock.resume(time);
+        } else {
+          this.deckBClock.start(time);
+        }
+      },
+      onPause: (time) => this.deckBClock.stop(time),
+      onStop: () => this.deckBClock.stop(),
+    },
+  );
+  // Connected only while prompt changes are previewed on the cue.
+  private readonly previewDeck = new Deck(
+    this.audioContext,
+    this.sessionProvider,
+    this.bufferBounds,
+    {
+      onChange: () => this.requestUpdate(),
+      onNotice: (message) => this.toastMessage.show(`Preview: ${message}`),
+      onFilteredPrompt: (text, reason) =>
+        this.handleFilteredPrompt(text, reason),
+    },
+  );
+  // The prompts deck A keeps playing while changes are previewed.
+  @state() private livePrompts?: Map<string, Prompt>;
+  @state() private twoDecks = false;
+  /** 0 is all deck A, 1 all deck B. */
+  @state() private crossfader = 0.5;
+  @state() private crossfadeCurve: CrossfadeCurve = 'constant-power';
+  @state() private cueSource: CueSource = 'off';
+  @state() private deckBBpm?: number;
+  // Whether deck B follows deck A's BPM.
+  @state() private bpmSync = false;
+  @property({type: Object})
+  private filteredPrompts = new Set<string>();
+  @state() private activeTab:
+    | 'prompts'
+    | 'beats'
+    | 'automation'
+    | 'fx'
+    | 'deck-b' = 'prompts';
+  @state() private sequencerBank = emptyBank();
+  @state() private sequencerWeight = 0.0;
+  // What deck A plays, updated as it is heard.
+  @state() private playingPattern = 0;
+  @state() private playingEntry = -1;
+  @state() private currentBpm = 120;
+  private generationConfig: LiveMusicGenerationConfig = {};
+  private readonly recorder = new PcmRecorder(this.sampleRate, 2);
+  @state() private isRecording = false;
+  @state() private recordedDuration = 0;
+  @state() private recordedBytes = 0;
+  private readonly autosave = new AutosaveStore();
+  // Held off until the user has answered the restore prompt, so a fresh
+  // session cannot push the one they may want to restore out of history.
+  private autosaveEnabled = false;
+  @state() private restoreCandidates: AutosaveEntry[] = [];
+  @state() private scenes: (Scene | null)[] = Array(NUM_SCENE_SLOTS).fill(null);
+  @state() private activeScene = -1;
+  private morphFrame?: number;
+  @state() private automationLanes = new Map<string, AutomationLane>();
+  /** Edits to the prompts, the beat sequencer and the settings. */
+  private readonly history = new History();
+  @state() private automationLength = DEFAULT_AUTOMATION_BARS;
+  @state() private automationTransport: AutomationTransport = 'idle';
+  @state() private automationLoop = true;
+  @state() private automationBar = 0;
+  private readonly automationClock = new BarClock();
+  private automationFrame?: number;
+  // Bar of the last write per prompt in the current recording pass.
+  private automationTouched = new Map<string, number>();
+  private readonly midi = new MidiController({
+    getValue: (target) => this.getMidiTargetValue(target),
+    setValue: (target, value) => this.setMidiTargetValue(target, value),
+    trigger: (target) => this.triggerMidiTarget(target),
+    onChange: () => {
+      this.midiMappings = [...this.midi.mappings];
+      this.midiLearnTarget = this.midi.learnTarget;
+      this.updateMidiOutputs();
+    },
+  });
+  @state() private midiMappings: MidiMapping[] = [];
+  @state() private midiLearnTarget: string | null = null;
+  @state() private showMidiPanel = false;
+  private readonly midiClockOut = new MidiClockOutput(this.audioContext);
+  private readonly midiClockIn = new MidiClockFollower((bpm) =>
+    this.handleIncomingBpm(bpm),
+  );
+  @state() private midiOutputs: MidiPort[] = [];
+  @state() private midiClockOutput = '';
+  @state() private followMidiClock = false;
+  @state() private incomingBpm?: number;
+
+  @query('play-pause-button') private playPauseButton!: PlayPauseButton;
+  @query('toast-message') private toastMessage!: ToastMessage;
+  @query('settings-controller') private settingsController!: SettingsController;
+  @query('beat-sequencer') private beatSequencer!: BeatSequencer;
+  @query('#project-file') private projectFileInput!: HTMLInputElement;
+  @query('#background') private background!: HTMLDivElement;
+  @query('deck-panel') private deckPanel?: DeckPanel;
+
+  constructor() {
+    super();
+    this.prompts = new Map<string, Prompt>();
+    this.nextPromptId = 0; // Initialize to a safe default
+    this.deckA.output.connect(this.mixer.inputs[0]);
+    this.deckB.output.connect(this.mixer.inputs[1]);
+    this.previewDeck.output.connect(this.cueBus.input);
+    this.drums.output.connect(this.mixer.inputs[0]);
+    this.applyCrossfader();
+    navigator.mediaDevices?.addEventListener('devicechange', () =>
+      this.refreshOutputDevices(),
+    );
+    this.initializeSequencer();
+    this.midiMappings = [...this.midi.mappings];
+    this.loadMidiClockSettings();
+    this.loadBufferSettings();
+    this.loadDrumSettings();
+    this.loadUserPresets();
+    this.loadLibrary();
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('sequencerBank')) {
+      this.patternPlayer.update(this.sequencerBank);
+      const {patterns, tracks} = this.sequencerBank;
+      this.drums.setPattern(patterns[this.patternPlayer.playing], tracks);
+      this.drums.humanize = this.sequencerBank.humanize;
+    }
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.handleKeyDown);
+  }
+
+  /** Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes; Cmd on macOS. */
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    if (isTextField(e.composedPath()[0])) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      this.redo();
+    }
+  };
+
+  private undo() {
+    this.cancelMorph();
+    if (this.history.undo()) this.requestUpdate();
+  }
+
+  private redo() {
+    this.cancelMorph();
+    if (this.history.redo()) this.requestUpdate();
+  }
+
+  private recordEdit(command: Command) {
+    this.history.push(command);
+    this.requestUpdate();
+  }
+
+  private promptsSnapshot(): PromptsSnapshot {
+    return {
+      prompts: new Map(
+        [...this.prompts].map(([id, prompt]) => [id, {...prompt}]),
+      ),
+      lanes: new Map(this.automationLanes),
+    };
+  }
+
+  /** Records the change to the prompts since `before` as one edit. */
+  private recordPromptsEdit(before: PromptsSnapshot, mergeKey?: string) {
+    const after = this.promptsSnapshot();
+    this.recordEdit({
+      undo: () => this.restorePrompts(before),
+      redo: () => this.restorePrompts(after),
+      mergeKey,
+    });
+  }
+
+  private restorePrompts({prompts, lanes}: PromptsSnapshot) {
+    this.prompts = new Map(
+      [...prompts].map(([id, prompt]) => [id, {...prompt}]),
+    );
+    this.automationLanes = new Map(lanes);
+    this.setSessionPrompts();
+    this.scheduleAutosave();
+    this.dispatchPromptsChange();
+  }
+
+  private restoreSequencer({bank, weight}: SequencerChange) {
+    this.sequencerBank = bank;
+    this.sequencerWeight = weight;
+    this.setSessionPrompts();
+    this.scheduleAutosave();
+  }
+
+  override async firstUpdated() {
+    this.nextPromptId = this.prompts.size; // Now `prompts` is set
+    // The settings start from the controller's defaults, not from nothing,
+    // so the first edit to them is undone on its own.
+    this.generationConfig = this.settingsController.getConfig();
+    this.checkForAutosaves();
+    if (this.sessionProvider.description) {
+      this.toastMessage.show(this.sessionProvider.description);
+    }
+    this.setSessionPrompts();
+    this.loadOutputSettings();
+    await this.deckA.connect();
+  }
+
+  private async checkForAutosaves() {
+    this.restoreCandidates = await this.autosave.list();
+    if (this.restoreCandidates.length === 0) {
+      this.autosaveEnabled = true;
+    }
+  }
+
+  private scheduleAutosave = debounce(() => {
+    if (!this.autosaveEnabled) return;
+    this.autosave.save(this.getProjectData());
+  }, 1000);
+
+  private restoreAutosave(entry: AutosaveEntry) {
+    try {
+      this.applyProject(this.autosave.load(entry));
+      this.toastMessage.show('Restored previous session');
+    } catch (e) {
+      const reason = e instanceof ProjectValidationError ? e.message : '';
+      this.toastMessage.show(`Could not restore session. ${reason}`);
+    }
+    this.dismissRestore();
+  }
+
+  private dismissRestore() {
+    this.restoreCandidates = [];
+    this.autosaveEnabled = true;
+    this.scheduleAutosave();
+  }
+
+  private initializeSequencer() {
+    this.sequencerBank = emptyBank();
+    this.sequencerWeight = 0;
+  }
+
+  private handleFilteredPrompt(text: string, reason: string) {
+    this.filteredPrompts = new Set([...this.filteredPrompts, text]);
+    this.setLibrary(markFiltered(this.library, text, reason));
+    this.toastMessage.show(reason);
+  }
+
+  private recordChunk(pcm: Uint8Array) {
+    if (!this.isRecording) return;
+    this.recorder.append(pcm);
+    this.recordedDuration = this.recorder.duration;
+    this.recordedBytes = this.recorder.byteLength;
+  }
+
+  private setSessionPrompts = throttle(() => {
+    const weighted = (prompts: Map<string, Prompt>) =>
+      sessionPrompts(
+        prompts.values(),
+        this.filteredPrompts,
+        this.sequencerBank,
+        this.playingPattern,
+        this.sequencerWeight,
+      );
+    this.deckA.setPrompts(weighted(this.livePrompts ?? this.prompts));
+    if (this.livePrompts) {
+      this.previewDeck.setPrompts(weighted(this.prompts));
+    }
+  }, 200);
+
+  private dispatchPromptsChange() {
+    this.dispatchEvent(
+      new CustomEvent('prompts-changed', {detail: this.prompts}),
+    );
+  }
+
+  private handlePromptChanged(e: CustomEvent<Prompt>) {
+    this.updatePrompt(e.detail);
+  }
+
+  /** Applies a user edit to a prompt, from its controller or from MIDI. */
+  private updatePrompt({promptId, text, weight}: Prompt) {
+    const prompt = this.prompts.get(promptId);
+
+    if (!prompt) {
+      console.error('prompt not found', promptId);
+      return;
+    }
+    // Manual moves take over from any scene morph in progress.
+    this.cancelMorph();
+    const before = this.promptsSnapshot();
+    const changed = text !== prompt.text || weight !== prompt.weight;
+    // Weight drags undo as one; text edits each on their own.
+    const mergeKey = text === prompt.text ? `weight:${promptId}` : undefined;
+    if (this.automationTransport === 'recording') {
+      this.recordAutomation(prompt, text, weight);
+    }
+
+    prompt.text = text;
+    prompt.weight = weight;
+    if (changed) this.recordPromptsEdit(before, mergeKey);
+
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(promptId, prompt);
+
+    this.prompts = newPrompts;
+
+    this.setSessionPrompts();
+    this.scheduleAutosave();
+
+    this.requestUpdate();
+    this.dispatchPromptsChange();
+  }
+
+  private setPulseBackground(pulse: boolean) {
+    this.pulseBackground = pulse;
+    if (this.pulseFrame !== undefined) {
+      cancelAnimationFrame(this.pulseFrame);
+      this.pulseFrame = undefined;
+    }
+    if (pulse) {
+      this.pulseFrame = requestAnimationFrame(this.pulse);
+    } else {
+      this.background.style.filter = '';
+    }
+  }
+
+  /** Brightens the background with bass energy and saturates it with mids. */
+  private pulse = () => {
+    this.pulseFrame = requestAnimationFrame(this.pulse);
+    const bass = this.outputAnalyser.bandEnergy('bass');
+    const mid = this.outputAnalyser.bandEnergy('mid');
+    this.background.style.filter = `brightness(${1 + bass * 1.2}) saturate(${
+      1 + mid
+    })`;
+  };
+
+  private makeBackground() {
+    const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+    const bg: string[] = [];
+
+    [...this.prompts.values()].forEach((p, i) => {
+      if (p.weight <= 0.01) return;
+
+      const intensity = clamp01(p.weight / 1.5);
+      const stop = (p.weight / 2) * 100;
+      const x = ((i % 4) / 3) * 100;
+      const y = (Math.floor(i / 4) / 3) * 100;
+
+      const whiteAlpha = (intensity * 0.4).toFixed(2);
+      const colorAlphaHex = Math.round(intensity * 200)
+        .toString(16)
+        .padStart(2, '0');
+
+      const s = `radial-gradient(circle at ${x}% ${y}%, rgba(255, 255, 255, ${whiteAlpha}) 0%, ${
+        p.color
+      }${colorAlphaHex} ${stop * 0.1}%, ${p.color}00 ${stop}%)`;
+      bg.push(s);
+    });
+
+    // Add a glow for the sequencer from the bottom
+    if (this.sequencerWeight > 0) {
+      const intensity = clamp01(this.sequencerWeight / 1.5);
+      const color = '#ff0044';
+      const alphaHex = Math.round(intensity * 0.7 * 255)
+        .toString(16)
+        .padStart(2, '0');
+
+      const s = `radial-gradient(ellipse at 50% 150%, ${color}${alphaHex} 0%, ${color}00 70%)`;
+      bg.push(s);
     }
-    #prompts-container::-webkit-scrollbar-thumb:hover {
-      background-color: #777;
+
+    return bg.join(', ');
+  }
+
+  private handlePlayPause() {
+    this.deckA.togglePlayback();
+    console.debug('handlePlayPause');
+  }
+
+  /** Adds a prompt at no weight and scrolls to it. */
+  private async addPrompt(text: string): Promise<PromptController | null> {
+    const before = this.promptsSnapshot();
+    const newPromptId = `prompt-${this.nextPromptId++}`;
+    const usedColors = [...this.prompts.values()].map((p) => p.color);
+    const newPrompt: Prompt = {
+      promptId: newPromptId,
+      text,
+      weight: 0,
+      color: getUnusedRandomColor(usedColors),
+    };
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(newPromptId, newPrompt);
+    this.prompts = newPrompts;
+    this.recordPromptsEdit(before);
+    this.scheduleAutosave();
+
+    await this.setSessionPrompts();
+
+    // Wait for the component to update and render the new prompt.
+    // Do not dispatch the prompt change event until the user has edited the prompt text.
+    await this.updateComplete;
+
+    // Find the newly added prompt controller element
+    const newPromptElement = this.renderRoot.querySelector<PromptController>(
+      `prompt-controller[promptId="${newPromptId}"]`,
+    );
+    // Scroll the prompts container to the new prompt element
+    newPromptElement?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'nearest',
+      inline: 'end',
+    });
+    return newPromptElement;
+  }
+
+  private async handleAddPrompt() {
+    const newPromptElement = await this.addPrompt('New Prompt');
+    // Select the new prompt text
+    const textSpan =
+      newPromptElement?.shadowRoot?.querySelector<HTMLSpanElement>('#text');
+    if (textSpan) {
+      textSpan.focus();
+      const selection = window.getSelection();
+      const range = document.createRange();
+      range.selectNodeContents(textSpan);
+      selection?.removeAllRanges();
+      selection?.addRange(range);
     }
-    /* Add pseudo-elements for centering while keeping elements visible when scrolling */
-    #prompts-container::before,
-    #prompts-container::after {
-      content: '';
-      flex: 1;
-      min-width: 0.5vmin;
+  }
+
+  private handlePromptRemoved(e: CustomEvent<string>) {
+    e.stopPropagation();
+    const promptIdToRemove = e.detail;
+    if (this.prompts.has(promptIdToRemove)) {
+      const before = this.promptsSnapshot();
+      this.prompts.delete(promptIdToRemove);
+      if (this.automationLanes.delete(promptIdToRemove)) {
+        this.automationLanes = new Map(this.automationLanes);
+      }
+      const newPrompts = new Map(this.prompts);
+      this.prompts = newPrompts;
+      this.recordPromptsEdit(before);
+      this.setSessionPrompts();
+      this.scheduleAutosave();
+      this.dispatchPromptsChange();
+    } else {
+      console.warn(
+        `Attempted to remove non-existent prompt ID: ${promptIdToRemove}`,
+      );
     }
-    .add-prompt-button-container {
-      display: flex;
-      align-items: flex-end;
-      height: 100%;
-      flex-shrink: 0;
+  }
+
+  // Handle scrolling X-axis the prompts container.
+  private handlePromptsContainerWheel(e: WheelEvent) {
+    const container = e.currentTarget as HTMLElement;
+    if (e.deltaX !== 0) {
+      // Prevent the default browser action (like page back/forward)
+      e.preventDefault();
+      container.scrollLeft += e.deltaX;
     }
-    #settings-container {
-      flex: 1;
-      margin: 1vmin 0;
-      width: 100%;
-      max-width: 90vmin;
+  }
+
+  private handleSequencerChange(e: CustomEvent<SequencerChange>) {
+    if (e.detail.weight !== this.sequencerWeight) {
+      this.cancelMorph();
     }
-    .playback-container {
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      flex-shrink: 0;
+    const before = {bank: this.sequencerBank, weight: this.sequencerWeight};
+    const after = e.detail;
+    this.recordEdit({
+      undo: () => this.restoreSequencer(before),
+      redo: () => this.restoreSequencer(after),
+      mergeKey: after.mergeKey && `sequencer:${after.mergeKey}`,
+    });
+    this.restoreSequencer(after);
+  }
+
+  private setSequencerWeight(weight: number) {
+    this.cancelMorph();
+    this.sequencerWeight = weight;
+    this.setSessionPrompts();
+    this.scheduleAutosave();
+  }
+
+  private handleSettingsChange(e: CustomEvent<LiveMusicGenerationConfig>) {
+    const before = this.generationConfig;
+    const after = e.detail;
+    const keys = new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ]) as Set<keyof LiveMusicGenerationConfig>;
+    const changed = [...keys].filter((key) => before[key] !== after[key]);
+    if (changed.length > 0) {
+      this.recordEdit({
+        undo: () => this.settingsController.setConfig(before),
+        redo: () => this.settingsController.setConfig(after),
+        // Slider drags change one setting at a time.
+        mergeKey: changed.length === 1 ? `settings:${changed[0]}` : undefined,
+      });
     }
-    play-pause-button,
-    add-prompt-button,
-    reset-button {
-      width: 12vmin;
-      flex-shrink: 0;
+    this.generationConfig = e.detail;
+    this.deckA.setConfig(e.detail);
+    if (this.livePrompts) this.previewDeck.setConfig(e.detail);
+    if (e.detail.bpm) {
+      this.currentBpm = e.detail.bpm;
+      this.automationClock.setBpm(this.audioContext.currentTime, e.detail.bpm);
+      this.midiClockOut.setBpm(e.detail.bpm);
+      this.masterFx.setBpm(e.detail.bpm);
+      this.stepClock.setBpm(e.detail.bpm);
+      if (this.bpmSync) this.deckPanel?.matchBpm(e.detail.bpm);
     }
-    prompt-controller {
-      height: 100%;
-      max-height: 80vmin;
-      min-width: 14vmin;
-      max-width: 16vmin;
-      flex: 1;
+    this.scheduleAutosave();
+  }
+
+  private handleReset() {
+    this.settingsController.resetToDefaults();
+    this.toastMessage.show('Settings reset to default');
+  }
+
+  private handleRecordToggle() {
+    if (this.isRecording) {
+      this.isRecording = false;
+      return;
     }
-  `;
+    // Starting a new take discards the previous one.
+    this.recorder.clear();
+    this.recordedDuration = 0;
+    this.recordedBytes = 0;
+    this.isRecording = true;
+  }
 
-  @property({
-    type: Object,
-    attribute: false,
-  })
-  private prompts: Map<string, Prompt>;
-  private nextPromptId: number; // Monotonically increasing ID for new prompts
-  private session: LiveMusicSession;
-  private readonly sampleRate = 48000;
-  private audioContext = new (window.AudioContext ||
-    (window as any).webkitAudioContext)({sampleRate: this.sampleRate});
-  private outputNode: GainNode = this.audioContext.createGain();
-  private nextStartTime = 0;
-  private readonly bufferTime = 2; // adds an audio buffer in case of netowrk latency
-  @state() private playbackState: PlaybackState = 'stopped';
-  @property({type: Object})
-  private filteredPrompts = new Set<string>();
-  private connectionError = true;
-  @state() private activeTab: 'prompts' | 'beats' = 'prompts';
-  @state() private sequencerGrid: number[][] = [];
-  @state() private sequencerPanningGrid: number[][] = [];
-  @state() private sequencerWeight = 0.0;
-  @state() private currentBpm = 120;
+  private getRecordingMetadata(): RecordingMetadata {
+    const config = this.generationConfig;
+    return {
+      title: 'PromptDJ Session',
+      prompts: [...this.prompts.values()]
+        .filter((p) => p.weight > 0 && !this.filteredPrompts.has(p.text))
+        .map((p) => ({text: p.text, weight: p.weight})),
+      bpm: config.bpm,
+      scale: config.scale,
+      seed: config.seed,
+      date: new Date(),
+    };
+  }
 
-  @query('play-pause-button') private playPauseButton!: PlayPauseButton;
-  @query('toast-message') private toastMessage!: ToastMessage;
-  @query('settings-controller') private settingsController!: SettingsController;
-  @query('beat-sequencer') private beatSequencer!: BeatSequencer;
+  private exportRecording(format: 'wav' | 'flac') {
+    if (this.recorder.isEmpty) return;
+    const metadata = this.getRecordingMetadata();
+    const blob =
+      format === 'wav'
+        ? this.recorder.toWav(metadata)
+        : this.recorder.toFlac(metadata);
+    const stamp = metadata.date.toISOString().replace(/[:.]/g, '-');
+    downloadBlob(blob, `promptdj-${stamp}.${format}`);
+  }
 
-  constructor() {
-    super();
-    this.prompts = new Map<string, Prompt>();
-    this.nextPromptId = 0; // Initialize to a safe default
-    this.outputNode.connect(this.audioContext.destination);
-    this.initializeSequencer();
+  private renderConnectionStatus(deck: Deck) {
+    const status = deck.connectionStatus;
+    const attempt = deck.reconnectAttempt;
+    let label = 'Connected';
+    if (status === 'connecting') {
+      label =
+        attempt > 0 ? `Reconnecting (attempt ${attempt})…` : 'Connecting…';
+    } else if (status === 'waiting') {
+      label = 'Connection lost';
+    }
+    return html`<div class="connection-status ${status}">
+      <span class="dot"></span>
+      <span>${label}</span>
+      ${status === 'waiting'
+        ? html`<button @click=${() => deck.connect()}>RETRY</button>`
+        : ''}
+    </div>`;
   }
 
-  override async firstUpdated() {
-    this.nextPromptId = this.prompts.size; // Now `prompts` is set
-    await this.connectToSession();
+  private renderRecordingStatus() {
+    const classes = classMap({
+      'recording-status': true,
+      'recording': this.isRecording,
+    });
+    const hasTake = !this.isRecording && this.recordedBytes > 0;
+    return html`<div class=${classes}>
+      ${this.isRecording || hasTake
+        ? html`<span
+            >${formatDuration(this.recordedDuration)} ·
+            ${formatBytes(this.recordedBytes)}</span
+          >`
+        : ''}
+      ${hasTake
+        ? html`<button @click=${() => this.exportRecording('wav')}>WAV</button>
+            <button @click=${() => this.exportRecording('flac')}>FLAC</button>`
+        : ''}
+    </div>`;
+  }
+
+  private getProjectData(): ProjectData {
+    const promptIds = [...this.prompts.keys()];
+    return {
+      prompts: [...this.prompts.values()].map(({text, weight, color}) => ({
+        text,
+        weight,
+        color,
+      })),
+      sequencer: {...this.sequencerBank, weight: this.sequencerWeight},
+      config: this.settingsController.getConfig(),
+      automation: {
+        lengthBars: this.automationLength,
+        lanes: [...this.automationLanes]
+          .filter(([promptId]) => promptIds.includes(promptId))
+          .map(([promptId, lane]) => ({
+            prompt: promptIds.indexOf(promptId),
+            weights: lane.weights,
+            texts: lane.texts,
+          })),
+      },
+      fx: {...this.fxSettings},
+    };
+  }
+
+  private applyProject(data: ProjectData) {
+    const prompts = new Map<string, Prompt>();
+    data.prompts.forEach((p, i) => {
+      const promptId = `prompt-${i}`;
+      prompts.set(promptId, {promptId, ...p});
+    });
+    this.prompts = prompts;
+    this.nextPromptId = prompts.size;
+    // Scenes are not saved with projects, and the prompt IDs they hold
+    // belonged to the prompts just replaced.
+    this.cancelMorph();
+    this.scenes = Array(NUM_SCENE_SLOTS).fill(null);
+    this.activeScene = -1;
+    this.stopAutomation();
+    this.automationLength = data.automation.lengthBars;
+    this.automationLanes = new Map(
+      data.automation.lanes.map(({prompt, weights, texts}) => [
+        `prompt-${prompt}`,
+        {weights, texts},
+      ]),
+    );
+    const {weight, ...bank} = data.sequencer;
+    this.sequencerBank = bank;
+    this.sequencerWeight = weight;
+    this.settingsController.setConfig(data.config);
+    this.setFx(data.fx);
     this.setSessionPrompts();
+    this.dispatchPromptsChange();
+    // Undo cannot reach back past a whole new project.
+    this.history.clear();
   }
 
-  private initializeSequencer() {
-    const numTracks = 7;
-    const numSteps = 16;
-    this.sequencerGrid = Array.from({length: numTracks}, () =>
-      Array(numSteps).fill(0),
+  private handleExportProject() {
+    const blob = new Blob([serializeProject(this.getProjectData())], {
+      type: 'application/json',
+    });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(blob, `promptdj-project-${stamp}.json`);
+  }
+
+  private async handleImportProject(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so picking the same file again still fires a change event.
+    input.value = '';
+    if (!file) return;
+    try {
+      this.applyProject(parseProject(await file.text()));
+      this.toastMessage.show(`Loaded project "${file.name}"`);
+    } catch (err) {
+      const reason =
+        err instanceof ProjectValidationError
+          ? err.message
+          : 'The file could not be read.';
+      this.toastMessage.show(`Could not load project: ${reason}`);
+    }
+  }
+
+  private renderProjectControls() {
+    return html`<div class="project-controls">
+      <button
+        class=${classMap({active: this.twoDecks})}
+        @click=${() => this.setTwoDecks(!this.twoDecks)}>
+        TWO DECKS
+      </button>
+      <button
+        class=${classMap({active: this.showMidiPanel})}
+        @click=${() => (this.showMidiPanel = !this.showMidiPanel)}>
+        MIDI
+      </button>
+      <button
+        ?disabled=${!this.history.canUndo}
+        title="Undo (Ctrl+Z)"
+        @click=${this.undo}>
+        UNDO
+      </button>
+      <button
+        ?disabled=${!this.history.canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+        @click=${this.redo}>
+        REDO
+      </button>
+      <button @click=${this.handleExportProject}>SAVE PROJECT</button>
+      <button @click=${() => this.projectFileInput.click()}>
+        LOAD PROJECT
+      </button>
+      <input
+        type="file"
+        id="project-file"
+        accept=".json,application/json"
+        @change=${this.handleImportProject} />
+    </div>`;
+  }
+
+  private handleSceneStore(e: CustomEvent<{slot: number; name: string}>) {
+    const {slot, name} = e.detail;
+    const scenes = [...this.scenes];
+    scenes[slot] = captureScene(
+      name,
+      this.prompts.values(),
+      this.sequencerWeight,
+      this.settingsController.getConfig(),
     );
-    this.sequencerPanningGrid = Array.from({length: numTracks}, () =>
-      Array(numSteps).fill(0),
+    this.scenes = scenes;
+    this.activeScene = slot;
+  }
+
+  private handleSceneClear(e: CustomEvent<number>) {
+    const scenes = [...this.scenes];
+    scenes[e.detail] = null;
+    this.scenes = scenes;
+    if (this.activeScene === e.detail) this.activeScene = -1;
+  }
+
+  private handleSceneRecall(
+    e: CustomEvent<{slot: number; amount: number; unit: MorphUnit}>,
+  ) {
+    const {slot, amount, unit} = e.detail;
+    const scene = this.scenes[slot];
+    if (!scene) return;
+    this.activeScene = slot;
+    this.morphToScene(
+      scene,
+      morphDurationSeconds(amount, unit, this.currentBpm),
     );
-    this.sequencerWeight = 0;
   }
 
-  private async connectToSession() {
-    this.session = await ai.live.music.connect({
-      model: model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          console.log('Received message from the server: %s\n');
-          console.log(e);
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([
-              ...this.filteredPrompts,
-              e.filteredPrompt.text,
-            ]);
-            this.toastMessage.show(e.filteredPrompt.filteredReason);
-          }
-          if (e.serverContent?.audioChunks !== undefined) {
-            if (
-              this.playbackState === 'paused' ||
-              this.playbackState === 'stopped'
-            )
-              return;
-            const audioBuffer = await decodeAudioData(
-              decode(e.serverContent?.audioChunks[0].data),
-              this.audioContext,
-              48000,
-              2,
-            );
-            const source = this.audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(this.outputNode);
-            if (this.nextStartTime === 0) {
-              this.nextStartTime =
-                this.audioContext.currentTime + this.bufferTime;
-              setTimeout(() => {
-                this.playbackState = 'playing';
-              }, this.bufferTime * 1000);
-            }
-
-            if (this.nextStartTime < this.audioContext.currentTime) {
-              console.log('under run');
-              this.playbackState = 'loading';
-              this.nextStartTime = 0;
-              return;
-            }
-            source.start(this.nextStartTime);
-            this.nextStartTime += audioBuffer.duration;
-          }
-        },
-        onerror: (e: ErrorEvent) => {
-          console.log('Error occurred: %s\n', JSON.stringify(e));
-          this.connectionError = true;
-          this.stopAudio();
-          this.toastMessage.show('Connection error, please restart audio.');
-        },
-        onclose: (e: CloseEvent) => {
-          console.log('Connection closed.');
-          this.connectionError = true;
-          this.stopAudio();
-          this.toastMessage.show('Connection error, please restart audio.');
-        },
-      },
-    });
+  private cancelMorph() {
+    if (this.morphFrame !== undefined) {
+      cancelAnimationFrame(this.morphFrame);
+      this.morphFrame = undefined;
+    }
+  }
+
+  /**
+   * Interpolates every prompt weight and the sequencer weight towards
+   * `scene` over `seconds`, sending each step to the session. Generation
+   * settings are discrete, so they are applied once the morph lands.
+   */
+  private morphToScene(scene: Scene, seconds: number) {
+    this.cancelMorph();
+    const before = this.mixSnapshot();
+    const fromWeights = new Map(
+      [...this.prompts.values()].map((p) => [p.promptId, p.weight]),
+    );
+    const fromSequencerWeight = this.sequencerWeight;
+    const start = performance.now();
+
+    const step = () => {
+      const elapsed = (performance.now() - start) / 1000;
+      const t = seconds > 0 ? Math.min(1, elapsed / seconds) : 1;
+      const eased = easeInOut(t);
+
+      const newPrompts = new Map(this.prompts);
+      for (const [promptId, target] of Object.entries(scene.promptWeights)) {
+        const prompt = newPrompts.get(promptId);
+        const from = fromWeights.get(promptId);
+        if (!prompt || from === undefined) continue;
+        newPrompts.set(promptId, {
+          ...prompt,
+          weight: lerp(from, target, eased),
+        });
+      }
+      this.prompts = newPrompts;
+      this.sequencerWeight = lerp(
+        fromSequencerWeight,
+        scene.sequencerWeight,
+        eased,
+      );
+      this.setSessionPrompts();
+
+      if (t < 1) {
+        this.morphFrame = requestAnimationFrame(step);
+      } else {
+        this.morphFrame = undefined;
+        // The whole morph is undone as one edit, settings included.
+        this.history.ignore(() =>
+          this.settingsController.setConfig(scene.config),
+        );
+        const after = this.mixSnapshot();
+        this.recordEdit({
+          undo: () => this.restoreMix(before),
+          redo: () => this.restoreMix(after),
+        });
+        this.dispatchPromptsChange();
+        this.scheduleAutosave();
+      }
+    };
+    step();
+  }
+
+  private mixSnapshot(): MixSnapshot {
+    return {
+      prompts: this.promptsSnapshot(),
+      sequencerWeight: this.sequencerWeight,
+      config: this.generationConfig,
+    };
+  }
+
+  private restoreMix({prompts, sequencerWeight, config}: MixSnapshot) {
+    this.cancelMorph();
+    this.sequencerWeight = sequencerWeight;
+    this.restorePrompts(prompts);
+    this.settingsController.setConfig(config);
   }
 
-  private generateSequencerPrompt(): string {
-    if (this.sequencerWeight === 0) {
-      return '';
+  private recordAutomation(prompt: Prompt, text: string, weight: number) {
+    const bar = this.automationClock.barAt(this.audioContext.currentTime);
+    // Recorded into a copy, so undo snapshots keep the lane as it was.
+    const {weights, texts} =
+      this.automationLanes.get(prompt.promptId) ?? createLane();
+    const lane = {weights: [...weights], texts: [...texts]};
+    if (weight !== prompt.weight) {
+      const since = this.automationTouched.get(prompt.promptId);
+      recordWeight(lane, bar, weight, since);
+    }
+    if (text !== prompt.text) {
+      recordText(lane, bar, text);
     }
+    this.automationTouched.set(prompt.promptId, bar);
+    this.automationLanes = new Map(this.automationLanes).set(
+      prompt.promptId,
+      lane,
+    );
+  }
 
-    let description = 'A detailed drum machine pattern. ';
-    const instruments = [
-      'kick drum',
-      'snare drum',
-      'clap',
-      'closed hi-hat',
-      'open hi-hat',
-      'toms',
-      'percussion',
-    ];
-    // 1: soft, 2: medium, 3: loud
-    const velocityMap = {1: 'soft', 2: 'medium volume', 3: 'loud and punchy'};
-    let activeInstruments = 0;
-
-    this.sequencerGrid.forEach((track, i) => {
-      const activeSteps: {velocity: number; pan: number}[] = [];
-      track.forEach((velocity, stepIndex) => {
-        if (velocity > 0) {
-          activeSteps.push({
-            velocity,
-            pan: this.sequencerPanningGrid[i]?.[stepIndex] ?? 0,
-          });
-        }
-      });
+  private handleAutomationTransport(e: CustomEvent<AutomationTransport>) {
+    const transport = e.detail;
+    this.stopAutomation();
+    if (transport === 'idle') return;
+    this.audioContext.resume();
+    this.automationClock.start(this.audioContext.currentTime, this.currentBpm);
+    this.automationTouched.clear();
+    this.automationTransport = transport;
+    this.automationFrame = requestAnimationFrame(this.tickAutomation);
+  }
 
-      if (activeSteps.length > 0) {
-        activeInstruments++;
-        const avgVelocity =
-          activeSteps.reduce((a, b) => a + b.velocity, 0) /
-          activeSteps.length;
-        const velocityDescriptor =
-          avgVelocity < 1.5
-            ? velocityMap[1]
-            : avgVelocity < 2.5
-            ? velocityMap[2]
-            : velocityMap[3];
-
-        let instrumentDescription = `It features a ${velocityDescriptor} ${instruments[i]}`;
-
-        // Panning logic
-        const pans = activeSteps.map((step) => step.pan);
-        const numLeft = pans.filter((p) => p === -1).length;
-        const numRight = pans.filter((p) => p === 1).length;
-        const totalPanned = numLeft + numRight;
-
-        if (totalPanned / activeSteps.length > 0.5) {
-          // If more than half the hits are panned
-          if (numLeft > numRight * 2)
-            instrumentDescription += ' mostly panned left';
-          else if (numRight > numLeft * 2)
-            instrumentDescription += ' mostly panned right';
-          else if (numLeft > 0 && numRight > 0)
-            instrumentDescription += ' with wide stereo panning';
-        } else if (totalPanned > 0) {
-          // If some hits are panned
-          if (numLeft > 0 && numRight > 0)
-            instrumentDescription += ' with some stereo panning';
-          else if (numLeft > 0)
-            instrumentDescription += ' with some hits panned left';
-          else if (numRight > 0)
-            instrumentDescription += ' with some hits panned right';
-        }
+  private stopAutomation() {
+    if (this.automationFrame !== undefined) {
+      cancelAnimationFrame(this.automationFrame);
+      this.automationFrame = undefined;
+    }
+    this.automationTransport = 'idle';
+    this.automationTouched.clear();
+  }
 
-        description += instrumentDescription + '. ';
+  private tickAutomation = () => {
+    const now = this.audioContext.currentTime;
+    let bar = this.automationClock.barAt(now);
+    if (bar >= this.automationLength) {
+      if (this.automationLoop) {
+        bar %= this.automationLength;
+        this.automationClock.start(now, this.currentBpm, bar);
+        this.automationTouched.clear();
+      } else if (this.automationTransport === 'recording') {
+        // Recording past the end extends the arrangement.
+        this.automationLength = Math.ceil(bar);
+      } else {
+        this.automationBar = this.automationLength;
+        this.stopAutomation();
+        return;
       }
-    });
+    }
+    this.automationBar = bar;
+    this.applyAutomation(bar);
+    this.automationFrame = requestAnimationFrame(this.tickAutomation);
+  };
+
+  /** Moves prompts to their automated values, skipping lanes being recorded. */
+  private applyAutomation(bar: number) {
+    let changed = false;
+    const newPrompts = new Map(this.prompts);
+    for (const [promptId, lane] of this.automationLanes) {
+      const prompt = newPrompts.get(promptId);
+      if (!prompt || this.automationTouched.has(promptId)) continue;
+      const weight = weightAt(lane, bar) ?? prompt.weight;
+      const text = textAt(lane, bar) ?? prompt.text;
+      if (Math.abs(weight - prompt.weight) > 0.001 || text !== prompt.text) {
+        newPrompts.set(promptId, {...prompt, weight, text});
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.prompts = newPrompts;
+      this.setSessionPrompts();
+    }
+  }
+
+  private handleLaneChanged(
+    e: CustomEvent<{promptId: string; lane: AutomationLane}>,
+  ) {
+    this.automationLanes = new Map(this.automationLanes).set(
+      e.detail.promptId,
+      e.detail.lane,
+    );
+    this.scheduleAutosave();
+  }
+
+  private handleAutomationLength(e: CustomEvent<number>) {
+    this.automationLength = e.detail;
+    this.scheduleAutosave();
+  }
+
+  private handleAutomationClear() {
+    this.automationLanes = new Map();
+    this.scheduleAutosave();
+  }
+
+  private getMidiTargets(): MidiTarget[] {
+    return [
+      {id: 'transport:play', label: 'Play / Pause', kind: 'trigger'},
+      {id: 'transport:play-b', label: 'Play / Pause Deck B', kind: 'trigger'},
+      {id: 'transport:record', label: 'Record', kind: 'trigger'},
+      {id: 'transport:reset', label: 'Reset Settings', kind: 'trigger'},
+      // Prompts are mapped by position, as IDs change when a project loads.
+      ...[...this.prompts.values()].map(
+        (p, slot): MidiTarget => ({
+          id: `prompt:${slot}`,
+          label: p.text,
+          kind: 'continuous',
+        }),
+      ),
+      {id: 'sequencer:weight', label: 'Beat Weight', kind: 'continuous'},
+      {id: 'mixer:crossfader', label: 'Crossfader', kind: 'continuous'},
+      ...Object.entries(MIDI_SETTING_RANGES).map(
+        ([key, {label}]): MidiTarget => ({
+          id: `setting:${key}`,
+          label,
+          kind: 'continuous',
+        }),
+      ),
+      ...Object.entries(FX_PARAMS).map(
+        ([key, {label}]): MidiTarget => ({
+          id: `fx:${key}`,
+          label: `FX ${label}`,
+          kind: 'continuous',
+        }),
+      ),
+      ...Object.entries(FX_SWITCHES).map(
+        ([key, label]): MidiTarget => ({
+          id: `fx:${key}`,
+          label: `FX ${label}`,
+          kind: 'trigger',
+        }),
+      ),
+    ];
+  }
+
+  /** The prompt at position `slot` of a MIDI target, if there is one. */
+  private promptAtSlot(slot: string): Prompt | undefined {
+    return [...this.prompts.values()][Number(slot)];
+  }
 
-    if (activeInstruments === 0) return '';
-    return description;
+  /** Returns a continuous target's value normalized to 0-1. */
+  private getMidiTargetValue(target: string): number | undefined {
+    const [kind, key] = target.split(/:(.*)/);
+    if (kind === 'prompt') {
+      const prompt = this.promptAtSlot(key);
+      return prompt ? prompt.weight / 2 : undefined;
+    }
+    if (kind === 'sequencer') {
+      return this.sequencerWeight / 2;
+    }
+    if (kind === 'mixer') {
+      return this.crossfader;
+    }
+    if (kind === 'setting' && key in MIDI_SETTING_RANGES) {
+      const {min, max} = MIDI_SETTING_RANGES[key as MidiSettingKey];
+      const value = this.settingsController.getConfig()[key as MidiSettingKey];
+      // Auto density and brightness sit at the middle of their sliders.
+      return ((value ?? (min + max) / 2) - min) / (max - min);
+    }
+    if (kind === 'fx' && key in FX_PARAMS) {
+      const {min, max} = FX_PARAMS[key as FxParam];
+      return (this.fxSettings[key as FxParam] - min) / (max - min);
+    }
+    return undefined;
   }
 
-  private setSessionPrompts = throttle(async () => {
-    const promptsToSend = Array.from(this.prompts.values()).filter((p) => {
-      return !this.filteredPrompts.has(p.text) && p.weight !== 0;
-    });
+  private setMidiTargetValue(target: string, value: number) {
+    const [kind, key] = target.split(/:(.*)/);
+    if (kind === 'prompt') {
+      const prompt = this.promptAtSlot(key);
+      if (prompt) this.updatePrompt({...prompt, weight: value * 2});
+    } else if (kind === 'sequencer') {
+      this.setSequencerWeight(value * 2);
+    } else if (kind === 'mixer') {
+      this.setCrossfader(value);
+    } else if (kind === 'setting' && key in MIDI_SETTING_RANGES) {
+      const settingKey = key as MidiSettingKey;
+      const {min, max} = MIDI_SETTING_RANGES[settingKey];
+      let scaled = min + value * (max - min);
+      if (settingKey === 'topK') scaled = Math.round(scaled);
+      this.settingsController.setParameter(settingKey, scaled);
+    } else if (kind === 'fx' && key in FX_PARAMS) {
+      const {min, max} = FX_PARAMS[key as FxParam];
+      this.setFx({[key]: min + value * (max - min)});
+    }
+  }
 
-    const sequencerPromptText = this.generateSequencerPrompt();
-    if (sequencerPromptText && this.sequencerWeight > 0) {
-      promptsToSend.push({
-        promptId: 'prompt-sequencer',
-        text: sequencerPromptText,
-        weight: this.sequencerWeight,
-        color: '#ff0044', // not used for background, but required by type
-      });
+  private triggerMidiTarget(target: string) {
+    if (target === 'transport:play') {
+      this.handlePlayPause();
+    } else if (target === 'transport:play-b') {
+      if (this.twoDecks) this.deckB.togglePlayback();
+    } else if (target === 'transport:record') {
+      this.handleRecordToggle();
+    } else if (target === 'transport:reset') {
+      this.handleReset();
+    } else if (target.startsWith('fx:')) {
+      const key = target.slice(3) as FxSwitch;
+      if (key in FX_SWITCHES) this.setFx({[key]: !this.fxSettings[key]});
     }
+  }
 
+  private async handleMidiEnable() {
+    if (this.midi.enabled) return;
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: promptsToSend,
-      });
+      await this.midi.enable();
     } catch (e) {
-      this.toastMessage.show(e.message);
-      this.pauseAudio();
+      this.toastMessage.show(`Could not enable MIDI: ${(e as Error).message}`);
+      return;
     }
-  }, 200);
+    this.midiClockIn.attach(this.midi.midiAccess!);
+  }
 
-  private dispatchPromptsChange() {
-    this.dispatchEvent(
-      new CustomEvent('prompts-changed', {detail: this.prompts}),
+  /** Refreshes the output list and the outputs clock is sent to. */
+  private updateMidiOutputs() {
+    const outputs = [...(this.midi.midiAccess?.outputs.values() ?? [])];
+    this.midiOutputs = outputs.map((o) => ({
+      id: o.id,
+      name: o.name ?? o.id,
+    }));
+    this.midiClockOut.setOutputs(
+      outputs.filter(
+        (o) => this.midiClockOutput === '*' || o.id === this.midiClockOutput,
+      ),
     );
   }
 
-  private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const {promptId, text, weight} = e.detail;
-    const prompt = this.prompts.get(promptId);
-
-    if (!prompt) {
-      console.error('prompt not found', promptId);
-      return;
+  private handleIncomingBpm(bpm: number) {
+    this.incomingBpm = bpm;
+    if (!this.followMidiClock) return;
+    const clamped = Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+    if (clamped !== this.generationConfig.bpm) {
+      this.settingsController.setParameter('bpm', clamped);
     }
+  }
 
-    prompt.text = text;
-    prompt.weight = weight;
-
-    const newPrompts = new Map(this.prompts);
-    newPrompts.set(promptId, prompt);
-
-    this.prompts = newPrompts;
-
-    this.setSessionPrompts();
+  private loadMidiClockSettings() {
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(MIDI_CLOCK_STORAGE_KEY) ?? '{}',
+      );
+      this.midiClockOutput = String(stored.output ?? '');
+      this.followMidiClock = Boolean(stored.follow);
+    } catch (e) {
+      console.warn('Ignoring unreadable MIDI clock settings', e);
+    }
+  }
 
-    this.requestUpdate();
-    this.dispatchPromptsChange();
+  private saveMidiClockSettings() {
+    localStorage.setItem(
+      MIDI_CLOCK_STORAGE_KEY,
+      JSON.stringify({
+        output: this.midiClockOutput,
+        follow: this.followMidiClock,
+      }),
+    );
   }
 
-  private makeBackground() {
-    const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
-    const bg: string[] = [];
+  private handleMidiClockOutput(e: CustomEvent<string>) {
+    this.midiClockOutput = e.detail;
+    this.updateMidiOutputs();
+    this.saveMidiClockSettings();
+  }
 
-    [...this.prompts.values()].forEach((p, i) => {
-      if (p.weight <= 0.01) return;
+  private handleMidiClockFollow(e: CustomEvent<boolean>) {
+    this.followMidiClock = e.detail;
+    this.saveMidiClockSettings();
+    if (this.followMidiClock && this.incomingBpm !== undefined) {
+      this.handleIncomingBpm(this.incomingBpm);
+    }
+  }
 
-      const intensity = clamp01(p.weight / 1.5);
-      const stop = (p.weight / 2) * 100;
-      const x = ((i % 4) / 3) * 100;
-      const y = (Math.floor(i / 4) / 3) * 100;
+  private loadBufferSettings() {
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(BUFFER_STORAGE_KEY) ?? '{}',
+      );
+      if (stored.mode === 'custom' && stored.bounds) {
+        this.setBuffer('custom', stored.bounds);
+      } else if (stored.mode in BUFFER_PRESETS) {
+        this.setBuffer(
+          stored.mode,
+          BUFFER_PRESETS[stored.mode as keyof typeof BUFFER_PRESETS],
+        );
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable buffer settings', e);
+    }
+  }
 
-      const whiteAlpha = (intensity * 0.4).toFixed(2);
-      const colorAlphaHex = Math.round(intensity * 200)
-        .toString(16)
-        .padStart(2, '0');
+  private setBuffer(mode: BufferMode, bounds: BufferBounds) {
+    this.bufferMode = mode;
+    this.bufferBounds = bounds;
+    this.deckA.setBufferBounds(bounds);
+    this.deckB.setBufferBounds(bounds);
+    this.previewDeck.setBufferBounds(bounds);
+  }
 
-      const s = `radial-gradient(circle at ${x}% ${y}%, rgba(255, 255, 255, ${whiteAlpha}) 0%, ${
-        p.color
-      }${colorAlphaHex} ${stop * 0.1}%, ${p.color}00 ${stop}%)`;
-      bg.push(s);
-    });
+  private loadDrumSettings() {
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(DRUMS_STORAGE_KEY) ?? '{}',
+      );
+      this.setDrums(
+        stored.enabled === true,
+        typeof stored.level === 'number' ? stored.level : this.drumLevel,
+      );
+    } catch (e) {
+      console.warn('Ignoring unreadable drum settings', e);
+    }
+  }
 
-    // Add a glow for the sequencer from the bottom
-    if (this.sequencerWeight > 0) {
-      const intensity = clamp01(this.sequencerWeight / 1.5);
-      const color = '#ff0044';
-      const alphaHex = Math.round(intensity * 0.7 * 255)
-        .toString(16)
-        .padStart(2, '0');
+  private setDrums(enabled: boolean, level: number) {
+    this.localDrums = enabled;
+    this.drumLevel = level;
+    this.drums.enabled = enabled;
+    this.drums.output.gain.value = level;
+    localStorage.setItem(DRUMS_STORAGE_KEY, JSON.stringify({enabled, level}));
+  }
 
-      const s = `radial-gradient(ellipse at 50% 150%, ${color}${alphaHex} 0%, ${color}00 70%)`;
-      bg.push(s);
+  private loadUserPresets() {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (!stored) return;
+    try {
+      this.userPresets = parsePresets(stored);
+    } catch (e) {
+      console.warn('Ignoring unreadable sequencer presets', e);
     }
+  }
 
-    return bg.join(', ');
+  private handleUserPresets(e: CustomEvent<UserPreset[]>) {
+    this.userPresets = e.detail;
+    localStorage.setItem(PRESETS_STORAGE_KEY, serializePresets(e.detail));
   }
 
-  private async handlePlayPause() {
-    if (this.playbackState === 'playing') {
-      this.pauseAudio();
-    } else if (
-      this.playbackState === 'paused' ||
-      this.playbackState === 'stopped'
-    ) {
-      if (this.connectionError) {
-        await this.connectToSession();
-        this.setSessionPrompts();
-      }
-      this.loadAudio();
-    } else if (this.playbackState === 'loading') {
-      this.stopAudio();
+  private loadLibrary() {
+    const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    if (!stored) return;
+    try {
+      this.library = restoreLibrary(JSON.parse(stored));
+    } catch (e) {
+      console.warn('Ignoring unreadable prompt library', e);
     }
-    console.debug('handlePlayPause');
   }
 
-  private pauseAudio() {
-    this.session.pause();
-    this.playbackState = 'paused';
-    this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(
-      0,
-      this.audioContext.currentTime + 0.1,
-    );
-    this.nextStartTime = 0;
-    this.outputNode = this.audioContext.createGain();
-    this.outputNode.connect(this.audioContext.destination);
+  private setLibrary(library: PromptLibrary) {
+    this.library = library;
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
   }
 
-  private loadAudio() {
-    this.audioContext.resume();
-    this.session.play();
-    this.playbackState = 'loading';
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(
-      1,
-      this.audioContext.currentTime + 0.1,
-    );
+  private renderLibrary() {
+    if (!this.showLibrary) return '';
+    return html`<prompt-library
+      .library=${this.library}
+      @library-changed=${(e: CustomEvent<PromptLibrary>) =>
+        this.setLibrary(e.detail)}
+      @library-add-prompt=${(e: CustomEvent<string>) =>
+        this.addPrompt(e.detail)}
+      @close=${() => (this.showLibrary = false)}></prompt-library>`;
   }
 
-  private stopAudio() {
-    this.session.stop();
-    this.playbackState = 'stopped';
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(
-      1,
-      this.audioContext.currentTime + 0.1,
+  private saveBufferSettings() {
+    localStorage.setItem(
+      BUFFER_STORAGE_KEY,
+      JSON.stringify({mode: this.bufferMode, bounds: this.bufferBounds}),
     );
-    this.nextStartTime = 0;
   }
 
-  private async handleAddPrompt() {
-    const newPromptId = `prompt-${this.nextPromptId++}`;
-    const usedColors = [...this.prompts.values()].map((p) => p.color);
-    const newPrompt: Prompt = {
-      promptId: newPromptId,
-      text: 'New Prompt', // Default text
-      weight: 0,
-      color: getUnusedRandomColor(usedColors),
-    };
-    const newPrompts = new Map(this.prompts);
-    newPrompts.set(newPromptId, newPrompt);
-    this.prompts = newPrompts;
-
-    await this.setSessionPrompts();
-
-    // Wait for the component to update and render the new prompt.
-    // Do not dispatch the prompt change event until the user has edited the prompt text.
-    await this.updateComplete;
-
-    // Find the newly added prompt controller element
-    const newPromptElement = this.renderRoot.querySelector<PromptController>(
-      `prompt-controller[promptId="${newPromptId}"]`,
+  private handleBufferMode(e: CustomEvent<BufferMode>) {
+    const mode = e.detail;
+    this.setBuffer(
+      mode,
+      mode === 'custom' ? this.bufferBounds : BUFFER_PRESETS[mode],
     );
-    if (newPromptElement) {
-      // Scroll the prompts container to the new prompt element
-      newPromptElement.scrollIntoView({
-        behavior: 'smooth',
-        block: 'nearest',
-        inline: 'end',
-      });
-
-      // Select the new prompt text
-      const textSpan =
-        newPromptElement.shadowRoot?.querySelector<HTMLSpanElement>('#text');
-      if (textSpan) {
-        textSpan.focus();
-        const selection = window.getSelection();
-        const range = document.createRange();
-        range.selectNodeContents(textSpan);
-        selection?.removeAllRanges();
-        selection?.addRange(range);
-      }
-    }
+    this.saveBufferSettings();
   }
 
-  private handlePromptRemoved(e: CustomEvent<string>) {
-    e.stopPropagation();
-    const promptIdToRemove = e.detail;
-    if (this.prompts.has(promptIdToRemove)) {
-      this.prompts.delete(promptIdToRemove);
-      const newPrompts = new Map(this.prompts);
-      this.prompts = newPrompts;
-      this.setSessionPrompts();
-      this.dispatchPromptsChange();
-    } else {
-      console.warn(
-        `Attempted to remove non-existent prompt ID: ${promptIdToRemove}`,
-      );
-    }
+  private handleBufferBounds(e: CustomEvent<BufferBounds>) {
+    this.setBuffer('custom', e.detail);
+    this.saveBufferSettings();
   }
 
-  // Handle scrolling X-axis the prompts container.
-  private handlePromptsContainerWheel(e: WheelEvent) {
-    const container = e.currentTarget as HTMLElement;
-    if (e.deltaX !== 0) {
-      // Prevent the default browser action (like page back/forward)
-      e.preventDefault();
-      container.scrollLeft += e.deltaX;
+  private handleMidiLearn(e: CustomEvent<string | null>) {
+    if (e.detail) {
+      this.midi.startLearn(e.detail);
+    } else {
+      this.midi.cancelLearn();
     }
   }
 
-  private handleSequencerChange(
-    e: CustomEvent<{
-      grid: number[][];
-      panningGrid: number[][];
-      weight: number;
-    }>,
-  ) {
-    this.sequencerGrid = e.detail.grid;
-    this.sequencerPanningGrid = e.detail.panningGrid;
-    this.sequencerWeight = e.detail.weight;
-    this.setSessionPrompts();
-    this.requestUpdate();
-  }
-
-  private handleSettingsChange(e: CustomEvent<LiveMusicGenerationConfig>) {
-    this.session.setMusicGenerationConfig({musicGenerationConfig: e.detail});
-    if (e.detail.bpm) {
-      this.currentBpm = e.detail.bpm;
-    }
+  private renderMidiPanel() {
+    if (!this.showMidiPanel) return '';
+    return html`<midi-panel
+      .targets=${this.getMidiTargets()}
+      .mappings=${this.midiMappings}
+      .learnTarget=${this.midiLearnTarget}
+      .enabled=${this.midi.enabled}
+      .outputs=${this.midiOutputs}
+      .clockOutput=${this.midiClockOutput}
+      .followClock=${this.followMidiClock}
+      .incomingBpm=${this.incomingBpm}
+      @midi-enable=${this.handleMidiEnable}
+      @midi-clock-output=${this.handleMidiClockOutput}
+      @midi-clock-follow=${this.handleMidiClockFollow}
+      @midi-learn=${this.handleMidiLearn}
+      @midi-mapping-update=${(
+        e: CustomEvent<{
+          target: string;
+          changes: Partial<Pick<MidiMapping, 'mode' | 'softTakeover'>>;
+        }>,
+      ) => this.midi.updateMapping(e.detail.target, e.detail.changes)}
+      @midi-mapping-remove=${(e: CustomEvent<string>) =>
+        this.midi.removeMapping(e.detail)}
+      @close=${() => {
+        this.midi.cancelLearn();
+        this.showMidiPanel = false;
+      }}></midi-panel>`;
   }
 
-  private handleReset() {
-    this.settingsController.resetToDefaults();
-    this.toastMessage.show('Settings reset to default');
+  private renderRestorePrompt() {
+    if (this.restoreCandidates.length === 0) return '';
+    return html`<div class="restore-overlay">
+      <div class="restore-panel">
+        <h2>Restore last session?</h2>
+        <ul>
+          ${this.restoreCandidates.map(
+            (entry) => html`<li>
+              <button @click=${() => this.restoreAutosave(entry)}>
+                <span>${new Date(entry.savedAt).toLocaleString()}</span>
+                <span class="summary">${entry.summary}</span>
+              </button>
+            </li>`,
+          )}
+        </ul>
+        <button @click=${this.dismissRestore}>Start fresh</button>
+      </div>
+    </div>`;
   }
 
   private renderPromptsArea() {
     return html`
       <div class="prompts-area">
+        ${this.renderLibrary()}
         <div
           id="prompts-container"
           @wheel=${this.handlePromptsContainerWheel}>
@@ -2265,6 +6556,15 @@ class PromptDj extends LitElement {
           )}
         </div>
         <div class="add-prompt-button-container">
+          ${this.renderPreviewControls()}
+          <button
+            class=${classMap({
+              'library-button': true,
+              active: this.showLibrary,
+            })}
+            @click=${() => (this.showLibrary = !this.showLibrary)}>
+            LIBRARY
+          </button>
           <add-prompt-button
             @click=${this.handleAddPrompt}></add-prompt-button>
         </div>
@@ -2276,11 +6576,22 @@ class PromptDj extends LitElement {
     return html`
       <div class="beats-area">
         <beat-sequencer
-          .grid=${this.sequencerGrid}
-          .panningGrid=${this.sequencerPanningGrid}
+          .bank=${this.sequencerBank}
           .weight=${this.sequencerWeight}
-          .playbackState=${this.playbackState}
+          .playingPattern=${this.playingPattern}
+          .playingEntry=${this.playingEntry}
+          .playbackState=${this.deckA.playbackState}
+          .clock=${this.stepClock}
           .bpm=${this.currentBpm}
+          .userPresets=${this.userPresets}
+          drumEngine
+          .localDrums=${this.localDrums}
+          .drumLevel=${this.drumLevel}
+          @local-drums=${(e: CustomEvent<boolean>) =>
+            this.setDrums(e.detail, this.drumLevel)}
+          @drum-level=${(e: CustomEvent<number>) =>
+            this.setDrums(this.localDrums, e.detail)}
+          @user-presets-changed=${this.handleUserPresets}
           @sequencer-changed=${
             this.handleSequencerChange
           }></beat-sequencer>
@@ -2288,11 +6599,270 @@ class PromptDj extends LitElement {
     `;
   }
 
+  private setFx(changes: Partial<FxSettings>) {
+    this.fxSettings = {...this.fxSettings, ...changes};
+    this.masterFx.set(changes);
+    this.scheduleAutosave();
+  }
+
+  private renderFxArea() {
+    return html`
+      <div class="fx-area">
+        <fx-rack
+          .settings=${this.fxSettings}
+          .bpm=${this.currentBpm}
+          @fx-changed=${(e: CustomEvent<Partial<FxSettings>>) =>
+            this.setFx(e.detail)}></fx-rack>
+      </div>
+    `;
+  }
+
+  private async setTwoDecks(enabled: boolean) {
+    this.twoDecks = enabled;
+    this.applyCrossfader();
+    if (!enabled) {
+      this.deckB.disconnect();
+      this.setCue('off');
+      if (this.activeTab === 'deck-b') this.activeTab = 'prompts';
+      return;
+    }
+    this.deckB.connect();
+    if (this.bpmSync) {
+      await this.updateComplete;
+      this.deckPanel?.matchBpm(this.currentBpm);
+    }
+  }
+
+  private applyCrossfader() {
+    // Deck A plays alone outside two-deck mode.
+    this.mixer.setCrossfader(
+      this.twoDecks ? this.crossfader : 0,
+      this.crossfadeCurve,
+    );
+  }
+
+  private setCrossfader(position: number) {
+    this.crossfader = position;
+    this.applyCrossfader();
+  }
+
+  private setCue(source: CueSource) {
+    this.cueSource = source;
+    this.mixer.setCue(source);
+    if (source !== 'off') this.cueBus.start();
+  }
+
+  private setBpmSync(sync: boolean) {
+    this.bpmSync = sync;
+    if (sync) this.deckPanel?.matchBpm(this.currentBpm);
+  }
+
+  private handleDeckBConfig(e: CustomEvent<LiveMusicGenerationConfig>) {
+    this.deckBBpm = e.detail.bpm;
+    if (e.detail.bpm) this.deckBClock.setBpm(e.detail.bpm);
+    this.deckB.setConfig(e.detail);
+  }
+
+  private renderMixer() {
+    if (!this.twoDecks) return '';
+    return html`<div class="mixer-container">
+      <crossfader-control
+        .position=${this.crossfader}
+        .curve=${this.crossfadeCurve}
+        .cue=${this.cueSource}
+        .cueReady=${this.cueDevice !== ''}
+        .bpmA=${this.generationConfig.bpm}
+        .bpmB=${this.deckBBpm}
+        .bpmSync=${this.bpmSync}
+        @crossfader=${(e: CustomEvent<number>) => this.setCrossfader(e.detail)}
+        @crossfade-curve=${(e: CustomEvent<CrossfadeCurve>) => {
+          this.crossfadeCurve = e.detail;
+          this.applyCrossfader();
+        }}
+        @cue-source=${(e: CustomEvent<CueSource>) => this.setCue(e.detail)}
+        @bpm-sync=${(e: CustomEvent<boolean>) =>
+          this.setBpmSync(e.detail)}></crossfader-control>
+      ${this.renderConnectionStatus(this.deckB)}
+      <play-pause-button
+        title="Play / pause deck B"
+        .playbackState=${this.deckB.playbackState}
+        @click=${() => this.deckB.togglePlayback()}></play-pause-button>
+    </div>`;
+  }
+
+  private async refreshOutputDevices() {
+    try {
+      this.outputDevices = await listOutputDevices();
+    } catch (e) {
+      console.warn('Could not list output devices', e);
+    }
+  }
+
+  /** A remembered device that is missing leaves its output at the default. */
+  private async loadOutputSettings() {
+    let stored: {output?: string; cue?: string};
+    try {
+      stored = JSON.parse(localStorage.getItem(OUTPUT_STORAGE_KEY) ?? '{}');
+    } catch (e) {
+      console.warn('Ignoring unreadable output settings', e);
+      return;
+    }
+    await this.refreshOutputDevices();
+    if (stored.output && canChooseMainOutput(this.audioContext)) {
+      await this.setOutput(stored.output);
+    }
+    if (stored.cue && CueBus.supported) {
+      await this.setCueDevice(stored.cue);
+    }
+  }
+
+  private saveOutputSettings() {
+    localStorage.setItem(
+      OUTPUT_STORAGE_KEY,
+      JSON.stringify({output: this.mainOutput, cue: this.cueDevice}),
+    );
+  }
+
+  private async setOutput(deviceId: string): Promise<boolean> {
+    try {
+      await setMainOutput(this.audioContext, deviceId);
+      this.mainOutput = deviceId;
+      return true;
+    } catch (e) {
+      console.warn('Could not switch the output device', e);
+      return false;
+    }
+  }
+
+  private async setCueDevice(deviceId: string): Promise<boolean> {
+    try {
+      await this.cueBus.setDevice(deviceId);
+      this.cueDevice = deviceId;
+    } catch (e) {
+      console.warn('Could not switch the cue device', e);
+      return false;
+    }
+    if (!this.cueBus.ready) {
+      this.setCue('off');
+      if (this.livePrompts) this.discardPreview();
+    }
+    return true;
+  }
+
+  private async handleOutputDevice(e: CustomEvent<string>) {
+    if (await this.setOutput(e.detail)) {
+      this.saveOutputSettings();
+    } else {
+      this.toastMessage.show('Could not use that output device');
+    }
+  }
+
+  private async handleCueDevice(e: CustomEvent<string>) {
+    if (await this.setCueDevice(e.detail)) {
+      this.saveOutputSettings();
+    } else {
+      this.toastMessage.show('Could not use that device for the cue');
+    }
+  }
+
+  private async handleFindOutputs() {
+    try {
+      if (canSelectOutput()) {
+        const device = await selectOutputDevice();
+        await this.refreshOutputDevices();
+        if (device && !this.outputDevices.some((d) => d.id === device.id)) {
+          this.outputDevices = [...this.outputDevices, device];
+        }
+      } else {
+        await unlockOutputDevices();
+        await this.refreshOutputDevices();
+      }
+    } catch (e) {
+      console.warn('Could not find output devices', e);
+      this.toastMessage.show('Could not list output devices');
+    }
+  }
+
+  /**
+   * Holds deck A on its current prompts and plays further prompt changes
+   * on the cue, from a session of their own, until they are committed or
+   * discarded.
+   */
+  private startPreview() {
+    this.livePrompts = new Map(
+      [...this.prompts].map(([id, prompt]) => [id, {...prompt}]),
+    );
+    this.previewDeck.setConfig(this.generationConfig);
+    this.setSessionPrompts();
+    this.cueBus.start();
+    this.previewDeck.connect();
+    this.previewDeck.togglePlayback();
+  }
+
+  private commitPreview() {
+    this.livePrompts = undefined;
+    this.previewDeck.disconnect();
+    this.setSessionPrompts();
+  }
+
+  private discardPreview() {
+    this.prompts = this.livePrompts!;
+    this.livePrompts = undefined;
+    this.previewDeck.disconnect();
+    this.setSessionPrompts();
+    this.scheduleAutosave();
+    this.dispatchPromptsChange();
+  }
+
+  private renderPreviewControls() {
+    if (!CueBus.supported) return '';
+    if (!this.livePrompts) {
+      return html`<div class="preview-controls">
+        <button
+          title=${this.cueDevice
+            ? 'Try prompt changes on the cue before they go live'
+            : 'Choose a cue output first'}
+          ?disabled=${!this.cueDevice}
+          @click=${this.startPreview}>
+          PREVIEW
+        </button>
+      </div>`;
+    }
+    const status =
+      this.previewDeck.playbackState === 'playing' ? 'On cue' : 'Loading cue…';
+    return html`<div class="preview-controls">
+      <span>${status}</span>
+      <button @click=${this.commitPreview}>COMMIT</button>
+      <button @click=${this.discardPreview}>DISCARD</button>
+    </div>`;
+  }
+
+  private renderAutomationArea() {
+    return html`
+      <div class="automation-area">
+        <automation-lanes
+          .prompts=${[...this.prompts.values()]}
+          .lanes=${this.automationLanes}
+          .lengthBars=${this.automationLength}
+          .playheadBar=${this.automationBar}
+          .transport=${this.automationTransport}
+          .loop=${this.automationLoop}
+          @automation-transport=${this.handleAutomationTransport}
+          @automation-loop=${(e: CustomEvent<boolean>) =>
+            (this.automationLoop = e.detail)}
+          @automation-length=${this.handleAutomationLength}
+          @automation-clear=${this.handleAutomationClear}
+          @lane-changed=${this.handleLaneChanged}></automation-lanes>
+      </div>
+    `;
+  }
+
   override render() {
     const backgroundStyle = styleMap({backgroundImage: this.makeBackground()});
     return html`
       <div id="background" style=${backgroundStyle}></div>
       <toast-message></toast-message>
+      ${this.renderRestorePrompt()} ${this.renderMidiPanel()}
       <div class="main-content">
         <div class="tabs">
           <button
@@ -2305,24 +6875,93 @@ class PromptDj extends LitElement {
             @click=${() => (this.activeTab = 'beats')}>
             Beats
           </button>
+          <button
+            class=${classMap({active: this.activeTab === 'automation'})}
+            @click=${() => (this.activeTab = 'automation')}>
+            Automation
+          </button>
+          <button
+            class=${classMap({active: this.activeTab === 'fx'})}
+            @click=${() => (this.activeTab = 'fx')}>
+            FX
+          </button>
+          ${this.twoDecks
+            ? html`<button
+                class=${classMap({active: this.activeTab === 'deck-b'})}
+                @click=${() => (this.activeTab = 'deck-b')}>
+                Deck B
+              </button>`
+            : ''}
+          ${this.renderProjectControls()}
         </div>
         ${
           this.activeTab === 'prompts'
             ? this.renderPromptsArea()
-            : this.renderBeatsArea()
+            : this.activeTab === 'beats'
+            ? this.renderBeatsArea()
+            : this.activeTab === 'automation'
+            ? this.renderAutomationArea()
+            : this.activeTab === 'fx'
+            ? this.renderFxArea()
+            : ''
         }
+        ${this.twoDecks
+          ? html`<deck-panel
+              ?hidden=${this.activeTab !== 'deck-b'}
+              .playbackState=${this.deckB.playbackState}
+              .clock=${this.deckBClock}
+              .filteredPrompts=${this.filteredPrompts}
+              .userPresets=${this.userPresets}
+              @user-presets-changed=${this.handleUserPresets}
+              @deck-prompts-changed=${(e: CustomEvent<Prompt[]>) =>
+                this.deckB.setPrompts(e.detail)}
+              @deck-config-changed=${this.handleDeckBConfig}></deck-panel>`
+          : ''}
       </div>
+      <scene-bar
+        .scenes=${this.scenes}
+        .activeSlot=${this.activeScene}
+        @scene-store=${this.handleSceneStore}
+        @scene-recall=${this.handleSceneRecall}
+        @scene-clear=${this.handleSceneClear}></scene-bar>
+      ${this.renderMixer()}
       <div id="settings-container">
         <settings-controller
           @settings-changed=${
             this.handleSettingsChange
           }></settings-controller>
       </div>
+      <audio-visualizer
+        .analyser=${this.outputAnalyser}
+        .pulse=${this.pulseBackground}
+        @pulse-changed=${(e: CustomEvent<boolean>) =>
+          this.setPulseBackground(e.detail)}></audio-visualizer>
       <div class="playback-container">
+        <output-picker
+          .devices=${this.outputDevices}
+          .output=${this.mainOutput}
+          .cue=${this.cueDevice}
+          .outputSupported=${canChooseMainOutput(this.audioContext)}
+          .cueSupported=${CueBus.supported}
+          @output-device=${this.handleOutputDevice}
+          @cue-device=${this.handleCueDevice}
+          @output-find=${this.handleFindOutputs}></output-picker>
+        <buffer-control
+          .mode=${this.bufferMode}
+          .bounds=${this.bufferBounds}
+          .target=${this.deckA.jitterBuffer.target}
+          .jitter=${this.deckA.jitterBuffer.jitter}
+          @buffer-mode=${this.handleBufferMode}
+          @buffer-bounds=${this.handleBufferBounds}></buffer-control>
+        ${this.renderConnectionStatus(this.deckA)}
         <reset-button @click=${this.handleReset}></reset-button>
         <play-pause-button
-          .playbackState=${this.playbackState}
+          .playbackState=${this.deckA.playbackState}
           @click=${this.handlePlayPause}></play-pause-button>
+        <record-button
+          .recording=${this.isRecording}
+          @click=${this.handleRecordToggle}></record-button>
+        ${this.renderRecordingStatus()}
       </div>
     `;
   }
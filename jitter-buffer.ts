@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Adaptive playback latency for streamed audio chunks.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Latency limits for the buffer (s). */
+export interface BufferBounds {
+  min: number;
+  max: number;
+}
+
+export type BufferMode = 'low-latency' | 'balanced' | 'safe' | 'custom';
+
+export const BUFFER_PRESETS: Record<
+  Exclude<BufferMode, 'custom'>,
+  BufferBounds
+> = {
+  'low-latency': {min: 0.25, max: 1},
+  'balanced': {min: 0.5, max: 3},
+  'safe': {min: 2, max: 8},
+};
+
+/** Latency used until jitter has been measured (s). */
+const INITIAL_TARGET = 2;
+/** Number of recent chunks the jitter is measured over. */
+const WINDOW = 16;
+/** Headroom on top of the measured jitter (s). */
+const SAFETY_MARGIN = 0.2;
+/** Fraction of the way to a lower target moved per chunk. */
+const SHRINK_RATE = 0.1;
+/** Minimum growth factor after an under-run. */
+const UNDERRUN_GROWTH = 1.5;
+
+function clamp(value: number, {min, max}: BufferBounds) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Measures how irregularly chunks arrive and picks a target latency to keep
+ * between arrival and playback. The target grows at once when jitter rises
+ * or playback under-runs, and shrinks gradually when the stream is steady.
+ * It is applied whenever the playback schedule is (re)started.
+ */
+export class JitterBuffer {
+  target: number;
+  /** Worst recent lateness of a chunk relative to an earlier one (s). */
+  jitter = 0;
+  // Arrival delay of each recent chunk relative to a steady real-time
+  // stream starting at the first chunk since `restart()`.
+  private delays: number[] = [];
+  private anchor?: number;
+  private streamed = 0;
+
+  constructor(private bounds: BufferBounds) {
+    this.target = clamp(INITIAL_TARGET, bounds);
+  }
+
+  setBounds(bounds: BufferBounds) {
+    this.bounds = bounds;
+    this.target = clamp(this.target, bounds);
+  }
+
+  /** Starts measuring a new stream; the target and jitter carry over. */
+  restart() {
+    this.delays = [];
+    this.anchor = undefined;
+    this.streamed = 0;
+  }
+
+  /** Records a chunk of `duration` arriving at `arrival` (both in s). */
+  addChunk(arrival: number, duration: number) {
+    this.anchor ??= arrival;
+    this.delays.push(arrival - this.anchor - this.streamed);
+    this.streamed += duration;
+    if (this.delays.length > WINDOW) this.delays.shift();
+
+    // Early chunks are harmless; what needs covering is how much later a
+    // chunk turns up than the earliest pace seen before it.
+    let earliest = Infinity;
+    let jitter = 0;
+    for (const delay of this.delays) {
+      earliest = Math.min(earliest, delay);
+      jitter = Math.max(jitter, delay - earliest);
+    }
+    this.jitter = jitter;
+
+    const wanted = clamp(jitter + SAFETY_MARGIN, this.bounds);
+    this.target =
+      wanted > this.target
+        ? wanted
+        : this.target + (wanted - this.target) * SHRINK_RATE;
+  }
+
+  /** Grows the target after playback ran dry `lateBy` seconds early. */
+  underrun(lateBy: number) {
+    this.target = clamp(
+      Math.max(this.target * UNDERRUN_GROWTH, this.target + lateBy),
+      this.bounds,
+    );
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview MIDI clock output locked to the audio schedule, and BPM
+ * detection from incoming MIDI clock.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const PPQN = 24;
+const CLOCK = 0xf8;
+const START = 0xfa;
+const CONTINUE = 0xfb;
+const STOP = 0xfc;
+const SONG_POSITION = 0xf2;
+
+/** How often the scheduler wakes, and how far ahead it schedules (s). */
+const SCHEDULER_INTERVAL_MS = 25;
+const LOOKAHEAD = 0.1;
+
+/**
+ * Sends 24 ppqn MIDI clock to the selected outputs. Clock is anchored to an
+ * audio context time (when the first buffered chunk plays) and converted to
+ * MIDI timestamps through the context's output timestamp, so external gear
+ * follows what is actually audible rather than what has been received.
+ */
+export class MidiClockOutput {
+  private outputs: MIDIOutput[] = [];
+  private bpm = 120;
+  private nextTickTime = 0;
+  private lastTickTime = 0;
+  private timer?: number;
+  // When a `pause` sends Stop; Infinity while none is pending.
+  private stopTime = Infinity;
+  // True once Start has been sent and until a full stop, so that resuming
+  // after a pause sends Continue.
+  private started = false;
+
+  constructor(private readonly ctx: AudioContext) {}
+
+  setOutputs(outputs: MIDIOutput[]) {
+    this.outputs = outputs;
+  }
+
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+  }
+
+  get running() {
+    return this.timer !== undefined;
+  }
+
+  /** Starts (or continues) the clock with its first tick at `audioTime`. */
+  start(audioTime: number) {
+    this.halt();
+    this.send([this.started ? CONTINUE : START], audioTime);
+    this.started = true;
+    this.stopTime = Infinity;
+    this.nextTickTime = audioTime;
+    this.schedule();
+    this.timer = window.setInterval(
+      () => this.schedule(),
+      SCHEDULER_INTERVAL_MS,
+    );
+  }
+
+  /**
+   * Stops the clock at `audioTime` but keeps the song position for a later
+   * Continue. Ticks until then still go out, and Stop follows every tick
+   * already sent.
+   */
+  pause(audioTime = this.ctx.currentTime) {
+    if (!this.running) return;
+    this.stopTime = Math.max(audioTime, this.lastTickTime);
+    this.schedule();
+  }
+
+  /** Stops the clock and rewinds external gear to the start. */
+  stop() {
+    const wasStarted = this.started;
+    this.halt();
+    this.started = false;
+    if (wasStarted) {
+      this.send([STOP]);
+      this.send([SONG_POSITION, 0, 0]);
+    }
+  }
+
+  private halt() {
+    window.clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private schedule() {
+    const horizon = Math.min(this.ctx.currentTime + LOOKAHEAD, this.stopTime);
+    const tickLength = 60 / (this.bpm * PPQN);
+    while (this.nextTickTime < horizon) {
+      this.send([CLOCK], this.nextTickTime);
+      this.lastTickTime = this.nextTickTime;
+      this.nextTickTime += tickLength;
+    }
+    if (this.nextTickTime >= this.stopTime) {
+      this.halt();
+      this.send([STOP], this.stopTime);
+    }
+  }
+
+  /** Sends now, or at the performance time matching `audioTime`. */
+  private send(message: number[], audioTime?: number) {
+    const timestamp =
+      audioTime === undefined ? undefined : this.toPerformanceTime(audioTime);
+    for (const output of this.outputs) {
+      try {
+        output.send(message, timestamp);
+      } catch (e) {
+        console.warn('MIDI clock send failed', e);
+      }
+    }
+  }
+
+  private toPerformanceTime(audioTime: number): number {
+    const stamp = this.ctx.getOutputTimestamp?.();
+    if (
+      stamp?.contextTime !== undefined &&
+      stamp.performanceTime !== undefined
+    ) {
+      return stamp.performanceTime + (audioTime - stamp.contextTime) * 1000;
+    }
+    return performance.now() + (audioTime - this.ctx.currentTime) * 1000;
+  }
+}
+
+/** Number of clock intervals averaged for a tempo estimate (one beat). */
+const FOLLOW_WINDOW = PPQN;
+
+/**
+ * Estimates tempo from incoming MIDI clock and reports whole-BPM changes.
+ * Listens on every input of the MIDI access it is attached to.
+ */
+export class MidiClockFollower {
+  private ticks: number[] = [];
+  private candidate?: number;
+  private lastReported?: number;
+
+  constructor(private readonly onBpm: (bpm: number) => void) {
+    this.handleMessage = this.handleMessage.bind(this);
+    this.handleStateChange = this.handleStateChange.bind(this);
+  }
+
+  attach(access: MIDIAccess) {
+    access.inputs.forEach((input) =>
+      input.addEventListener('midimessage', this.handleMessage),
+    );
+    access.addEventListener('statechange', this.handleStateChange);
+  }
+
+  /** The latest tempo estimate, if clock is being received. */
+  get bpm(): number | undefined {
+    return this.lastReported;
+  }
+
+  private handleStateChange(e: Event) {
+    const port = (e as MIDIConnectionEvent).port;
+    if (port?.type === 'input' && port.state === 'connected') {
+      port.addEventListener('midimessage', this.handleMessage);
+    }
+  }
+
+  private handleMessage(e: Event) {
+    const {data, timeStamp} = e as MIDIMessageEvent;
+    if (!data) return;
+    if (data[0] === START || data[0] === STOP) {
+      this.ticks = [];
+      this.candidate = undefined;
+      return;
+    }
+    if (data[0] !== CLOCK) return;
+
+    this.ticks.push(timeStamp);
+    if (this.ticks.length > FOLLOW_WINDOW + 1) this.ticks.shift();
+    if (this.ticks.length <= FOLLOW_WINDOW) return;
+
+    const elapsed = this.ticks[this.ticks.length - 1] - this.ticks[0];
+    if (elapsed <= 0) return;
+    const bpm = Math.round((60000 * FOLLOW_WINDOW) / (elapsed * PPQN));
+    // Require two matching estimates in a row so jitter is not reported.
+    const stable = bpm === this.candidate;
+    this.candidate = bpm;
+    if (stable && bpm !== this.lastReported) {
+      this.lastReported = bpm;
+      this.onBpm(bpm);
+    }
+  }
+}
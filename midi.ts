@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Web MIDI controller mapping with MIDI-learn.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const STORAGE_KEY = 'promptdj.midiMappings';
+
+/** How close (0-1) a fader must come to the current value to pick it up. */
+const TAKEOVER_THRESHOLD = 0.03;
+
+/** Step size for one tick of a relative encoder, as a fraction of range. */
+const RELATIVE_STEP = 1 / 127;
+
+/** Something a MIDI control can drive. */
+export interface MidiTarget {
+  id: string;
+  label: string;
+  kind: 'continuous' | 'trigger';
+}
+
+/**
+ * `absolute` treats CC values 0-127 as positions. `relative` is for endless
+ * encoders sending two's complement deltas (1-63 up, 65-127 down).
+ */
+export type MidiMode = 'absolute' | 'relative';
+
+export interface MidiMapping {
+  target: string;
+  type: 'cc' | 'note';
+  channel: number;
+  control: number;
+  mode: MidiMode;
+  softTakeover: boolean;
+}
+
+export interface MidiHandlers {
+  /** Returns the target's current value normalized to 0-1. */
+  getValue(target: string): number | undefined;
+  /** Sets the target from a normalized 0-1 value. */
+  setValue(target: string, value: number): void;
+  trigger(target: string): void;
+  /** Called when mappings or the learn state change. */
+  onChange(): void;
+}
+
+interface MidiEventData {
+  type: 'cc' | 'note';
+  channel: number;
+  control: number;
+  value: number;
+}
+
+function parseMessage(data: Uint8Array): MidiEventData | null {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  if (status === 0xb0) {
+    return {type: 'cc', channel, control: data[1], value: data[2]};
+  }
+  // Note-off, or note-on with zero velocity, carries no trigger.
+  if (status === 0x90 && data[2] > 0) {
+    return {type: 'note', channel, control: data[1], value: data[2]};
+  }
+  return null;
+}
+
+function sameSource(a: MidiMapping, b: MidiEventData | MidiMapping) {
+  return (
+    a.type === b.type && a.channel === b.channel && a.control === b.control
+  );
+}
+
+/** Routes incoming MIDI to mapped targets and records new mappings. */
+export class MidiController {
+  mappings: MidiMapping[] = [];
+  learnTarget: string | null = null;
+  private access?: MIDIAccess;
+  // Per-target soft takeover state.
+  private caught = new Map<string, boolean>();
+  private lastSent = new Map<string, number>();
+  private lastRaw = new Map<string, number>();
+
+  constructor(private readonly handlers: MidiHandlers) {
+    this.mappings = this.loadMappings();
+    this.handleMessage = this.handleMessage.bind(this);
+  }
+
+  get enabled() {
+    return this.access !== undefined;
+  }
+
+  /**
+   * Requests MIDI access and listens on every input, including ones plugged
+   * in later.
+   * @throws if the browser has no Web MIDI support or access is denied.
+   */
+  async enable() {
+    if (this.access) return;
+    if (!navigator.requestMIDIAccess) {
+      throw new Error('Web MIDI is not supported in this browser.');
+    }
+    this.access = await navigator.requestMIDIAccess();
+    // Listeners rather than `onmidimessage`, so other MIDI features can
+    // share the inputs. Re-adding the same listener is a no-op.
+    this.access.inputs.forEach((input) => {
+      input.addEventListener('midimessage', this.handleMessage);
+    });
+    this.access.addEventListener('statechange', (e) => {
+      const port = (e as MIDIConnectionEvent).port;
+      if (port?.type === 'input' && port.state === 'connected') {
+        port.addEventListener('midimessage', this.handleMessage);
+      }
+      this.handlers.onChange();
+    });
+    this.handlers.onChange();
+  }
+
+  /** The MIDI access handle, once enabled, for use by other MIDI features. */
+  get midiAccess(): MIDIAccess | undefined {
+    return this.access;
+  }
+
+  startLearn(target: string) {
+    this.learnTarget = target;
+    this.handlers.onChange();
+  }
+
+  cancelLearn() {
+    this.learnTarget = null;
+    this.handlers.onChange();
+  }
+
+  getMapping(target: string): MidiMapping | undefined {
+    return this.mappings.find((m) => m.target === target);
+  }
+
+  updateMapping(
+    target: string,
+    changes: Partial<Pick<MidiMapping, 'mode' | 'softTakeover'>>,
+  ) {
+    this.mappings = this.mappings.map((m) =>
+      m.target === target ? {...m, ...changes} : m,
+    );
+    this.caught.delete(target);
+    this.saveMappings();
+  }
+
+  removeMapping(target: string) {
+    this.mappings = this.mappings.filter((m) => m.target !== target);
+    this.saveMappings();
+  }
+
+  private handleMessage(e: Event) {
+    const {data} = e as MIDIMessageEvent;
+    if (!data) return;
+    const event = parseMessage(data);
+    if (!event) return;
+
+    if (this.learnTarget) {
+      this.learn(this.learnTarget, event);
+      return;
+    }
+    for (const mapping of this.mappings) {
+      if (sameSource(mapping, event)) this.apply(mapping, event);
+    }
+  }
+
+  private learn(target: string, event: MidiEventData) {
+    const existing = this.getMapping(target);
+    const mapping: MidiMapping = {
+      target,
+      type: event.type,
+      channel: event.channel,
+      control: event.control,
+      mode: existing?.mode ?? 'absolute',
+      softTakeover: existing?.softTakeover ?? false,
+    };
+    // A control drives one target; re-learning it moves it.
+    this.mappings = [
+      ...this.mappings.filter(
+        (m) => m.target !== target && !sameSource(m, mapping),
+      ),
+      mapping,
+    ];
+    this.learnTarget = null;
+    this.caught.delete(target);
+    this.saveMappings();
+  }
+
+  private apply(mapping: MidiMapping, event: MidiEventData) {
+    const {target} = mapping;
+    const current = this.handlers.getValue(target);
+    if (current === undefined || event.type === 'note') {
+      // Buttons fire on press only; CC buttons send 0 on release.
+      if (event.value > 0) this.handlers.trigger(target);
+      return;
+    }
+
+    let value: number;
+    if (mapping.mode === 'relative') {
+      const delta = event.value < 64 ? event.value : event.value - 128;
+      value = Math.min(1, Math.max(0, current + delta * RELATIVE_STEP));
+    } else {
+      value = event.value / 127;
+      if (mapping.softTakeover && !this.pickUp(target, value, current)) {
+        return;
+      }
+    }
+    this.lastSent.set(target, value);
+    this.handlers.setValue(target, value);
+  }
+
+  /**
+   * Soft takeover: ignores an absolute control until it reaches the target's
+   * current value, so the value does not jump when the two disagree.
+   */
+  private pickUp(target: string, value: number, current: number): boolean {
+    const lastSent = this.lastSent.get(target);
+    const lastRaw = this.lastRaw.get(target);
+    this.lastRaw.set(target, value);
+    // Something else moved the target since we last set it.
+    if (lastSent === undefined || Math.abs(lastSent - current) > 1e-3) {
+      this.caught.set(target, false);
+    }
+    if (this.caught.get(target)) return true;
+
+    const crossed =
+      lastRaw !== undefined &&
+      Math.sign(lastRaw - current) !== Math.sign(value - current);
+    if (Math.abs(value - current) <= TAKEOVER_THRESHOLD || crossed) {
+      this.caught.set(target, true);
+      return true;
+    }
+    return false;
+  }
+
+  private loadMappings(): MidiMapping[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+      console.warn('Ignoring unreadable MIDI mappings', e);
+      return [];
+    }
+  }
+
+  private saveMappings() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.mappings));
+    this.handlers.onChange();
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Two-deck mixing: a crossfader with selectable curves, and
+ * cue sends for pre-listening either deck.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type CrossfadeCurve = 'linear' | 'constant-power' | 'cut';
+
+export const CROSSFADE_CURVES: Record<CrossfadeCurve, string> = {
+  'linear': 'Linear',
+  'constant-power': 'Smooth',
+  'cut': 'Cut',
+};
+
+export type CueSource = 'off' | 'a' | 'b';
+
+/** Fader travel over which the cut curve fades a deck out. */
+const CUT_WIDTH = 0.05;
+/** Time constant for gain changes, to avoid zipper noise (s). */
+const SMOOTHING = 0.01;
+
+/**
+ * Deck gains for a crossfader `position` from 0 (deck A) to 1 (deck B).
+ * `linear` dips in the middle, `constant-power` keeps the loudness steady
+ * and `cut` keeps both decks at full level except at the very ends.
+ */
+export function crossfadeGains(
+  position: number,
+  curve: CrossfadeCurve,
+): [number, number] {
+  switch (curve) {
+    case 'linear':
+      return [1 - position, position];
+    case 'constant-power':
+      return [
+        Math.cos((position * Math.PI) / 2),
+        Math.sin((position * Math.PI) / 2),
+      ];
+    case 'cut':
+      return [
+        Math.min(1, (1 - position) / CUT_WIDTH),
+        Math.min(1, position / CUT_WIDTH),
+      ];
+    default:
+      throw new Error(`Unknown crossfade curve: ${curve}`);
+  }
+}
+
+/**
+ * Mixes two decks into `destination` and taps each, before the
+ * crossfader, for the cue.
+ */
+export class DeckMixer {
+  /** Deck A and deck B inputs, before the crossfader. */
+  readonly inputs: [GainNode, GainNode];
+  private readonly faders: [GainNode, GainNode];
+  private readonly cueGains: [GainNode, GainNode];
+
+  constructor(
+    private readonly ctx: AudioContext,
+    destination: AudioNode,
+    cue: AudioNode,
+  ) {
+    this.inputs = [ctx.createGain(), ctx.createGain()];
+    this.faders = [ctx.createGain(), ctx.createGain()];
+    this.cueGains = [ctx.createGain(), ctx.createGain()];
+    this.inputs.forEach((input, i) => {
+      input.connect(this.faders[i]);
+      this.faders[i].connect(destination);
+      this.cueGains[i].gain.value = 0;
+      input.connect(this.cueGains[i]);
+      this.cueGains[i].connect(cue);
+    });
+  }
+
+  setCrossfader(position: number, curve: CrossfadeCurve) {
+    const gains = crossfadeGains(position, curve);
+    this.faders.forEach((fader, i) => {
+      fader.gain.setTargetAtTime(gains[i], this.ctx.currentTime, SMOOTHING);
+    });
+  }
+
+  setCue(source: CueSource) {
+    this.cueGains[0].gain.value = source === 'a' ? 1 : 0;
+    this.cueGains[1].gain.value = source === 'b' ? 1 : 0;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview An offline music session that synthesizes audio locally, for
+ * developing and demoing the UI without an API key or network.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type LiveMusicGenerationConfig,
+  type LiveMusicSetConfigParameters,
+  type LiveMusicSetWeightedPromptsParameters,
+  Scale,
+} from '@google/genai';
+import type {
+  MusicSession,
+  MusicSessionCallbacks,
+  MusicSessionProvider,
+} from './session';
+import {encode} from './utils';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+
+/** Length of each generated chunk (s). */
+const CHUNK_SECONDS = 1;
+/** How far ahead of real time chunks are sent, like the real service. */
+const LEAD_SECONDS = 3;
+const TICK_MS = 250;
+
+/** Major pentatonic scale degrees, in semitones above the key's root. */
+const PENTATONIC = [0, 2, 4, 7, 9];
+/** Keys in `Scale` enum order, which rises from C a semitone at a time. */
+const KEYS: Scale[] = Object.values(Scale).filter(
+  (s) => s !== Scale.SCALE_UNSPECIFIED,
+);
+
+/** A plucked tone standing in for one prompt. */
+interface Voice {
+  amplitude: number;
+  frequency: number;
+  /** -1 (left) to 1 (right). */
+  pan: number;
+  /** Notes per beat. */
+  rate: number;
+  /** Plays on the off-step instead of the step. */
+  offbeat: boolean;
+  bass: boolean;
+}
+
+/** FNV-1a, so the same prompt text always sounds the same. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function createVoice(
+  text: string,
+  amplitude: number,
+  config: LiveMusicGenerationConfig,
+): Voice {
+  const h = hash(text.trim().toLowerCase());
+  const root = Math.max(0, KEYS.indexOf(config.scale ?? Scale.C_MAJOR_A_MINOR));
+  const degree = PENTATONIC[h % PENTATONIC.length];
+  const bass = (h >> 4) % 4 === 0;
+  const octave = bass ? 2 : 4 + ((h >> 6) % 2);
+  const midiNote = 12 * (octave + 1) + root + degree;
+  // Denser settings play faster figures.
+  const density = config.density ?? 0.5;
+  return {
+    amplitude,
+    frequency: 440 * 2 ** ((midiNote - 69) / 12),
+    pan: bass ? 0 : (((h >> 8) % 5) - 2) / 3,
+    rate: (1 + ((h >> 11) % 2)) * (density > 0.66 ? 2 : 1),
+    offbeat: (h >> 12) % 3 === 0,
+    bass,
+  };
+}
+
+class MockMusicSession implements MusicSession {
+  private voices: Voice[] = [];
+  private prompts: LiveMusicSetWeightedPromptsParameters['weightedPrompts'] =
+    [];
+  private config: LiveMusicGenerationConfig = {};
+  /** Frames generated since the start, for phase and beat positions. */
+  private frame = 0;
+  /** Frames sent since `play()`, and when that was (ms). */
+  private sentSincePlay = 0;
+  private playStartedAt = 0;
+  private timer?: number;
+
+  constructor(private readonly callbacks: MusicSessionCallbacks) {}
+
+  async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters) {
+    this.prompts = params.weightedPrompts;
+    this.updateVoices();
+  }
+
+  async setMusicGenerationConfig(params: LiveMusicSetConfigParameters) {
+    this.config = params.musicGenerationConfig ?? {};
+    this.updateVoices();
+  }
+
+  play() {
+    if (this.timer !== undefined) return;
+    this.sentSincePlay = 0;
+    this.playStartedAt = performance.now();
+    this.timer = window.setInterval(() => this.pump(), TICK_MS);
+    this.pump();
+  }
+
+  pause() {
+    window.clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  stop() {
+    this.pause();
+    this.frame = 0;
+  }
+
+  resetContext() {
+    this.frame = 0;
+  }
+
+  close() {
+    this.pause();
+  }
+
+  private updateVoices() {
+    const {muteBass, onlyBassAndDrums} = this.config;
+    const total = this.prompts.reduce((sum, p) => sum + (p.weight ?? 0), 0);
+    this.voices = this.prompts
+      .filter((p) => (p.weight ?? 0) > 0)
+      .map((p) =>
+        createVoice(p.text ?? '', (p.weight ?? 0) / total, this.config),
+      )
+      .filter((v) => (v.bass ? !muteBass : !onlyBassAndDrums));
+  }
+
+  private pump() {
+    const elapsed = (performance.now() - this.playStartedAt) / 1000;
+    const chunkFrames = CHUNK_SECONDS * SAMPLE_RATE;
+    while (this.sentSincePlay < (elapsed + LEAD_SECONDS) * SAMPLE_RATE) {
+      const data = encode(new Uint8Array(this.synthesize(chunkFrames).buffer));
+      this.callbacks.onmessage({
+        serverContent: {
+          audioChunks: [{data, mimeType: `audio/l16;rate=${SAMPLE_RATE}`}],
+        },
+      });
+      this.sentSincePlay += chunkFrames;
+    }
+  }
+
+  /** Renders the next `frames` of interleaved 16-bit stereo. */
+  private synthesize(frames: number): Int16Array {
+    const out = new Int16Array(frames * NUM_CHANNELS);
+    const beat = (SAMPLE_RATE * 60) / (this.config.bpm ?? 120);
+    const brightness = this.config.brightness ?? 0.5;
+    const drums = !this.config.muteDrums && this.voices.length > 0;
+
+    for (let i = 0; i < frames; i++) {
+      const n = this.frame + i;
+      let left = 0;
+      let right = 0;
+      for (const voice of this.voices) {
+        const step = beat / voice.rate;
+        const pos = voice.offbeat ? n - step / 2 : n;
+        if (pos < 0) continue;
+        const t = (pos % step) / SAMPLE_RATE;
+        const phase = (2 * Math.PI * voice.frequency * n) / SAMPLE_RATE;
+        // Brighter settings add upper harmonics.
+        const tone =
+          Math.sin(phase) +
+          brightness * 0.5 * Math.sin(2 * phase) +
+          brightness * 0.25 * Math.sin(3 * phase);
+        const sample = voice.amplitude * Math.exp(-t * 6) * tone;
+        left += sample * (1 - voice.pan) * 0.5;
+        right += sample * (1 + voice.pan) * 0.5;
+      }
+      if (drums) {
+        // A kick on every beat: a sine falling from 90Hz to 50Hz.
+        const t = (n % beat) / SAMPLE_RATE;
+        const sweep = (40 * (1 - Math.exp(-t * 30))) / 30;
+        const kick =
+          Math.exp(-t * 12) * Math.sin(2 * Math.PI * (50 * t + sweep));
+        left += kick * 0.5;
+        right += kick * 0.5;
+      }
+      out[i * 2] = Math.max(-1, Math.min(1, left * 0.4)) * 32767;
+      out[i * 2 + 1] = Math.max(-1, Math.min(1, right * 0.4)) * 32767;
+    }
+    this.frame += frames;
+    return out;
+  }
+}
+
+/** Connects to a locally synthesized session. */
+export class MockSessionProvider implements MusicSessionProvider {
+  readonly description = 'Offline mock session: audio is synthesized locally';
+
+  async connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    const session = new MockMusicSession(callbacks);
+    window.setTimeout(() => callbacks.onmessage({setupComplete: {}}));
+    return session;
+  }
+}
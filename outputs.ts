@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Audio output devices: choosing where the main mix plays, and
+ * a cue bus that plays on a device of its own.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Output devices are identified by `deviceId`; '' is the default device. */
+export interface OutputDevice {
+  id: string;
+  label: string;
+}
+
+// Neither is in the DOM typings yet.
+type SinkableAudioContext = AudioContext & {
+  setSinkId?(sinkId: string): Promise<void>;
+};
+type OutputSelectingMediaDevices = MediaDevices & {
+  selectAudioOutput?(options?: {deviceId?: string}): Promise<MediaDeviceInfo>;
+};
+
+/** Whether the main output can be moved off the default device. */
+export function canChooseMainOutput(ctx: AudioContext): boolean {
+  return typeof (ctx as SinkableAudioContext).setSinkId === 'function';
+}
+
+/** Whether the browser offers its own output picker. */
+export function canSelectOutput(): boolean {
+  return (
+    typeof (navigator.mediaDevices as OutputSelectingMediaDevices)
+      ?.selectAudioOutput === 'function'
+  );
+}
+
+/**
+ * The audio output devices the page may use. Browsers that gate outputs
+ * behind `selectAudioOutput` list only those the user has picked before.
+ */
+export async function listOutputDevices(): Promise<OutputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audiooutput')
+    .filter((device) => device.deviceId && device.deviceId !== 'default')
+    .map((device, i) => ({
+      id: device.deviceId,
+      label: device.label || `Output ${i + 1}`,
+    }));
+}
+
+/**
+ * Browsers without an output picker name and list all outputs only once
+ * the page may use a microphone. Asks for that and releases it at once.
+ */
+export async function unlockOutputDevices() {
+  const stream = await navigator.mediaDevices.getUserMedia({audio: true});
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+/**
+ * Opens the browser's output picker. Resolves to the chosen device, or
+ * undefined if the user dismissed it.
+ */
+export async function selectOutputDevice(): Promise<OutputDevice | undefined> {
+  const mediaDevices = navigator.mediaDevices as OutputSelectingMediaDevices;
+  try {
+    const device = await mediaDevices.selectAudioOutput!();
+    return {id: device.deviceId, label: device.label};
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'NotAllowedError') {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+/** Moves everything the context plays to `deviceId`. */
+export async function setMainOutput(ctx: AudioContext, deviceId: string) {
+  await (ctx as SinkableAudioContext).setSinkId!(deviceId);
+}
+
+/**
+ * A second output for pre-listening, e.g. on headphones. It leaves the
+ * context through a media stream, so it can play on another device than
+ * the main mix.
+ */
+export class CueBus {
+  readonly input: GainNode;
+  private readonly element = new Audio();
+  private device = '';
+
+  constructor(ctx: AudioContext) {
+    const stream = ctx.createMediaStreamDestination();
+    this.input = ctx.createGain();
+    this.input.connect(stream);
+    this.element.srcObject = stream.stream;
+  }
+
+  /** Whether the cue can play on a device other than the default. */
+  static get supported(): boolean {
+    return 'setSinkId' in HTMLMediaElement.prototype;
+  }
+
+  /**
+   * Whether a cue device is set. Without one the cue would play into the
+   * main mix, so it stays silent.
+   */
+  get ready(): boolean {
+    return this.device !== '';
+  }
+
+  async setDevice(deviceId: string) {
+    await this.element.setSinkId(deviceId);
+    this.device = deviceId;
+    if (this.ready) {
+      this.start();
+    } else {
+      this.element.pause();
+    }
+  }
+
+  /** Starts playing; needs a user gesture in most browsers. */
+  start() {
+    if (!this.ready) return;
+    this.element
+      .play()
+      .catch((e) => console.warn('Could not start the cue output', e));
+  }
+}
@@ -0,0 +1,793 @@
+/**
+ * @fileoverview Versioned PromptDJ project files: serialization, validation
+ * and migration of older formats. Also beat sequencer preset files, which
+ * share the project's sequencer validation.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type LiveMusicGenerationConfig, Scale} from '@google/genai';
+import {
+  type AutomationPoint,
+  type AutomationTextEvent,
+  DEFAULT_AUTOMATION_BARS,
+} from './automation';
+import {
+  DEFAULT_FX,
+  DELAY_DIVISIONS,
+  FX_PARAMS,
+  FX_SWITCHES,
+  type DelayDivision,
+  type FxSettings,
+} from './fx';
+import {
+  DEFAULT_TIMING,
+  DEFAULT_TRACKS,
+  DRUM_VOICES,
+  MAX_CHAIN_LENGTH,
+  MAX_RATCHET,
+  MAX_REPEATS,
+  MAX_STEPS,
+  MAX_TRACKS,
+  METERS,
+  MIN_STEPS,
+  NUDGES,
+  PATTERN_NAMES,
+  PROBABILITIES,
+  type ChainStep,
+  type DrumVoice,
+  type Meter,
+  type SequencerBank,
+  type SequencerPattern,
+  type SequencerTiming,
+  type SequencerTrack,
+  type UserPreset,
+  canUseTriplets,
+  copyPattern,
+  emptyPattern,
+} from './sequencer';
+
+/** Identifies a JSON document as a PromptDJ project. */
+export const PROJECT_FORMAT = 'promptdj-project';
+
+/** The version written by `serializeProject`. */
+export const PROJECT_VERSION = 7;
+
+/** Identifies a JSON document as a set of user sequencer presets. */
+export const PRESETS_FORMAT = 'promptdj-presets';
+
+/** The version written by `serializePresets`. */
+export const PRESETS_VERSION = 1;
+
+export interface ProjectPrompt {
+  text: string;
+  weight: number;
+  color: string;
+}
+
+export interface ProjectSequencer extends SequencerBank {
+  weight: number;
+}
+
+/** An automation lane, tied to a prompt by its index in `prompts`. */
+export interface ProjectAutomationLane {
+  prompt: number;
+  weights: AutomationPoint[];
+  texts: AutomationTextEvent[];
+}
+
+export interface ProjectAutomation {
+  lengthBars: number;
+  lanes: ProjectAutomationLane[];
+}
+
+/** The in-memory state captured by a project file. */
+export interface ProjectData {
+  prompts: ProjectPrompt[];
+  sequencer: ProjectSequencer;
+  config: LiveMusicGenerationConfig;
+  automation: ProjectAutomation;
+  fx: FxSettings;
+}
+
+/** The on-disk shape of a project file. */
+export interface ProjectFile extends ProjectData {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+export interface PresetsFile {
+  format: typeof PRESETS_FORMAT;
+  version: number;
+  presets: UserPreset[];
+}
+
+/** Thrown when a project file cannot be read. `path` locates the bad field. */
+export class ProjectValidationError extends Error {
+  constructor(message: string, readonly path = '') {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'ProjectValidationError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Upgrades a raw project object from version `n` to `n + 1`. Add an entry
+ * here whenever `PROJECT_VERSION` is bumped; `parseProject` chains them.
+ */
+const MIGRATIONS: Record<number, (project: JsonObject) => JsonObject> = {
+  // v2 added automation lanes.
+  1: (project) => ({
+    ...project,
+    automation: {lengthBars: DEFAULT_AUTOMATION_BARS, lanes: []},
+  }),
+  // v3 added the master effects chain.
+  2: (project) => ({...project, fx: {...DEFAULT_FX}}),
+  // v4 added pattern length, meter and swing.
+  3: (project) => ({
+    ...project,
+    sequencer: isObject(project.sequencer)
+      ? {...project.sequencer, timing: {...DEFAULT_TIMING}}
+      : project.sequencer,
+  }),
+  // v5 replaced the single pattern with a pattern bank and song chain.
+  4: (project) => {
+    const sequencer = project.sequencer;
+    if (!isObject(sequencer)) return project;
+    const {grid, panningGrid, timing, weight} = sequencer;
+    return {
+      ...project,
+      sequencer: {
+        patterns: [
+          {grid, panningGrid, timing},
+          ...PATTERN_NAMES.slice(1).map(() => emptyPattern()),
+        ],
+        selected: 0,
+        chain: [{pattern: 0, repeats: 1}],
+        songMode: false,
+        weight,
+      },
+    };
+  },
+  // v6 added per-step chance, ratchets and nudges, and humanize.
+  5: (project) => {
+    const sequencer = project.sequencer;
+    if (!isObject(sequencer) || !Array.isArray(sequencer.patterns)) {
+      return project;
+    }
+    return {
+      ...project,
+      sequencer: {
+        ...sequencer,
+        patterns: sequencer.patterns.map((pattern) => {
+          if (!isObject(pattern) || !Array.isArray(pattern.grid)) {
+            return pattern;
+          }
+          // Shaped like the grid; a bad grid is reported by validation.
+          const rows = (value: number) =>
+            (pattern.grid as unknown[]).map((row) =>
+              Array.isArray(row) ? row.map(() => value) : row,
+            );
+          return {
+            ...pattern,
+            probabilityGrid: rows(100),
+            ratchetGrid: rows(1),
+            nudgeGrid: rows(0),
+          };
+        }),
+        humanize: 0,
+      },
+    };
+  },
+  // v7 made the instrument tracks editable.
+  6: (project) => ({
+    ...project,
+    sequencer: isObject(project.sequencer)
+      ? {
+          ...project.sequencer,
+          tracks: DEFAULT_TRACKS.map((track) => ({...track})),
+        }
+      : project.sequencer,
+  }),
+};
+
+export function serializeProject(data: ProjectData): string {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    prompts: data.prompts.map(({text, weight, color}) => ({
+      text,
+      weight,
+      color,
+    })),
+    sequencer: {
+      tracks: data.sequencer.tracks.map((track) => ({...track})),
+      patterns: data.sequencer.patterns.map(copyPattern),
+      selected: data.sequencer.selected,
+      chain: data.sequencer.chain.map((step) => ({...step})),
+      songMode: data.sequencer.songMode,
+      humanize: data.sequencer.humanize,
+      weight: data.sequencer.weight,
+    },
+    config: {...data.config},
+    automation: {
+      lengthBars: data.automation.lengthBars,
+      lanes: data.automation.lanes.map((lane) => ({
+        prompt: lane.prompt,
+        weights: lane.weights.map((p) => ({...p})),
+        texts: lane.texts.map((t) => ({...t})),
+      })),
+    },
+    fx: {...data.fx},
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses, migrates and validates a project file.
+ * @throws {ProjectValidationError} if the file is not a usable project.
+ */
+export function parseProject(json: string): ProjectData {
+  const raw = parseJson(json);
+  if (!isObject(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectValidationError('Not a PromptDJ project file');
+  }
+
+  let project = raw;
+  let version = project.version;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new ProjectValidationError('Missing or invalid version', 'version');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectValidationError(
+      `Version ${version} is newer than this app supports (${PROJECT_VERSION})`,
+      'version',
+    );
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectValidationError(
+        `No migration from version ${version}`,
+        'version',
+      );
+    }
+    project = migrate(project);
+    version++;
+  }
+
+  const prompts = validatePrompts(project.prompts);
+  return {
+    prompts,
+    sequencer: validateSequencer(project.sequencer),
+    config: validateConfig(project.config),
+    automation: validateAutomation(project.automation, prompts.length),
+    fx: validateFx(project.fx),
+  };
+}
+
+export function serializePresets(presets: UserPreset[]): string {
+  const file: PresetsFile = {
+    format: PRESETS_FORMAT,
+    version: PRESETS_VERSION,
+    presets: presets.map((preset) => ({
+      name: preset.name,
+      grid: preset.grid.map((row) => [...row]),
+      panningGrid: preset.panningGrid.map((row) => [...row]),
+      tracks: preset.tracks.map((track) => ({...track})),
+      timing: {...preset.timing},
+      weight: preset.weight,
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses and validates a presets file.
+ * @throws {ProjectValidationError} if the file is not a usable presets file.
+ */
+export function parsePresets(json: string): UserPreset[] {
+  const raw = parseJson(json);
+  if (!isObject(raw) || raw.format !== PRESETS_FORMAT) {
+    throw new ProjectValidationError('Not a PromptDJ presets file');
+  }
+  if (raw.version !== PRESETS_VERSION) {
+    throw new ProjectValidationError(
+      `Unsupported version ${raw.version}`,
+      'version',
+    );
+  }
+  if (!Array.isArray(raw.presets)) {
+    throw new ProjectValidationError('Expected a list of presets', 'presets');
+  }
+  return raw.presets.map((preset, i) =>
+    validatePreset(preset, `presets[${i}]`),
+  );
+}
+
+function parseJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    throw new ProjectValidationError(
+      `Not valid JSON (${(e as Error).message})`,
+    );
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectNumber(
+  value: unknown,
+  path: string,
+  min: number,
+  max: number,
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ProjectValidationError('Expected a number', path);
+  }
+  if (value < min || value > max) {
+    throw new ProjectValidationError(
+      `Expected a value between ${min} and ${max}, got ${value}`,
+      path,
+    );
+  }
+  return value;
+}
+
+function validatePrompts(value: unknown): ProjectPrompt[] {
+  if (!Array.isArray(value)) {
+    throw new ProjectValidationError('Expected a list of prompts', 'prompts');
+  }
+  return value.map((prompt, i) => {
+    const path = `prompts[${i}]`;
+    if (!isObject(prompt)) {
+      throw new ProjectValidationError('Expected an object', path);
+    }
+    if (typeof prompt.text !== 'string' || prompt.text.trim() === '') {
+      throw new ProjectValidationError(
+        'Expected non-empty text',
+        `${path}.text`,
+      );
+    }
+    if (
+      typeof prompt.color !== 'string' ||
+      !/^#[0-9a-f]{6}$/i.test(prompt.color)
+    ) {
+      throw new ProjectValidationError(
+        'Expected a hex color like #9900ff',
+        `${path}.color`,
+      );
+    }
+    return {
+      text: prompt.text,
+      weight: expectNumber(prompt.weight, `${path}.weight`, 0, 2),
+      color: prompt.color,
+    };
+  });
+}
+
+function validateGrid(
+  value: unknown,
+  path: string,
+  tracks: number,
+  steps: number,
+  allowed: number[],
+): number[][] {
+  if (!Array.isArray(value) || value.length !== tracks) {
+    throw new ProjectValidationError(`Expected ${tracks} tracks`, path);
+  }
+  return value.map((row, t) => {
+    if (!Array.isArray(row) || row.length !== steps) {
+      throw new ProjectValidationError(
+        `Expected ${steps} steps`,
+        `${path}[${t}]`,
+      );
+    }
+    return row.map((step, s) => {
+      if (!allowed.includes(step)) {
+        throw new ProjectValidationError(
+          `Expected one of ${allowed.join(', ')}`,
+          `${path}[${t}][${s}]`,
+        );
+      }
+      return step as number;
+    });
+  });
+}
+
+function validateTiming(value: unknown, path: string): SequencerTiming {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', path);
+  }
+  const steps = expectNumber(
+    value.steps,
+    `${path}.steps`,
+    MIN_STEPS,
+    MAX_STEPS,
+  );
+  if (!Number.isInteger(steps)) {
+    throw new ProjectValidationError(
+      'Expected a whole number',
+      `${path}.steps`,
+    );
+  }
+  if (typeof value.meter !== 'string' || !(value.meter in METERS)) {
+    throw new ProjectValidationError(
+      `Expected one of ${Object.keys(METERS).join(', ')}`,
+      `${path}.meter`,
+    );
+  }
+  const meter = value.meter as Meter;
+  if (typeof value.triplets !== 'boolean') {
+    throw new ProjectValidationError(
+      'Expected true or false',
+      `${path}.triplets`,
+    );
+  }
+  if (value.triplets && !canUseTriplets(meter)) {
+    throw new ProjectValidationError(
+      `No triplet grid in ${meter}`,
+      `${path}.triplets`,
+    );
+  }
+  return {
+    steps,
+    meter,
+    triplets: value.triplets,
+    swing: value.triplets
+      ? 0
+      : expectNumber(value.swing, `${path}.swing`, 0, 1),
+  };
+}
+
+function validatePattern(
+  value: unknown,
+  path: string,
+  tracks: number,
+): SequencerPattern {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', path);
+  }
+  const timing = validateTiming(value.timing, `${path}.timing`);
+  return {
+    grid: validateGrid(
+      value.grid,
+      `${path}.grid`,
+      tracks,
+      timing.steps,
+      [0, 1, 2, 3],
+    ),
+    panningGrid: validateGrid(
+      value.panningGrid,
+      `${path}.panningGrid`,
+      tracks,
+      timing.steps,
+      [-1, 0, 1],
+    ),
+    probabilityGrid: validateGrid(
+      value.probabilityGrid,
+      `${path}.probabilityGrid`,
+      tracks,
+      timing.steps,
+      PROBABILITIES,
+    ),
+    ratchetGrid: validateGrid(
+      value.ratchetGrid,
+      `${path}.ratchetGrid`,
+      tracks,
+      timing.steps,
+      Array.from({length: MAX_RATCHET}, (_, i) => i + 1),
+    ),
+    nudgeGrid: validateGrid(
+      value.nudgeGrid,
+      `${path}.nudgeGrid`,
+      tracks,
+      timing.steps,
+      NUDGES,
+    ),
+    timing,
+  };
+}
+
+function expectPatternIndex(value: unknown, path: string): number {
+  const index = expectNumber(value, path, 0, PATTERN_NAMES.length - 1);
+  if (!Number.isInteger(index)) {
+    throw new ProjectValidationError('Expected a pattern index', path);
+  }
+  return index;
+}
+
+function validateChain(value: unknown): ChainStep[] {
+  if (!Array.isArray(value) || value.length > MAX_CHAIN_LENGTH) {
+    throw new ProjectValidationError(
+      `Expected a list of up to ${MAX_CHAIN_LENGTH} steps`,
+      'sequencer.chain',
+    );
+  }
+  return value.map((step, i) => {
+    const path = `sequencer.chain[${i}]`;
+    if (!isObject(step)) {
+      throw new ProjectValidationError('Expected an object', path);
+    }
+    const repeats = expectNumber(
+      step.repeats,
+      `${path}.repeats`,
+      1,
+      MAX_REPEATS,
+    );
+    if (!Number.isInteger(repeats)) {
+      throw new ProjectValidationError(
+        'Expected a whole number',
+        `${path}.repeats`,
+      );
+    }
+    return {
+      pattern: expectPatternIndex(step.pattern, `${path}.pattern`),
+      repeats,
+    };
+  });
+}
+
+function validateTracks(value: unknown, path: string): SequencerTrack[] {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > MAX_TRACKS
+  ) {
+    throw new ProjectValidationError(
+      `Expected a list of 1 to ${MAX_TRACKS} tracks`,
+      path,
+    );
+  }
+  return value.map((track, i) => {
+    const trackPath = `${path}[${i}]`;
+    if (!isObject(track)) {
+      throw new ProjectValidationError('Expected an object', trackPath);
+    }
+    for (const key of ['name', 'descriptor'] as const) {
+      const text = track[key];
+      if (typeof text !== 'string' || text.trim() === '') {
+        throw new ProjectValidationError(
+          'Expected non-empty text',
+          `${trackPath}.${key}`,
+        );
+      }
+    }
+    if (!DRUM_VOICES.includes(track.voice as DrumVoice)) {
+      throw new ProjectValidationError(
+        `Expected one of ${DRUM_VOICES.join(', ')}`,
+        `${trackPath}.voice`,
+      );
+    }
+    return {
+      name: track.name as string,
+      descriptor: track.descriptor as string,
+      voice: track.voice as DrumVoice,
+    };
+  });
+}
+
+function validateSequencer(value: unknown): ProjectSequencer {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', 'sequencer');
+  }
+  if (
+    !Array.isArray(value.patterns) ||
+    value.patterns.length !== PATTERN_NAMES.length
+  ) {
+    throw new ProjectValidationError(
+      `Expected ${PATTERN_NAMES.length} patterns`,
+      'sequencer.patterns',
+    );
+  }
+  if (typeof value.songMode !== 'boolean') {
+    throw new ProjectValidationError(
+      'Expected true or false',
+      'sequencer.songMode',
+    );
+  }
+  const tracks = validateTracks(value.tracks, 'sequencer.tracks');
+  return {
+    tracks,
+    patterns: value.patterns.map((pattern, i) =>
+      validatePattern(pattern, `sequencer.patterns[${i}]`, tracks.length),
+    ),
+    selected: expectPatternIndex(value.selected, 'sequencer.selected'),
+    chain: validateChain(value.chain),
+    songMode: value.songMode,
+    humanize: expectNumber(value.humanize, 'sequencer.humanize', 0, 1),
+    weight: expectNumber(value.weight, 'sequencer.weight', 0, 2),
+  };
+}
+
+function validatePreset(value: unknown, path: string): UserPreset {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', path);
+  }
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    throw new ProjectValidationError('Expected non-empty text', `${path}.name`);
+  }
+  const tracks = validateTracks(value.tracks, `${path}.tracks`);
+  const timing = validateTiming(value.timing, `${path}.timing`);
+  return {
+    name: value.name,
+    grid: validateGrid(
+      value.grid,
+      `${path}.grid`,
+      tracks.length,
+      timing.steps,
+      [0, 1, 2, 3],
+    ),
+    panningGrid: validateGrid(
+      value.panningGrid,
+      `${path}.panningGrid`,
+      tracks.length,
+      timing.steps,
+      [-1, 0, 1],
+    ),
+    tracks,
+    timing,
+    weight: expectNumber(value.weight, `${path}.weight`, 0, 2),
+  };
+}
+
+/**
+ * Numeric config fields and their valid ranges, as the settings panel
+ * allows them.
+ */
+const CONFIG_RANGES: Partial<
+  Record<keyof LiveMusicGenerationConfig, [number, number]>
+> = {
+  temperature: [0, 3],
+  topK: [1, 100],
+  guidance: [0, 6],
+  seed: [-(2 ** 31), 2 ** 31 - 1],
+  bpm: [60, 180],
+  density: [0, 1],
+  brightness: [0, 1],
+};
+
+const CONFIG_FLAGS = ['muteBass', 'muteDrums', 'onlyBassAndDrums'] as const;
+
+function validateConfig(value: unknown): LiveMusicGenerationConfig {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', 'config');
+  }
+  const config: LiveMusicGenerationConfig = {};
+  for (const [key, range] of Object.entries(CONFIG_RANGES)) {
+    const field = value[key];
+    if (field === undefined || field === null) continue;
+    (config as Record<string, number>)[key] = expectNumber(
+      field,
+      `config.${key}`,
+      range[0],
+      range[1],
+    );
+  }
+  for (const key of CONFIG_FLAGS) {
+    const field = value[key];
+    if (field === undefined || field === null) continue;
+    if (typeof field !== 'boolean') {
+      throw new ProjectValidationError(
+        'Expected true or false',
+        `config.${key}`,
+      );
+    }
+    config[key] = field;
+  }
+  if (value.scale !== undefined && value.scale !== null) {
+    if (!Object.values(Scale).includes(value.scale as Scale)) {
+      throw new ProjectValidationError(
+        `Unknown scale "${String(value.scale)}"`,
+        'config.scale',
+      );
+    }
+    config.scale = value.scale as Scale;
+  }
+  return config;
+}
+
+function validateAutomation(
+  value: unknown,
+  numPrompts: number,
+): ProjectAutomation {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', 'automation');
+  }
+  const lengthBars = expectNumber(
+    value.lengthBars,
+    'automation.lengthBars',
+    1,
+    1024,
+  );
+  if (!Array.isArray(value.lanes)) {
+    throw new ProjectValidationError('Expected a list', 'automation.lanes');
+  }
+  const lanes = value.lanes.map((lane, i) => {
+    const path = `automation.lanes[${i}]`;
+    if (!isObject(lane)) {
+      throw new ProjectValidationError('Expected an object', path);
+    }
+    const prompt = expectNumber(
+      lane.prompt,
+      `${path}.prompt`,
+      0,
+      numPrompts - 1,
+    );
+    if (!Number.isInteger(prompt)) {
+      throw new ProjectValidationError(
+        'Expected a prompt index',
+        `${path}.prompt`,
+      );
+    }
+    if (!Array.isArray(lane.weights) || !Array.isArray(lane.texts)) {
+      throw new ProjectValidationError(
+        'Expected weights and texts lists',
+        path,
+      );
+    }
+    const weights = lane.weights.map((point, j) => {
+      const pointPath = `${path}.weights[${j}]`;
+      if (!isObject(point)) {
+        throw new ProjectValidationError('Expected an object', pointPath);
+      }
+      return {
+        bar: expectNumber(point.bar, `${pointPath}.bar`, 0, lengthBars),
+        value: expectNumber(point.value, `${pointPath}.value`, 0, 2),
+      };
+    });
+    const texts = lane.texts.map((event, j) => {
+      const eventPath = `${path}.texts[${j}]`;
+      if (!isObject(event) || typeof event.text !== 'string') {
+        throw new ProjectValidationError('Expected a text event', eventPath);
+      }
+      return {
+        bar: expectNumber(event.bar, `${eventPath}.bar`, 0, lengthBars),
+        text: event.text,
+      };
+    });
+    weights.sort((a, b) => a.bar - b.bar);
+    texts.sort((a, b) => a.bar - b.bar);
+    return {prompt, weights, texts};
+  });
+  return {lengthBars, lanes};
+}
+
+function validateFx(value: unknown): FxSettings {
+  if (!isObject(value)) {
+    throw new ProjectValidationError('Expected an object', 'fx');
+  }
+  const fx = {...DEFAULT_FX};
+  for (const [key, range] of Object.entries(FX_PARAMS)) {
+    (fx as Record<string, unknown>)[key] = expectNumber(
+      value[key],
+      `fx.${key}`,
+      range.min,
+      range.max,
+    );
+  }
+  for (const key of Object.keys(FX_SWITCHES)) {
+    if (typeof value[key] !== 'boolean') {
+      throw new ProjectValidationError('Expected true or false', `fx.${key}`);
+    }
+    (fx as Record<string, unknown>)[key] = value[key];
+  }
+  if (!Object.keys(DELAY_DIVISIONS).includes(value.delayDivision as string)) {
+    throw new ProjectValidationError(
+      `Unknown delay division "${String(value.delayDivision)}"`,
+      'fx.delayDivision',
+    );
+  }
+  fx.delayDivision = value.delayDivision as DelayDivision;
+  return fx;
+}
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview The prompt library: suggested prompts by category, entries
+ * the user adds, favorites, and prompts the server has filtered.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const PROMPT_CATEGORIES = [
+  'genre',
+  'instrument',
+  'mood',
+  'texture',
+] as const;
+
+export type PromptCategory = (typeof PROMPT_CATEGORIES)[number];
+
+/** Built-in prompts by category. */
+export const PROMPT_TEXT_PRESETS: Record<PromptCategory, string[]> = {
+  genre: [
+    'Bossa Nova',
+    'Minimal Techno',
+    'Drum and Bass',
+    'Post Punk',
+    'Shoegaze',
+    'Funk',
+    'Chiptune',
+    'Dubstep',
+    'K Pop',
+    'Neo Soul',
+    'Trip Hop',
+    'Thrash',
+    'Deep House',
+    'Afrobeat',
+    'Lo-Fi Hip Hop',
+    'Ambient',
+  ],
+  instrument: [
+    'Lush Strings',
+    'Sparkling Arpeggios',
+    'Punchy Kick',
+    'Rhodes Piano',
+    'Acid Bass',
+    'Tabla',
+    'Pedal Steel Guitar',
+    'Saxophone',
+    'Kalimba',
+    'Moog Oscillations',
+  ],
+  mood: [
+    'Dreamy',
+    'Euphoric',
+    'Melancholic',
+    'Ominous',
+    'Playful',
+    'Chill',
+    'Uplifting',
+    'Tense',
+  ],
+  texture: [
+    'Staccato Rhythms',
+    'Shimmering Pads',
+    'Spacious Reverb',
+    'Warm Tape Saturation',
+    'Crunchy Distortion',
+    'Glitchy Effects',
+    'Vinyl Crackle',
+    'Swirling Phasers',
+  ],
+};
+
+export interface LibraryEntry {
+  text: string;
+  category: PromptCategory;
+  /** Added by the user rather than built in. */
+  user?: boolean;
+}
+
+/** What the user keeps in the library between sessions. */
+export interface PromptLibrary {
+  /** Entries the user added. */
+  entries: LibraryEntry[];
+  /** Starred texts, built in or not. */
+  favorites: string[];
+  /** Texts the server has filtered, with its latest reason. */
+  filtered: Record<string, string>;
+}
+
+/** Which entries the library shows. */
+export type LibraryFilter = PromptCategory | 'all' | 'favorites';
+
+export function emptyLibrary(): PromptLibrary {
+  return {entries: [], favorites: [], filtered: {}};
+}
+
+/** The built-in entries followed by the user's. */
+export function libraryEntries(library: PromptLibrary): LibraryEntry[] {
+  const builtIn = PROMPT_CATEGORIES.flatMap((category) =>
+    PROMPT_TEXT_PRESETS[category].map((text) => ({text, category})),
+  );
+  return [...builtIn, ...library.entries];
+}
+
+/** Entries passing `filter` whose text contains `query`, ignoring case. */
+export function searchLibrary(
+  library: PromptLibrary,
+  query: string,
+  filter: LibraryFilter,
+): LibraryEntry[] {
+  const needle = query.trim().toLowerCase();
+  return libraryEntries(library).filter(
+    ({text, category}) =>
+      (filter === 'all' ||
+        (filter === 'favorites'
+          ? library.favorites.includes(text)
+          : category === filter)) &&
+      text.toLowerCase().includes(needle),
+  );
+}
+
+/**
+ * `library` with a user entry for `text`, unless it is empty or some entry
+ * already has it, ignoring case.
+ */
+export function addEntry(
+  library: PromptLibrary,
+  text: string,
+  category: PromptCategory,
+): PromptLibrary {
+  const trimmed = text.trim();
+  const key = trimmed.toLowerCase();
+  if (
+    !trimmed ||
+    libraryEntries(library).some((entry) => entry.text.toLowerCase() === key)
+  ) {
+    return library;
+  }
+  return {
+    ...library,
+    entries: [...library.entries, {text: trimmed, category, user: true}],
+  };
+}
+
+/** `library` without the user entry for `text`, and unstarred. */
+export function removeEntry(
+  library: PromptLibrary,
+  text: string,
+): PromptLibrary {
+  return {
+    ...library,
+    entries: library.entries.filter((entry) => entry.text !== text),
+    favorites: library.favorites.filter((favorite) => favorite !== text),
+  };
+}
+
+export function toggleFavorite(
+  library: PromptLibrary,
+  text: string,
+): PromptLibrary {
+  const favorites = library.favorites.includes(text)
+    ? library.favorites.filter((favorite) => favorite !== text)
+    : [...library.favorites, text];
+  return {...library, favorites};
+}
+
+/** `library` remembering that the server filtered `text` for `reason`. */
+export function markFiltered(
+  library: PromptLibrary,
+  text: string,
+  reason: string,
+): PromptLibrary {
+  return {...library, filtered: {...library.filtered, [text]: reason}};
+}
+
+/** `library` no longer flagging `text`. */
+export function forgetFiltered(
+  library: PromptLibrary,
+  text: string,
+): PromptLibrary {
+  const filtered = {...library.filtered};
+  delete filtered[text];
+  return {...library, filtered};
+}
+
+/**
+ * A library read back from storage. Anything unreadable is dropped rather
+ * than failing, so one bad entry cannot lose the rest.
+ */
+export function restoreLibrary(stored: unknown): PromptLibrary {
+  const library = emptyLibrary();
+  if (typeof stored !== 'object' || stored === null) return library;
+  const {entries, favorites, filtered} = stored as Record<string, unknown>;
+  if (Array.isArray(entries)) {
+    library.entries = entries
+      .filter(
+        (entry) =>
+          typeof entry?.text === 'string' &&
+          entry.text.trim() !== '' &&
+          PROMPT_CATEGORIES.includes(entry.category),
+      )
+      .map(({text, category}) => ({text, category, user: true}));
+  }
+  if (Array.isArray(favorites)) {
+    library.favorites = favorites.filter(
+      (favorite): favorite is string => typeof favorite === 'string',
+    );
+  }
+  if (typeof filtered === 'object' && filtered !== null) {
+    for (const [text, reason] of Object.entries(filtered)) {
+      if (typeof reason === 'string') library.filtered[text] = reason;
+    }
+  }
+  return library;
+}
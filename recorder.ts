@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Captures the decoded PCM stream and exports it as WAV or FLAC.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {encodeFlac} from './flac';
+
+/** Session details written into the metadata of an exported recording. */
+export interface RecordingMetadata {
+  title: string;
+  prompts: {text: string; weight: number}[];
+  bpm?: number;
+  scale?: string;
+  seed?: number;
+  date: Date;
+}
+
+/**
+ * Collects interleaved 16-bit PCM chunks exactly as received from the server,
+ * so the export is lossless with respect to what was played.
+ */
+export class PcmRecorder {
+  private chunks: Int16Array[] = [];
+  private frames = 0;
+  // The start of a frame split across chunks, kept for the next one.
+  private partial = new Uint8Array(0);
+
+  constructor(readonly sampleRate: number, readonly numChannels: number) {}
+
+  /**
+   * Appends a chunk of little-endian interleaved 16-bit PCM bytes. Bytes
+   * past the last whole frame are held until the next chunk completes it.
+   */
+  append(bytes: Uint8Array) {
+    const frameBytes = this.numChannels * 2;
+    // Copy so the caller may reuse or transfer the underlying buffer.
+    const data = new Uint8Array(this.partial.length + bytes.length);
+    data.set(this.partial);
+    data.set(bytes, this.partial.length);
+    const frames = Math.floor(data.length / frameBytes);
+    const samples = new Int16Array(frames * this.numChannels);
+    new Uint8Array(samples.buffer).set(data.subarray(0, frames * frameBytes));
+    this.partial = data.slice(frames * frameBytes);
+    this.chunks.push(samples);
+    this.frames += frames;
+  }
+
+  clear() {
+    this.chunks = [];
+    this.frames = 0;
+    this.partial = new Uint8Array(0);
+  }
+
+  get isEmpty() {
+    return this.frames === 0;
+  }
+
+  /** Recorded duration in seconds. */
+  get duration() {
+    return this.frames / this.sampleRate;
+  }
+
+  /** Size of the raw PCM data in bytes. */
+  get byteLength() {
+    return this.frames * this.numChannels * 2;
+  }
+
+  /** Returns all recorded samples as a single interleaved buffer. */
+  getSamples(): Int16Array {
+    const samples = new Int16Array(this.frames * this.numChannels);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return samples;
+  }
+
+  toWav(metadata: RecordingMetadata): Blob {
+    return encodeWav(
+      this.getSamples(),
+      this.sampleRate,
+      this.numChannels,
+      metadata,
+    );
+  }
+
+  toFlac(metadata: RecordingMetadata): Blob {
+    return encodeFlac(
+      this.getSamples(),
+      this.sampleRate,
+      this.numChannels,
+      metadataToTags(metadata),
+    );
+  }
+}
+
+/**
+ * Flattens recording metadata into ordered key/value tags. Keys follow the
+ * Vorbis comment conventions and are mapped onto RIFF INFO ids for WAV.
+ */
+export function metadataToTags(
+  metadata: RecordingMetadata,
+): [string, string][] {
+  const tags: [string, string][] = [
+    ['TITLE', metadata.title],
+    ['DATE', metadata.date.toISOString()],
+    ['ENCODER', 'PromptDJ'],
+  ];
+  metadata.prompts.forEach((p) => {
+    tags.push(['PROMPT', `${p.text} (${p.weight.toFixed(2)})`]);
+  });
+  tags.push([
+    'BPM',
+    metadata.bpm !== undefined ? String(metadata.bpm) : 'Auto',
+  ]);
+  tags.push(['SCALE', metadata.scale ?? 'SCALE_UNSPECIFIED']);
+  tags.push([
+    'SEED',
+    metadata.seed !== undefined ? String(metadata.seed) : 'Auto',
+  ]);
+  return tags;
+}
+
+/** Formats seconds as mm:ss. */
+export function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+/** Formats a byte count with a binary unit suffix. */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i) & 0x7f);
+  }
+}
+
+/** Builds a RIFF LIST/INFO chunk from the recording metadata. */
+function buildInfoChunk(metadata: RecordingMetadata): Uint8Array {
+  const tags = metadataToTags(metadata);
+  const prompts = tags
+    .filter(([key]) => key === 'PROMPT')
+    .map(([, value]) => value);
+  const details = tags
+    .filter(([key]) => ['BPM', 'SCALE', 'SEED'].includes(key))
+    .map(([key, value]) => `${key}: ${value}`);
+  const entries: [string, string][] = [
+    ['INAM', metadata.title],
+    ['ICRD', metadata.date.toISOString().slice(0, 10)],
+    ['ISFT', 'PromptDJ'],
+    ['IKEY', prompts.join('; ')],
+    ['ICMT', [`Prompts: ${prompts.join('; ')}`, ...details].join('\n')],
+  ];
+
+  const encoder = new TextEncoder();
+  const encoded = entries.map(([id, value]) => {
+    // INFO strings are NUL-terminated and padded to an even length.
+    const text = encoder.encode(value);
+    const size = text.length + 1;
+    const chunk = new Uint8Array(8 + size + (size & 1));
+    const view = new DataView(chunk.buffer);
+    writeAscii(view, 0, id);
+    view.setUint32(4, size, true);
+    chunk.set(text, 8);
+    return chunk;
+  });
+
+  const bodySize = 4 + encoded.reduce((sum, c) => sum + c.length, 0);
+  const list = new Uint8Array(8 + bodySize);
+  const view = new DataView(list.buffer);
+  writeAscii(view, 0, 'LIST');
+  view.setUint32(4, bodySize, true);
+  writeAscii(view, 8, 'INFO');
+  let offset = 12;
+  for (const chunk of encoded) {
+    list.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return list;
+}
+
+/** Encodes interleaved 16-bit PCM as a WAV file with a LIST/INFO chunk. */
+export function encodeWav(
+  samples: Int16Array,
+  sampleRate: number,
+  numChannels: number,
+  metadata: RecordingMetadata,
+): Blob {
+  const info = buildInfoChunk(metadata);
+  const dataSize = samples.length * 2;
+  const header = new ArrayBuffer(36);
+  const view = new DataView(header);
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 4 + 24 + info.length + 8 + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+
+  const dataHeader = new DataView(new ArrayBuffer(8));
+  writeAscii(dataHeader, 0, 'data');
+  dataHeader.setUint32(4, dataSize, true);
+
+  // WAV is little-endian, as is every platform that ships Web Audio.
+  return new Blob(
+    [
+      header,
+      info,
+      dataHeader,
+      new Uint8Array(samples.buffer, samples.byteOffset, dataSize),
+    ],
+    {type: 'audio/wav'},
+  );
+}
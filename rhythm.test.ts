@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Grid to description fixtures for `describePattern`.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {describePattern} from './rhythm';
+import {
+  DEFAULT_TIMING,
+  DEFAULT_TRACKS,
+  type DrumVoice,
+  SEQUENCER_PRESETS,
+  type SequencerPattern,
+  type SequencerTiming,
+  emptyPattern,
+  presetPattern,
+} from './sequencer';
+
+/**
+ * Steps written as characters: '.' for off, a digit for a hit at that
+ * velocity, and 'L' or 'R' for a loud hit panned left or right.
+ */
+type Row = string;
+
+/** A pattern on the default tracks with the given rows, the rest silent. */
+function pattern(
+  rows: Partial<Record<DrumVoice, Row>>,
+  timing: SequencerTiming = DEFAULT_TIMING,
+): SequencerPattern {
+  const result = emptyPattern(timing);
+  DEFAULT_TRACKS.forEach(({voice}, t) => {
+    const row = rows[voice];
+    if (!row) return;
+    [...row].forEach((step, s) => {
+      if (step === '.') return;
+      result.grid[t][s] = step === 'L' || step === 'R' ? 3 : Number(step);
+      result.panningGrid[t][s] = step === 'L' ? -1 : step === 'R' ? 1 : 0;
+    });
+  });
+  return result;
+}
+
+const TRIPLETS: SequencerTiming = {
+  ...DEFAULT_TIMING,
+  steps: 12,
+  triplets: true,
+};
+
+/** The sentences of a description, without the space after each. */
+function sentences(description: string): string[] {
+  return description.split(/(?<=\.) /).filter(Boolean);
+}
+
+const INTRO = 'A detailed drum machine pattern.';
+
+const FIXTURES: Array<[string, SequencerPattern, string[]]> = [
+  ['an empty grid', pattern({}), []],
+  [
+    'four on the floor',
+    pattern({kick: '3...3...3...3...'}),
+    [
+      INTRO,
+      'The pattern is sparse.',
+      'It features a loud and punchy kick drum playing four on the floor.',
+    ],
+  ],
+  [
+    'a backbeat',
+    pattern({kick: '3.......3.......', snare: '....2.......2...'}),
+    [
+      INTRO,
+      'The pattern is sparse.',
+      'It features a loud and punchy kick drum on beats 1 and 3.',
+      'It features a medium volume snare drum on the backbeat, on beats 2 and 4.',
+    ],
+  ],
+  [
+    'offbeat open hats',
+    pattern({kick: '3...3...3...3...', openHat: '..2...2...2...2.'}),
+    [
+      INTRO,
+      'The pattern is sparse.',
+      'It features a loud and punchy kick drum playing four on the floor.',
+      'It features a medium volume open hi-hat on every offbeat.',
+    ],
+  ],
+  [
+    'sixteenth hats',
+    pattern({closedHat: '1111111111111111'}),
+    [INTRO, 'It features a soft closed hi-hat in straight sixteenths.'],
+  ],
+  [
+    'a broken kick',
+    pattern({kick: '3..3..3...3..3..'}),
+    [
+      INTRO,
+      'The pattern is sparse and heavily syncopated.',
+      'It features a loud and punchy kick drum broken across the offbeats.',
+    ],
+  ],
+  [
+    'a fill',
+    pattern({kick: '3.......3.......', snare: '....2.......2222'}),
+    [
+      INTRO,
+      'The pattern is sparse and heavily syncopated.',
+      'It features a loud and punchy kick drum on beats 1 and 3.',
+      'It features a medium volume snare drum syncopated, mostly off the beat, with a fill at the end.',
+    ],
+  ],
+  [
+    'triplets',
+    pattern({kick: '3.....3.....', closedHat: '111111111111'}, TRIPLETS),
+    [
+      INTRO,
+      'A triplet-feel 4/4 groove.',
+      'It features a loud and punchy kick drum on beats 1 and 3.',
+      'It features a soft closed hi-hat on every triplet.',
+    ],
+  ],
+  [
+    'wide panning',
+    pattern({closedHat: 'L.R.L.R.L.R.L.R.'}),
+    [
+      INTRO,
+      'The pattern is sparse.',
+      'It features a loud and punchy closed hi-hat in straight eighths with wide stereo panning.',
+    ],
+  ],
+  [
+    'some panning',
+    pattern({perc: 'L.3.3.3.3.3.3.3.'}),
+    [
+      INTRO,
+      'The pattern is sparse.',
+      'It features a loud and punchy percussion in straight eighths with some hits panned left.',
+    ],
+  ],
+  [
+    'the House preset',
+    presetPattern(SEQUENCER_PRESETS['House'], DEFAULT_TRACKS, DEFAULT_TIMING),
+    [
+      INTRO,
+      'In the style of classic house.',
+      'It features a medium volume kick drum playing four on the floor.',
+      'It features a medium volume snare drum on the backbeat, on beats 2 and 4.',
+      'It features a medium volume closed hi-hat on every offbeat.',
+      'It features a medium volume open hi-hat syncopated, mostly off the beat.',
+      'It features a medium volume percussion syncopated, mostly off the beat.',
+    ],
+  ],
+];
+
+describe('describePattern', () => {
+  it.each(FIXTURES)('describes %s', (_, grid, expected) => {
+    expect(sentences(describePattern(grid, DEFAULT_TRACKS))).toEqual(expected);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Describes beat sequencer patterns in words for the model:
+ * where each instrument lands against the beat, how busy and syncopated
+ * the pattern is, fills, and which preset style it resembles.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type DrumVoice,
+  METERS,
+  SEQUENCER_PRESETS,
+  type SequencerPattern,
+  type SequencerTiming,
+  type SequencerTrack,
+  describeTiming,
+  presetGrid,
+  resizeGrid,
+  stepsPerBar,
+} from './sequencer';
+
+/** The part a track usually plays, for naming what it does. */
+type Role = 'kick' | 'backbeat' | 'other';
+
+/** The part tracks play by their sound. */
+const ROLES: Record<DrumVoice, Role> = {
+  kick: 'kick',
+  snare: 'backbeat',
+  clap: 'backbeat',
+  closedHat: 'other',
+  openHat: 'other',
+  tom: 'other',
+  perc: 'other',
+};
+
+// 1: soft, 2: medium, 3: loud
+const VELOCITY_WORDS = {1: 'soft', 2: 'medium volume', 3: 'loud and punchy'};
+
+/** How alike a pattern and a preset must be to name the preset's style. */
+const STYLE_SIMILARITY = 0.7;
+
+/**
+ * Where a step falls: on a beat, halfway between two beats, or elsewhere
+ * (a sixteenth or triplet partial).
+ */
+type Position = 'beat' | 'offbeat' | 'between';
+
+interface TrackRhythm {
+  hits: number;
+  /** Hits per position. */
+  counts: Record<Position, number>;
+  /** Whether every step at the position is hit. */
+  every: Record<Position, boolean>;
+  /** The beats of the bar, from 1, with a hit on them. */
+  beats: number[];
+  /** Hits within the pattern's last beat. */
+  lastBeat: number;
+}
+
+/** Steps per beat of the meter, e.g. 4 in 4/4 and 2 in 7/8. */
+function beatLength(timing: SequencerTiming): number {
+  return stepsPerBar(timing) / METERS[timing.meter].beats;
+}
+
+function positionOf(step: number, beat: number): Position {
+  const offset = step % beat;
+  if (offset === 0) return 'beat';
+  if (beat % 2 === 0 && offset === beat / 2) return 'offbeat';
+  return 'between';
+}
+
+function analyzeTrack(row: number[], timing: SequencerTiming): TrackRhythm {
+  const beat = beatLength(timing);
+  const bar = stepsPerBar(timing);
+  const counts = {beat: 0, offbeat: 0, between: 0};
+  const every = {beat: true, offbeat: true, between: true};
+  const present = {beat: false, offbeat: false, between: false};
+  const beats = new Set<number>();
+  let lastBeat = 0;
+  row.forEach((velocity, step) => {
+    const position = positionOf(step, beat);
+    present[position] = true;
+    if (velocity > 0) {
+      counts[position]++;
+      if (position === 'beat') beats.add((step % bar) / beat + 1);
+      if (step >= row.length - beat) lastBeat++;
+    } else {
+      every[position] = false;
+    }
+  });
+  for (const position of Object.keys(present) as Position[]) {
+    every[position] &&= present[position];
+  }
+  return {
+    hits: counts.beat + counts.offbeat + counts.between,
+    counts,
+    every,
+    beats: [...beats].sort((a, b) => a - b),
+    lastBeat,
+  };
+}
+
+function listBeats(beats: number[]): string {
+  const words = beats.map(String);
+  const list =
+    words.length > 1
+      ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`
+      : words[0];
+  return `on beat${beats.length > 1 ? 's' : ''} ${list}`;
+}
+
+/** What a track plays against the beat, e.g. "on the offbeats". */
+function rhythmPhrase(
+  rhythm: TrackRhythm,
+  role: Role,
+  timing: SequencerTiming,
+  steps: number,
+): string {
+  const {counts, every, beats, hits} = rhythm;
+  const offBeat = counts.offbeat + counts.between;
+  if (hits === steps) {
+    return timing.triplets ? 'on every triplet' : 'in straight sixteenths';
+  }
+  if (every.beat && every.offbeat && counts.between === 0) {
+    return 'in straight eighths';
+  }
+  if (every.beat && offBeat === 0) {
+    return role === 'kick' && timing.meter === '4/4'
+      ? 'playing four on the floor'
+      : 'on every beat';
+  }
+  if (every.offbeat && counts.beat === 0 && counts.between === 0) {
+    return 'on every offbeat';
+  }
+  if (offBeat === 0) {
+    const backbeat =
+      role === 'backbeat' &&
+      beats.every((b) => b % 2 === 0) &&
+      METERS[timing.meter].beats % 2 === 0;
+    return backbeat ? `on the backbeat, ${listBeats(beats)}` : listBeats(beats);
+  }
+  if (offBeat / hits > 0.5) {
+    return role === 'kick'
+      ? 'broken across the offbeats'
+      : 'syncopated, mostly off the beat';
+  }
+  return 'mixing on-beat and syncopated hits';
+}
+
+/** Whether the last beat is much busier than the beats before it. */
+function hasFill(
+  rhythm: TrackRhythm,
+  timing: SequencerTiming,
+  steps: number,
+): boolean {
+  const beats = steps / beatLength(timing);
+  const before = (rhythm.hits - rhythm.lastBeat) / Math.max(1, beats - 1);
+  return rhythm.lastBeat >= 2 && rhythm.lastBeat >= 2 * before + 1;
+}
+
+function panningPhrase(pans: number[]): string {
+  const numLeft = pans.filter((p) => p === -1).length;
+  const numRight = pans.filter((p) => p === 1).length;
+  const totalPanned = numLeft + numRight;
+
+  if (totalPanned / pans.length > 0.5) {
+    // If more than half the hits are panned
+    if (numLeft > numRight * 2) return ' mostly panned left';
+    if (numRight > numLeft * 2) return ' mostly panned right';
+    if (numLeft > 0 && numRight > 0) return ' with wide stereo panning';
+  } else if (totalPanned > 0) {
+    // If some hits are panned
+    if (numLeft > 0 && numRight > 0) return ' with some stereo panning';
+    if (numLeft > 0) return ' with some hits panned left';
+    if (numRight > 0) return ' with some hits panned right';
+  }
+  return '';
+}
+
+/**
+ * The preset style closest to `pattern`, if close enough. Compares which
+ * steps are hit, with presets laid out on `tracks` and repeated to the
+ * pattern's length.
+ */
+function matchStyle(
+  {grid, timing}: SequencerPattern,
+  tracks: SequencerTrack[],
+): string | undefined {
+  let best: {style: string; similarity: number} | undefined;
+  for (const preset of Object.values(SEQUENCER_PRESETS)) {
+    if (!preset.style || !preset.timing) continue;
+    if (
+      preset.timing.meter !== timing.meter ||
+      preset.timing.triplets !== timing.triplets
+    ) {
+      continue;
+    }
+    const presetRows = resizeGrid(presetGrid(preset, tracks), timing.steps);
+    let both = 0;
+    let either = 0;
+    grid.forEach((row, t) =>
+      row.forEach((velocity, s) => {
+        const a = velocity > 0;
+        const b = (presetRows[t]?.[s] ?? 0) > 0;
+        if (a && b) both++;
+        if (a || b) either++;
+      }),
+    );
+    const similarity = either ? both / either : 0;
+    if (
+      similarity >= STYLE_SIMILARITY &&
+      similarity > (best?.similarity ?? 0)
+    ) {
+      best = {style: preset.style, similarity};
+    }
+  }
+  return best?.style;
+}
+
+/** How busy and syncopated the whole pattern is, and how it develops. */
+function overallPhrase(
+  pattern: SequencerPattern,
+  tracks: SequencerTrack[],
+  rhythms: TrackRhythm[],
+): string {
+  const {grid, timing} = pattern;
+  const steps = timing.steps;
+  const hits = rhythms.reduce((sum, r) => sum + r.hits, 0);
+  const density = hits / (steps * grid.length);
+  const traits: string[] = [];
+  if (density < 0.1) traits.push('sparse');
+  else if (density > 0.3) traits.push('busy');
+
+  const core = rhythms.filter((_, t) => ROLES[tracks[t].voice] !== 'other');
+  const coreHits = core.reduce((sum, r) => sum + r.hits, 0);
+  const coreOff = core.reduce(
+    (sum, r) => sum + r.counts.offbeat + r.counts.between,
+    0,
+  );
+  if (coreHits > 0 && coreOff / coreHits > 0.4) {
+    traits.push('heavily syncopated');
+  }
+
+  const bar = stepsPerBar(timing);
+  const bars = Math.floor(steps / bar);
+  if (bars >= 2) {
+    const perBar = Array.from({length: bars}, (_, b) =>
+      grid.reduce(
+        (sum, row) =>
+          sum +
+          row.slice(b * bar, (b + 1) * bar).filter((velocity) => velocity > 0)
+            .length,
+        0,
+      ),
+    );
+    const first = perBar[0];
+    const last = perBar[bars - 1];
+    if (last >= first * 1.5 + 1) traits.push(`building up over ${bars} bars`);
+    else if (first >= last * 1.5 + 1) {
+      traits.push(`thinning out over ${bars} bars`);
+    }
+  }
+  if (traits.length === 0) return '';
+  const list =
+    traits.length > 1
+      ? `${traits.slice(0, -1).join(', ')} and ${traits[traits.length - 1]}`
+      : traits[0];
+  return `The pattern is ${list}. `;
+}
+
+/**
+ * Describes a drum pattern in words for the model: its meter, feel and
+ * style, and for each of `tracks` how loud it is, where it lands against
+ * the beat and where it sits in the stereo field. Empty if nothing plays.
+ *
+ * For example, a kick on every beat of a 4/4 bar is described as "playing
+ * four on the floor", and one only between the beats as "broken across the
+ * offbeats".
+ */
+export function describePattern(
+  pattern: SequencerPattern,
+  tracks: SequencerTrack[],
+): string {
+  const {grid, panningGrid, probabilityGrid, ratchetGrid, timing} = pattern;
+  const rhythms = grid.map((row) => analyzeTrack(row, timing));
+  if (rhythms.every((r) => r.hits === 0)) return '';
+
+  let description =
+    'A detailed drum machine pattern. ' + describeTiming(timing);
+  const style = matchStyle(pattern, tracks);
+  if (style) description += `In the style of ${style}. `;
+  description += overallPhrase(pattern, tracks, rhythms);
+
+  grid.forEach((row, t) => {
+    const rhythm = rhythms[t];
+    if (rhythm.hits === 0) return;
+    const {descriptor, voice} = tracks[t];
+    const hits = row.flatMap((velocity, s) => (velocity > 0 ? [s] : []));
+    const avgVelocity = hits.reduce((sum, s) => sum + row[s], 0) / hits.length;
+    const velocityWord =
+      avgVelocity < 1.5
+        ? VELOCITY_WORDS[1]
+        : avgVelocity < 2.5
+        ? VELOCITY_WORDS[2]
+        : VELOCITY_WORDS[3];
+    const rhythmWords = rhythmPhrase(rhythm, ROLES[voice], timing, row.length);
+    const fill = hasFill(rhythm, timing, row.length)
+      ? ', with a fill at the end'
+      : '';
+    const rolls = hits.some((s) => (ratchetGrid[t]?.[s] ?? 1) > 1)
+      ? ', with rolls'
+      : '';
+    const chance = hits.some((s) => (probabilityGrid[t]?.[s] ?? 100) < 100)
+      ? ', with some hits left to chance'
+      : '';
+    const panning = panningPhrase(hits.map((s) => panningGrid[t]?.[s] ?? 0));
+    description += `It features a ${velocityWord} ${descriptor} ${rhythmWords}${fill}${rolls}${chance}${panning}. `;
+  });
+  return description;
+}
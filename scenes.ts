@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Scene snapshots and the interpolation used to morph between
+ * them.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {LiveMusicGenerationConfig} from '@google/genai';
+
+export const NUM_SCENE_SLOTS = 8;
+
+/** A stored set of mix weights and generation settings. */
+export interface Scene {
+  name: string;
+  /** Target weight per prompt ID. Prompts added later are left untouched. */
+  promptWeights: Record<string, number>;
+  sequencerWeight: number;
+  config: LiveMusicGenerationConfig;
+}
+
+export type MorphUnit = 'seconds' | 'bars';
+
+export function captureScene(
+  name: string,
+  prompts: Iterable<{promptId: string; weight: number}>,
+  sequencerWeight: number,
+  config: LiveMusicGenerationConfig,
+): Scene {
+  const promptWeights: Record<string, number> = {};
+  for (const p of prompts) promptWeights[p.promptId] = p.weight;
+  return {name, promptWeights, sequencerWeight, config: {...config}};
+}
+
+/** Converts a morph length to seconds, assuming 4/4 time for bars. */
+export function morphDurationSeconds(
+  amount: number,
+  unit: MorphUnit,
+  bpm: number,
+): number {
+  if (amount <= 0) return 0;
+  return unit === 'bars' ? (amount * 4 * 60) / bpm : amount;
+}
+
+/** Eases the morph so transitions start and land gently. */
+export function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+}
+
+export function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
@@ -0,0 +1,587 @@
+/**
+ * @fileoverview Beat sequencer data: the instrument tracks, patterns with
+ * their length, meter, triplet grid and swing, per-step chance, ratchets
+ * and nudges, the pattern bank and its song chain, and the built-in
+ * presets.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Meter = '4/4' | '3/4' | '5/4' | '6/8' | '7/8';
+
+/** Beats per bar and the note value of a beat, per meter. */
+export const METERS: Record<Meter, {beats: number; unit: 4 | 8}> = {
+  '4/4': {beats: 4, unit: 4},
+  '3/4': {beats: 3, unit: 4},
+  '5/4': {beats: 5, unit: 4},
+  '6/8': {beats: 6, unit: 8},
+  '7/8': {beats: 7, unit: 8},
+};
+
+export const MIN_STEPS = 8;
+export const MAX_STEPS = 64;
+/** The local drum machine's sounds. */
+export const DRUM_VOICES = [
+  'kick',
+  'snare',
+  'clap',
+  'closedHat',
+  'openHat',
+  'tom',
+  'perc',
+] as const;
+
+export type DrumVoice = (typeof DRUM_VOICES)[number];
+
+/** An instrument row of the sequencer. */
+export interface SequencerTrack {
+  /** Shown next to the row. */
+  name: string;
+  /** What the model is told it is, e.g. "rimshot" or "808 cowbell". */
+  descriptor: string;
+  /** What it sounds like on the local drum machine. */
+  voice: DrumVoice;
+}
+
+/** The tracks of a new bank, which preset grids are written for. */
+export const DEFAULT_TRACKS: SequencerTrack[] = [
+  {name: 'Kick', descriptor: 'kick drum', voice: 'kick'},
+  {name: 'Snare', descriptor: 'snare drum', voice: 'snare'},
+  {name: 'Clap', descriptor: 'clap', voice: 'clap'},
+  {name: 'Closed Hat', descriptor: 'closed hi-hat', voice: 'closedHat'},
+  {name: 'Open Hat', descriptor: 'open hi-hat', voice: 'openHat'},
+  {name: 'Tom', descriptor: 'toms', voice: 'tom'},
+  {name: 'Percussion', descriptor: 'percussion', voice: 'perc'},
+];
+
+export const MAX_TRACKS = 16;
+export const PATTERN_NAMES = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+export const MAX_CHAIN_LENGTH = 32;
+export const MAX_REPEATS = 16;
+/** Chances (%) of a step playing, in the order clicks cycle through. */
+export const PROBABILITIES = [100, 75, 50, 25];
+/** Most hits a ratcheted step splits into. */
+export const MAX_RATCHET = 4;
+/** Micro-timing offsets (% of a step), in the order clicks cycle through. */
+export const NUDGES = [0, 25, 50, -50, -25];
+
+export interface SequencerTiming {
+  /** Steps before the pattern repeats, `MIN_STEPS` to `MAX_STEPS`. */
+  steps: number;
+  meter: Meter;
+  /** Steps are triplet eighths instead of sixteenths. Only in x/4 meters. */
+  triplets: boolean;
+  /**
+   * How late every second step plays, from 0 (straight) to 1 (a full
+   * triplet shuffle). Always 0 on triplet grids.
+   */
+  swing: number;
+}
+
+export const DEFAULT_TIMING: SequencerTiming = {
+  steps: 16,
+  meter: '4/4',
+  triplets: false,
+  swing: 0,
+};
+
+/** Values per track and step, with a row per bank track. */
+export interface SequencerPattern {
+  /** Velocities, 0 (off) to 3. */
+  grid: number[][];
+  /** Pans: -1, 0 or 1. */
+  panningGrid: number[][];
+  /** Chances (%) of hits playing, from `PROBABILITIES`. */
+  probabilityGrid: number[][];
+  /** Hits each step is split into, 1 to `MAX_RATCHET`. */
+  ratchetGrid: number[][];
+  /** How early or late hits play (% of a step), from `NUDGES`. */
+  nudgeGrid: number[][];
+  timing: SequencerTiming;
+}
+
+/** The per-step grids of a pattern. */
+export const STEP_GRIDS = [
+  'grid',
+  'panningGrid',
+  'probabilityGrid',
+  'ratchetGrid',
+  'nudgeGrid',
+] as const;
+
+export type StepGrid = (typeof STEP_GRIDS)[number];
+
+/** The value of each grid's steps when nothing is set. */
+const STEP_DEFAULTS: Record<StepGrid, number> = {
+  grid: 0,
+  panningGrid: 0,
+  probabilityGrid: 100,
+  ratchetGrid: 1,
+  nudgeGrid: 0,
+};
+
+/** Plays a bank pattern `repeats` times in a row. */
+export interface ChainStep {
+  pattern: number;
+  repeats: number;
+}
+
+export interface SequencerBank {
+  /** Row `i` of every pattern's grids plays `tracks[i]`. */
+  tracks: SequencerTrack[];
+  /** One per `PATTERN_NAMES` entry. */
+  patterns: SequencerPattern[];
+  /** The pattern being edited, which also plays outside song mode. */
+  selected: number;
+  chain: ChainStep[];
+  /** Play the chain instead of the selected pattern. */
+  songMode: boolean;
+  /**
+   * How much hits drift in time and level at random, from 0 (as written)
+   * to 1.
+   */
+  humanize: number;
+}
+
+/** `pattern` with `map` applied to each of its grids. */
+function mapGrids(
+  pattern: SequencerPattern,
+  map: (grid: number[][], key: StepGrid) => number[][],
+): SequencerPattern {
+  const mapped = {...pattern};
+  for (const key of STEP_GRIDS) mapped[key] = map(pattern[key], key);
+  return mapped;
+}
+
+/** A row of `steps` unset steps of grid `key`. */
+function emptyRow(key: StepGrid, steps: number): number[] {
+  return Array(steps).fill(STEP_DEFAULTS[key]);
+}
+
+export function emptyPattern(
+  timing = DEFAULT_TIMING,
+  tracks = DEFAULT_TRACKS.length,
+): SequencerPattern {
+  const empty = {timing} as SequencerPattern;
+  return mapGrids(empty, (_, key) =>
+    Array.from({length: tracks}, () => emptyRow(key, timing.steps)),
+  );
+}
+
+/** A pattern playing `grid` on `timing`, with no per-step settings. */
+export function patternFromGrid(
+  grid: number[][],
+  timing: SequencerTiming,
+): SequencerPattern {
+  return {
+    ...emptyPattern(timing, grid.length),
+    grid: resizeGrid(grid, timing.steps),
+  };
+}
+
+/** A bank of empty patterns, with a chain that plays pattern A. */
+export function emptyBank(): SequencerBank {
+  return {
+    tracks: DEFAULT_TRACKS.map((track) => ({...track})),
+    patterns: PATTERN_NAMES.map(() => emptyPattern()),
+    selected: 0,
+    chain: [{pattern: 0, repeats: 1}],
+    songMode: false,
+    humanize: 0,
+  };
+}
+
+export function copyPattern(pattern: SequencerPattern): SequencerPattern {
+  return mapGrids({...pattern, timing: {...pattern.timing}}, (grid) =>
+    grid.map((row) => [...row]),
+  );
+}
+
+/** `pattern` with every grid cut or extended to fit `timing`. */
+export function retimePattern(
+  pattern: SequencerPattern,
+  timing: SequencerTiming,
+): SequencerPattern {
+  return mapGrids({...pattern, timing}, (grid) =>
+    resizeGrid(grid, timing.steps),
+  );
+}
+
+/** `bank` with `track` added at the bottom, with empty rows. */
+export function addTrack(
+  bank: SequencerBank,
+  track: SequencerTrack,
+): SequencerBank {
+  return {
+    ...bank,
+    tracks: [...bank.tracks, track],
+    patterns: bank.patterns.map((pattern) =>
+      mapGrids(pattern, (grid, key) => [
+        ...grid,
+        emptyRow(key, pattern.timing.steps),
+      ]),
+    ),
+  };
+}
+
+/** `bank` without track `index` and its rows. */
+export function removeTrack(bank: SequencerBank, index: number): SequencerBank {
+  return {
+    ...bank,
+    tracks: bank.tracks.filter((_, i) => i !== index),
+    patterns: bank.patterns.map((pattern) =>
+      mapGrids(pattern, (grid) => grid.filter((_, i) => i !== index)),
+    ),
+  };
+}
+
+/** `bank` with track `from` and its rows moved to `to`. */
+export function moveTrack(
+  bank: SequencerBank,
+  from: number,
+  to: number,
+): SequencerBank {
+  const move = <T>(list: T[]) => {
+    const moved = [...list];
+    moved.splice(to, 0, ...moved.splice(from, 1));
+    return moved;
+  };
+  return {
+    ...bank,
+    tracks: move(bank.tracks),
+    patterns: bank.patterns.map((pattern) => mapGrids(pattern, move)),
+  };
+}
+
+/** Whether `meter` can be played on a triplet grid. */
+export function canUseTriplets(meter: Meter): boolean {
+  return METERS[meter].unit === 4;
+}
+
+/** Steps per quarter note, the beat BPM counts. */
+export function stepsPerBeat(timing: SequencerTiming): number {
+  return timing.triplets ? 3 : 4;
+}
+
+export function stepsPerBar(timing: SequencerTiming): number {
+  const {beats, unit} = METERS[timing.meter];
+  return (beats * 4 * stepsPerBeat(timing)) / unit;
+}
+
+/**
+ * `timing` changed to `meter` and `triplets`, keeping the same number of
+ * bars where that fits within the allowed length.
+ */
+export function changeMeter(
+  timing: SequencerTiming,
+  meter: Meter,
+  triplets: boolean,
+): SequencerTiming {
+  const bars = Math.max(1, Math.round(timing.steps / stepsPerBar(timing)));
+  const next: SequencerTiming = {
+    ...timing,
+    meter,
+    triplets: triplets && canUseTriplets(meter),
+  };
+  if (next.triplets) next.swing = 0;
+  next.steps = barsToSteps(next, bars);
+  return next;
+}
+
+/**
+ * The steps in `bars` bars of `timing`, or in the nearest number of whole
+ * bars that fits within the allowed length.
+ */
+export function barsToSteps(timing: SequencerTiming, bars: number): number {
+  const bar = stepsPerBar(timing);
+  let fitted = Math.max(1, bars);
+  while (fitted * bar > MAX_STEPS && fitted > 1) fitted--;
+  while (fitted * bar < MIN_STEPS) fitted++;
+  return Math.min(MAX_STEPS, fitted * bar);
+}
+
+/**
+ * Each row cut or extended to `steps`. Extending repeats the row, so a
+ * pattern doubled in length plays the same.
+ */
+export function resizeGrid(grid: number[][], steps: number): number[][] {
+  return grid.map((row) =>
+    Array.from({length: steps}, (_, i) =>
+      row.length ? row[i % row.length] : 0,
+    ),
+  );
+}
+
+/**
+ * The groove in words, e.g. "A shuffled 7/8 groove. ", or '' for a
+ * straight 4/4 pattern.
+ */
+export function describeTiming(timing: SequencerTiming): string {
+  const feel = timing.triplets
+    ? 'triplet-feel'
+    : timing.swing >= 0.5
+    ? 'shuffled'
+    : timing.swing > 0.15
+    ? 'swung'
+    : 'straight';
+  if (feel === 'straight' && timing.meter === '4/4') return '';
+  return `A ${feel} ${timing.meter} groove. `;
+}
+
+/** A pattern and the timing it is written for. */
+export interface SequencerPreset {
+  /** Rows in `tracks` order. */
+  grid: number[][];
+  /** Presets without one are centered. */
+  panningGrid?: number[][];
+  /** The tracks the rows are written for, `DEFAULT_TRACKS` if not given. */
+  tracks?: SequencerTrack[];
+  /** Presets without one keep the current timing. */
+  timing?: SequencerTiming;
+  /** The style patterns like this one are described as. */
+  style?: string;
+}
+
+/** A pattern the user saved, with the weight of the beat prompt. */
+export interface UserPreset extends SequencerPreset {
+  name: string;
+  panningGrid: number[][];
+  tracks: SequencerTrack[];
+  timing: SequencerTiming;
+  weight: number;
+}
+
+export const SEQUENCER_PRESETS: Record<string, SequencerPreset> = {
+  'Brutalism': {
+    timing: DEFAULT_TIMING,
+    style: 'brutalist industrial techno',
+    grid: [
+      [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2], // Snare
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Clap
+      [2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2], // Closed Hat
+      [0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2], // Open Hat
+      [2, 0, 0, 2, 0, 0, 2, 0, 0, 2, 0, 0, 2, 0, 0, 0], // Tom
+      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 2, 0, 0], // Percussion
+    ],
+  },
+  'House': {
+    timing: DEFAULT_TIMING,
+    style: 'classic house',
+    grid: [
+      [2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Tom
+      [0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0], // Percussion
+    ],
+  },
+  'Gabber': {
+    timing: DEFAULT_TIMING,
+    style: 'pounding gabber',
+    grid: [
+      [2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2], // Clap
+      [2, 0, 2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 0, 2, 2], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0], // Tom
+      [0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0], // Percussion
+    ],
+  },
+  'Deep Drums': {
+    timing: DEFAULT_TIMING,
+    style: 'deep house',
+    grid: [
+      [2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0], // Kick
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Clap
+      [0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2], // Open Hat
+      [0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 2, 0, 0, 0, 0], // Tom
+      [0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0], // Percussion
+    ],
+  },
+  '808': {
+    timing: DEFAULT_TIMING,
+    style: 'TR-808 hip-hop',
+    grid: [
+      [2, 0, 0, 2, 0, 0, 2, 0, 2, 0, 0, 0, 0, 2, 0, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [2, 2, 2, 0, 2, 2, 2, 0, 2, 2, 2, 2, 2, 2, 2, 0], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Tom
+      [0, 0, 2, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2, 0, 0, 0], // Percussion
+    ],
+  },
+  '505': {
+    timing: DEFAULT_TIMING,
+    style: 'vintage drum machine funk',
+    grid: [
+      [2, 0, 0, 0, 2, 0, 2, 0, 2, 0, 0, 0, 2, 0, 2, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2], // Snare
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Clap
+      [2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0], // Open Hat
+      [0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 2, 0, 0], // Tom
+      [0, 0, 0, 0, 0, 2, 0, 2, 0, 0, 0, 0, 0, 2, 0, 2], // Percussion
+    ],
+  },
+  'Shuffle': {
+    timing: {...DEFAULT_TIMING, swing: 0.6},
+    style: 'shuffled house',
+    grid: [
+      [2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [2, 1, 2, 1, 2, 1, 2, 1, 2, 1, 2, 1, 2, 1, 2, 1], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Tom
+      [0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1], // Percussion
+    ],
+  },
+  'Triplet Roll': {
+    timing: {...DEFAULT_TIMING, steps: 12, triplets: true},
+    style: 'a half-time triplet shuffle',
+    grid: [
+      [2, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0], // Kick
+      [0, 0, 0, 2, 0, 0, 0, 0, 0, 2, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [2, 0, 2, 2, 0, 2, 2, 0, 2, 2, 0, 2], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 1], // Tom
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Percussion
+    ],
+  },
+  '6/8 Groove': {
+    timing: {...DEFAULT_TIMING, steps: 12, meter: '6/8'},
+    style: 'a rolling 6/8 ballad',
+    grid: [
+      [2, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0], // Kick
+      [0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 2], // Tom
+      [0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0], // Percussion
+    ],
+  },
+  '5/4 Take': {
+    timing: {...DEFAULT_TIMING, steps: 20, meter: '5/4'},
+    style: 'cool jazz in five',
+    grid: [
+      [2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0], // Kick
+      [0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2], // Tom
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Percussion
+    ],
+  },
+  '7/8 Break': {
+    timing: {...DEFAULT_TIMING, steps: 14, meter: '7/8', swing: 0.3},
+    style: 'progressive odd-meter breaks',
+    grid: [
+      [2, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0, 2, 0, 0], // Kick
+      [0, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 2, 0], // Snare
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Clap
+      [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0], // Closed Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2], // Open Hat
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Tom
+      [0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0], // Percussion
+    ],
+  },
+};
+
+/**
+ * `rows` written for `from`, laid out for `tracks`. Each track takes the
+ * row of a track with its descriptor, or else of one with its sound; each
+ * row goes to the first track that asks for it. Tracks left over get
+ * rows of zeros.
+ */
+function mapRows(
+  rows: number[][],
+  from: SequencerTrack[],
+  tracks: SequencerTrack[],
+): number[][] {
+  const unused = new Set(from.keys());
+  const sources: (number | undefined)[] = tracks.map(() => undefined);
+  for (const key of ['descriptor', 'voice'] as const) {
+    tracks.forEach((track, t) => {
+      if (sources[t] !== undefined) return;
+      const source = [...unused].find((i) => from[i][key] === track[key]);
+      if (source === undefined) return;
+      sources[t] = source;
+      unused.delete(source);
+    });
+  }
+  return sources.map((source) =>
+    source === undefined ? Array(rows[0].length).fill(0) : [...rows[source]],
+  );
+}
+
+/**
+ * `preset`'s grid for `tracks`, each track playing the row written for the
+ * preset track most like it.
+ */
+export function presetGrid(
+  preset: SequencerPreset,
+  tracks: SequencerTrack[],
+): number[][] {
+  return mapRows(preset.grid, preset.tracks ?? DEFAULT_TRACKS, tracks);
+}
+
+/**
+ * `preset` as a pattern for `tracks` with its grid and panning, on its own
+ * timing or else on `timing`.
+ */
+export function presetPattern(
+  preset: SequencerPreset,
+  tracks: SequencerTrack[],
+  timing: SequencerTiming,
+): SequencerPattern {
+  const pattern = patternFromGrid(
+    presetGrid(preset, tracks),
+    preset.timing ?? timing,
+  );
+  if (preset.panningGrid) {
+    pattern.panningGrid = resizeGrid(
+      mapRows(preset.panningGrid, preset.tracks ?? DEFAULT_TRACKS, tracks),
+      pattern.timing.steps,
+    );
+  }
+  return pattern;
+}
+
+/** A user preset of `pattern`'s grid and panning on `tracks`. */
+export function capturePreset(
+  name: string,
+  pattern: SequencerPattern,
+  tracks: SequencerTrack[],
+  weight: number,
+): UserPreset {
+  return {
+    name,
+    grid: pattern.grid.map((row) => [...row]),
+    panningGrid: pattern.panningGrid.map((row) => [...row]),
+    tracks: tracks.map((track) => ({...track})),
+    timing: {...pattern.timing},
+    weight,
+  };
+}
+
+/** `name`, numbered if one of `presets` already has it, e.g. "House 2". */
+export function uniquePresetName(
+  name: string,
+  presets: {name: string}[],
+): string {
+  const taken = new Set(presets.map((preset) => preset.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} ${n}`)) n++;
+  return `${name} ${n}`;
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview The music-session interface the app plays from, and the
+ * provider backed by the Lyria RealTime API.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GoogleGenAI,
+  type LiveMusicServerMessage,
+  type LiveMusicSession,
+} from '@google/genai';
+
+/** The parts of a server message the app reads. */
+export type MusicSessionMessage = Pick<
+  LiveMusicServerMessage,
+  'setupComplete' | 'serverContent' | 'filteredPrompt'
+>;
+
+export interface MusicSessionCallbacks {
+  onmessage: (e: MusicSessionMessage) => void;
+  onerror: (e: ErrorEvent) => void;
+  onclose: (e: CloseEvent) => void;
+}
+
+/**
+ * A connected generation session. Mirrors `LiveMusicSession`: audio arrives
+ * through `onmessage` as base64 16-bit PCM, 48kHz stereo.
+ */
+export type MusicSession = Pick<
+  LiveMusicSession,
+  | 'setWeightedPrompts'
+  | 'setMusicGenerationConfig'
+  | 'play'
+  | 'pause'
+  | 'stop'
+  | 'resetContext'
+  | 'close'
+>;
+
+/** Opens music sessions against some backend. */
+export interface MusicSessionProvider {
+  /** Shown to the user when it is not the default backend. */
+  readonly description?: string;
+  connect(callbacks: MusicSessionCallbacks): Promise<MusicSession>;
+}
+
+/** Streams from the Lyria RealTime model. */
+export class LyriaSessionProvider implements MusicSessionProvider {
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string, private readonly model: string) {
+    this.ai = new GoogleGenAI({apiKey});
+  }
+
+  connect(callbacks: MusicSessionCallbacks): Promise<MusicSession> {
+    return this.ai.live.music.connect({model: this.model, callbacks});
+  }
+}
+
+/**
+ * Exponential reconnect delays with jitter, so many clients dropped at once
+ * do not all retry in lockstep.
+ */
+export class ReconnectBackoff {
+  /** Failed attempts since the last successful connection. */
+  attempt = 0;
+
+  constructor(private readonly baseMs = 1000, private readonly maxMs = 30000) {}
+
+  /** Returns the delay before the next attempt and counts it. */
+  next(): number {
+    const delay = Math.min(this.maxMs, this.baseMs * 2 ** this.attempt);
+    this.attempt++;
+    return delay * (0.75 + Math.random() * 0.5);
+  }
+
+  reset() {
+    this.attempt = 0;
+  }
+}
@@ -0,0 +1,530 @@
+/**
+ * @fileoverview Standard MIDI Files for beat patterns: a pattern written
+ * out as a General MIDI drum clip, and drum clips read back and quantized
+ * onto the grid.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type DrumVoice,
+  MAX_RATCHET,
+  METERS,
+  type Meter,
+  type SequencerPattern,
+  type SequencerTiming,
+  type SequencerTrack,
+  barsToSteps,
+  canUseTriplets,
+  emptyPattern,
+  stepsPerBar,
+  stepsPerBeat,
+} from './sequencer';
+
+/** Ticks per quarter note in written files; whole for 16ths and triplets. */
+const PPQ = 96;
+/** The General MIDI drum channel, 10, counted from 0. */
+const DRUM_CHANNEL = 9;
+const PAN_CONTROLLER = 10;
+/** MIDI velocity per step velocity, 1 soft to 3 loud. */
+const MIDI_VELOCITIES = [0, 40, 80, 120];
+/** CC10 value per step pan, -1 left to 1 right. */
+const PAN_VALUES = [14, 64, 114];
+
+/** General MIDI percussion sounds by note. */
+const GM_DRUM_NAMES: Record<number, string> = {
+  35: 'Acoustic Bass Drum',
+  36: 'Bass Drum',
+  37: 'Side Stick',
+  38: 'Acoustic Snare',
+  39: 'Hand Clap',
+  40: 'Electric Snare',
+  41: 'Low Floor Tom',
+  42: 'Closed Hi-Hat',
+  43: 'High Floor Tom',
+  44: 'Pedal Hi-Hat',
+  45: 'Low Tom',
+  46: 'Open Hi-Hat',
+  47: 'Low-Mid Tom',
+  48: 'Hi-Mid Tom',
+  49: 'Crash Cymbal 1',
+  50: 'High Tom',
+  51: 'Ride Cymbal 1',
+  52: 'Chinese Cymbal',
+  53: 'Ride Bell',
+  54: 'Tambourine',
+  55: 'Splash Cymbal',
+  56: 'Cowbell',
+  57: 'Crash Cymbal 2',
+  58: 'Vibraslap',
+  59: 'Ride Cymbal 2',
+  60: 'Hi Bongo',
+  61: 'Low Bongo',
+  62: 'Mute Hi Conga',
+  63: 'Open Hi Conga',
+  64: 'Low Conga',
+  65: 'High Timbale',
+  66: 'Low Timbale',
+  67: 'High Agogo',
+  68: 'Low Agogo',
+  69: 'Cabasa',
+  70: 'Maracas',
+  71: 'Short Whistle',
+  72: 'Long Whistle',
+  73: 'Short Guiro',
+  74: 'Long Guiro',
+  75: 'Claves',
+  76: 'Hi Wood Block',
+  77: 'Low Wood Block',
+  78: 'Mute Cuica',
+  79: 'Open Cuica',
+  80: 'Mute Triangle',
+  81: 'Open Triangle',
+};
+
+/** The note each drum sound is written as. */
+const VOICE_NOTES: Record<DrumVoice, number> = {
+  kick: 36,
+  snare: 38,
+  clap: 39,
+  closedHat: 42,
+  openHat: 46,
+  tom: 45,
+  perc: 56,
+};
+
+/** Other notes read as each drum sound. */
+const VOICE_ALIASES: Partial<Record<DrumVoice, number[]>> = {
+  kick: [35],
+  snare: [40],
+  closedHat: [44],
+  tom: [41, 43, 47, 48, 50],
+};
+
+/**
+ * Notes for tracks whose descriptor mentions one of these words, checked
+ * in order so "open hi-hat" wins over "hi-hat".
+ */
+const DESCRIPTOR_NOTES: [string, number][] = [
+  ['rimshot', 37],
+  ['side stick', 37],
+  ['cowbell', 56],
+  ['tambourine', 54],
+  ['shaker', 70],
+  ['maracas', 70],
+  ['ride', 51],
+  ['crash', 49],
+  ['splash', 55],
+  ['conga', 63],
+  ['bongo', 60],
+  ['timbale', 65],
+  ['clave', 75],
+  ['wood block', 76],
+  ['triangle', 81],
+  ['cabasa', 69],
+  ['agogo', 67],
+  ['open hi-hat', 46],
+  ['open hat', 46],
+  ['pedal', 44],
+  ['hi-hat', 42],
+  ['hat', 42],
+  ['clap', 39],
+  ['snare', 38],
+  ['tom', 45],
+  ['kick', 36],
+  ['bass drum', 36],
+];
+
+/** Thrown when a file is not a MIDI file this can read. */
+export class SmfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SmfError';
+  }
+}
+
+/** A note-on read from a file. */
+export interface SmfNote {
+  tick: number;
+  note: number;
+  velocity: number;
+  /** The channel's CC10 value when the note starts, 64 if never set. */
+  pan: number;
+}
+
+/** The drum hits of a file and what it says about its timing. */
+export interface SmfClip {
+  /** Ticks per quarter note. */
+  ppq: number;
+  /** In time order. */
+  notes: SmfNote[];
+  /** Where the longest track ends, in ticks. */
+  length: number;
+  /** The first time signature, if any. */
+  timeSignature?: {beats: number; unit: number};
+}
+
+/** A note's number and General MIDI name, e.g. "37 Side Stick". */
+export function describeNote(note: number): string {
+  const name = GM_DRUM_NAMES[note];
+  return name ? `${note} ${name}` : `${note}`;
+}
+
+/**
+ * The General MIDI note a track is written as: the sound its descriptor
+ * names, e.g. 37 for a "rimshot", or else its drum sound's.
+ */
+export function trackNote(track: SequencerTrack): number {
+  const descriptor = track.descriptor.toLowerCase();
+  const match = DESCRIPTOR_NOTES.find(([word]) => descriptor.includes(word));
+  return match ? match[1] : VOICE_NOTES[track.voice];
+}
+
+/**
+ * The track each of `notes` plays on where one is known: the first track
+ * written as the note, else the first with the drum sound the note is.
+ * Other notes are left out, for the user to place.
+ */
+export function mapNotes(
+  notes: number[],
+  tracks: SequencerTrack[],
+): Map<number, number> {
+  const mapping = new Map<number, number>();
+  for (const note of notes) {
+    let track = tracks.findIndex((t) => trackNote(t) === note);
+    if (track < 0) {
+      const voice = (Object.keys(VOICE_NOTES) as DrumVoice[]).find(
+        (v) => VOICE_NOTES[v] === note || VOICE_ALIASES[v]?.includes(note),
+      );
+      track = tracks.findIndex((t) => t.voice === voice);
+    }
+    if (track >= 0) mapping.set(note, track);
+  }
+  return mapping;
+}
+
+/** A variable-length quantity, 7 bits a byte. */
+function varLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [
+    value >>> 24,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function ascii(text: string): number[] {
+  return [...text].map((c) => c.charCodeAt(0));
+}
+
+function meta(type: number, data: number[]): number[] {
+  return [0xff, type, ...varLength(data.length), ...data];
+}
+
+interface TimedEvent {
+  tick: number;
+  /**
+   * Sorts events at the same tick: note-offs and meta events, then pans and
+   * notes in the order they were added, so each pan stays ahead of its note.
+   */
+  order: number;
+  bytes: number[];
+}
+
+/**
+ * `pattern` as a format 0 Standard MIDI File on the General MIDI drum
+ * channel at `bpm`. Tracks play their `trackNote`, with swing, nudges and
+ * ratchets written into the timing, and pans as CC10 ahead of each hit
+ * that changes it. Every hit is written whatever its chance.
+ */
+export function encodeSmf(
+  pattern: SequencerPattern,
+  tracks: SequencerTrack[],
+  bpm: number,
+): Uint8Array {
+  const {timing} = pattern;
+  const {beats, unit} = METERS[timing.meter];
+  const stepTicks = PPQ / stepsPerBeat(timing);
+  const tempo = Math.round(60_000_000 / bpm);
+  const events: TimedEvent[] = [
+    {tick: 0, order: 0, bytes: meta(0x03, ascii('PromptDJ beat'))},
+    {tick: 0, order: 0, bytes: meta(0x51, uint32(tempo).slice(1))},
+    {
+      tick: 0,
+      order: 0,
+      bytes: meta(0x58, [beats, Math.log2(unit), (24 * 4) / unit, 8]),
+    },
+  ];
+  const hits: (SmfNote & {length: number})[] = [];
+  pattern.grid.forEach((row, t) => {
+    const note = trackNote(tracks[t]);
+    row.forEach((velocity, step) => {
+      if (velocity === 0) return;
+      const ratchet = pattern.ratchetGrid[t][step];
+      const swing = step % 2 === 1 ? (timing.swing * stepTicks) / 3 : 0;
+      const nudge = (pattern.nudgeGrid[t][step] / 100) * stepTicks;
+      for (let hit = 0; hit < ratchet; hit++) {
+        hits.push({
+          tick: Math.max(
+            0,
+            Math.round(
+              step * stepTicks + swing + nudge + (hit * stepTicks) / ratchet,
+            ),
+          ),
+          note,
+          velocity: MIDI_VELOCITIES[velocity],
+          pan: PAN_VALUES[pattern.panningGrid[t][step] + 1],
+          length: Math.max(1, Math.round(stepTicks / ratchet / 2)),
+        });
+      }
+    });
+  });
+  // Pan is set for the whole channel, so it is sent when it changes.
+  let pan = -1;
+  hits.sort((a, b) => a.tick - b.tick);
+  for (const hit of hits) {
+    if (hit.pan !== pan) {
+      pan = hit.pan;
+      events.push({
+        tick: hit.tick,
+        order: 1,
+        bytes: [0xb0 | DRUM_CHANNEL, PAN_CONTROLLER, pan],
+      });
+    }
+    events.push(
+      {
+        tick: hit.tick,
+        order: 1,
+        bytes: [0x90 | DRUM_CHANNEL, hit.note, hit.velocity],
+      },
+      {
+        tick: hit.tick + hit.length,
+        order: 0,
+        bytes: [0x80 | DRUM_CHANNEL, hit.note, 0],
+      },
+    );
+  }
+  // The sort is stable, so events keep the order they were added in.
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const end = Math.max(
+    timing.steps * stepTicks,
+    events[events.length - 1].tick,
+  );
+  events.push({tick: end, order: 0, bytes: meta(0x2f, [])});
+
+  const track: number[] = [];
+  let tick = 0;
+  for (const event of events) {
+    track.push(...varLength(event.tick - tick), ...event.bytes);
+    tick = event.tick;
+  }
+  // Format 0, one track.
+  const header = [0, 0, 0, 1, PPQ >> 8, PPQ & 0xff];
+  return new Uint8Array([
+    ...ascii('MThd'),
+    ...uint32(header.length),
+    ...header,
+    ...ascii('MTrk'),
+    ...uint32(track.length),
+    ...track,
+  ]);
+}
+
+/** Reads the chunks and events of a Standard MIDI File. */
+class SmfReader {
+  private pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.pos >= this.bytes.length) {
+      throw new SmfError('The file ends in the middle of an event');
+    }
+    return this.bytes[this.pos++];
+  }
+
+  peek(): number {
+    return this.bytes[this.pos];
+  }
+
+  uint(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + this.byte();
+    return value;
+  }
+
+  varLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.byte();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new SmfError('Bad variable-length number');
+  }
+
+  text(length: number): string {
+    return String.fromCharCode(...this.take(length));
+  }
+
+  take(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) {
+      throw new SmfError('The file ends in the middle of a chunk');
+    }
+    const slice = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return slice;
+  }
+}
+
+/** The note-ons, time signature and length of a Standard MIDI File. */
+export function parseSmf(bytes: Uint8Array): SmfClip {
+  const file = new SmfReader(bytes);
+  if (bytes.length < 14 || file.text(4) !== 'MThd') {
+    throw new SmfError('Not a MIDI file');
+  }
+  const header = new SmfReader(file.take(file.uint(4)));
+  header.uint(2); // Format: tracks are merged either way.
+  const numTracks = header.uint(2);
+  const division = header.uint(2);
+  if (division & 0x8000) {
+    throw new SmfError('Files timed in SMPTE frames are not supported');
+  }
+  const clip: SmfClip = {ppq: division, notes: [], length: 0};
+  for (let i = 0; i < numTracks && !file.done; i++) {
+    const type = file.text(4);
+    const chunk = file.take(file.uint(4));
+    // Unknown chunk types are skipped, as the format asks.
+    if (type === 'MTrk') readTrack(new SmfReader(chunk), clip);
+  }
+  clip.notes.sort((a, b) => a.tick - b.tick);
+  return clip;
+}
+
+function readTrack(track: SmfReader, clip: SmfClip) {
+  const pans = Array(16).fill(64);
+  let tick = 0;
+  let status = 0;
+  while (!track.done) {
+    tick += track.varLength();
+    if (track.peek() & 0x80) status = track.byte();
+    else if (status === 0) throw new SmfError('Data without a status byte');
+    if (status === 0xff) {
+      const type = track.byte();
+      const data = track.take(track.varLength());
+      if (type === 0x58 && data.length >= 2 && !clip.timeSignature) {
+        clip.timeSignature = {beats: data[0], unit: 2 ** data[1]};
+      }
+      if (type === 0x2f) break;
+      // Meta and sysex events cancel running status.
+      status = 0;
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      track.take(track.varLength());
+      status = 0;
+      continue;
+    }
+    const channel = status & 0x0f;
+    const first = track.byte();
+    const second = (status & 0xe0) === 0xc0 ? 0 : track.byte();
+    if ((status & 0xf0) === 0x90 && second > 0) {
+      clip.notes.push({
+        tick,
+        note: first,
+        velocity: second,
+        pan: pans[channel],
+      });
+    } else if ((status & 0xf0) === 0xb0 && first === PAN_CONTROLLER) {
+      pans[channel] = second;
+    }
+  }
+  clip.length = Math.max(clip.length, tick);
+}
+
+/** The sequencer meter of a time signature, if it has one. */
+function meterOf(timeSignature: SmfClip['timeSignature']): Meter | undefined {
+  if (!timeSignature) return undefined;
+  const {beats, unit} = timeSignature;
+  return (Object.keys(METERS) as Meter[]).find(
+    (meter) => METERS[meter].beats === beats && METERS[meter].unit === unit,
+  );
+}
+
+/**
+ * How far into a step, as a share of one, a hit still joins the hit that
+ * started it as a ratchet; the last of four ratchet hits is 3/4 in.
+ */
+const RATCHET_WINDOW = 0.8;
+
+function stepVelocity(velocity: number): number {
+  return velocity < 54 ? 1 : velocity < 96 ? 2 : 3;
+}
+
+function stepPan(pan: number): number {
+  return pan < 43 ? -1 : pan > 85 ? 1 : 0;
+}
+
+/**
+ * `clip` quantized onto the grid of `timing` for `tracks`, each note on
+ * the track `mapping` gives it; other notes are dropped. The meter comes
+ * from the clip's time signature where the sequencer has it, and the
+ * length from the clip in whole bars, up to the longest pattern. Hits
+ * soon after another on the same track join its step as a ratchet.
+ */
+export function quantizeClip(
+  clip: SmfClip,
+  tracks: SequencerTrack[],
+  timing: SequencerTiming,
+  mapping: Map<number, number>,
+): SequencerPattern {
+  const meter = meterOf(clip.timeSignature) ?? timing.meter;
+  const grid: SequencerTiming = {
+    ...timing,
+    meter,
+    triplets: timing.triplets && canUseTriplets(meter),
+  };
+  const stepTicks = clip.ppq / stepsPerBeat(grid);
+  const bars = Math.ceil(
+    Math.round(clip.length / stepTicks) / stepsPerBar(grid),
+  );
+  const quantized = emptyPattern(
+    {...grid, steps: barsToSteps(grid, bars)},
+    tracks.length,
+  );
+  const hits = quantized.grid.map((row) => row.map(() => 0));
+  // The step each track last started and the tick of the hit that did.
+  const last = tracks.map(() => ({step: -1, tick: -Infinity}));
+  for (const {tick, note, velocity, pan} of clip.notes) {
+    const track = mapping.get(note);
+    if (track === undefined || track < 0) continue;
+    let step = Math.round(tick / stepTicks);
+    if (tick - last[track].tick < stepTicks * RATCHET_WINDOW) {
+      step = last[track].step;
+    } else {
+      last[track] = {step, tick};
+    }
+    if (step >= quantized.timing.steps) continue;
+    hits[track][step]++;
+    quantized.grid[track][step] = Math.max(
+      quantized.grid[track][step],
+      stepVelocity(velocity),
+    );
+    quantized.panningGrid[track][step] = stepPan(pan);
+    quantized.ratchetGrid[track][step] = Math.min(
+      MAX_RATCHET,
+      hits[track][step],
+    );
+  }
+  return quantized;
+}
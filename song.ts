@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Song mode: chooses which bank pattern a step clock plays on
+ * each pass, following the chain or the selected pattern.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type SequencerBank, emptyBank} from './sequencer';
+import {type StepClock} from './step-clock';
+
+export interface PatternPlayerHandlers {
+  /**
+   * A different pattern is about to play, early enough to schedule its
+   * first step.
+   */
+  onSchedule?(pattern: number): void;
+  /** A different pattern or chain step starts to sound. */
+  onStart(pattern: number, entry: number): void;
+}
+
+/**
+ * Switches patterns only where one ends, so a new selection or the next
+ * chain step always comes in on a bar boundary. The chain repeats from the
+ * top once it has played through.
+ */
+export class PatternPlayer {
+  /** The pattern the clock plays, or plays first once started. */
+  playing = 0;
+  /** The chain step playing, or -1 outside song mode. */
+  entry = -1;
+  private bank: SequencerBank = emptyBank();
+  // Passes of the current chain step played so far.
+  private repeat = 0;
+  private readonly timers = new Set<number>();
+  private readonly unsubscribe: () => void;
+
+  constructor(
+    private readonly clock: StepClock,
+    private readonly handlers: PatternPlayerHandlers,
+  ) {
+    this.unsubscribe = clock.onLoop((time, fromTop) =>
+      this.advance(time, fromTop),
+    );
+  }
+
+  /** Takes the current bank; while stopped, the song moves to its top. */
+  update(bank: SequencerBank) {
+    this.bank = bank;
+    if (!this.clock.running) {
+      this.moveTo(() => this.moveToTop(), this.clock.ctx.currentTime);
+    } else if (this.entry >= bank.chain.length) {
+      this.entry = -1;
+    }
+    this.clock.setTiming(bank.patterns[this.playing].timing);
+  }
+
+  /** Stops following the clock. */
+  dispose() {
+    this.unsubscribe();
+    this.timers.forEach((timer) => window.clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private get inSong(): boolean {
+    return this.bank.songMode && this.bank.chain.length > 0;
+  }
+
+  private moveToTop() {
+    this.repeat = 0;
+    this.entry = this.inSong ? 0 : -1;
+    this.playing = this.inSong
+      ? this.bank.chain[0].pattern
+      : this.bank.selected;
+  }
+
+  private advance(time: number, fromTop: boolean) {
+    this.moveTo(() => {
+      const {chain} = this.bank;
+      if (fromTop || !this.inSong || this.entry < 0) {
+        this.moveToTop();
+      } else if (++this.repeat >= chain[this.entry].repeats) {
+        this.entry = (this.entry + 1) % chain.length;
+        this.repeat = 0;
+      }
+      if (this.inSong) this.playing = chain[this.entry].pattern;
+    }, time);
+    this.clock.setTiming(this.bank.patterns[this.playing].timing);
+  }
+
+  /** Runs `move` and tells the handlers if it changed what plays at `time`. */
+  private moveTo(move: () => void, time: number) {
+    const [pattern, entry] = [this.playing, this.entry];
+    move();
+    if (this.playing !== pattern) {
+      this.handlers.onSchedule?.(this.playing);
+    }
+    if (this.playing === pattern && this.entry === entry) return;
+    const start = [this.playing, this.entry] as const;
+    const delay = Math.max(0, time - this.clock.ctx.currentTime) * 1000;
+    const timer = window.setTimeout(() => {
+      this.timers.delete(timer);
+      this.handlers.onStart(...start);
+    }, delay);
+    this.timers.add(timer);
+  }
+}
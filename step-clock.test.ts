@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Scheduling and stopping of the sequencer's step clock.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {StepClock} from './step-clock';
+
+/** An audio clock that moves only when told to. */
+class FakeContext {
+  currentTime = 0;
+}
+
+describe('StepClock', () => {
+  let ctx: FakeContext;
+  let clock: StepClock;
+  let steps: Array<[number, number]>;
+
+  /** Moves the audio clock and timers on by `seconds`, in timer ticks. */
+  function advance(seconds: number) {
+    const end = ctx.currentTime + seconds;
+    while (ctx.currentTime < end) {
+      ctx.currentTime = Math.min(end, ctx.currentTime + 0.025);
+      vi.advanceTimersByTime(25);
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    ctx = new FakeContext();
+    clock = new StepClock(ctx as unknown as BaseAudioContext);
+    // 120 BPM sixteenths: a step every 0.125 s.
+    clock.setBpm(120);
+    steps = [];
+    clock.onStep((step, time) => steps.push([step, time]));
+  });
+
+  afterEach(() => {
+    clock.stop();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('keeps scheduling until a stop in the future', () => {
+    clock.start(0);
+    clock.stop(1);
+    expect(clock.running).toBe(true);
+    advance(1.5);
+    expect(clock.running).toBe(false);
+    expect(steps.map(([step]) => step)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('resumes with the first step after the stop', () => {
+    clock.start(0);
+    clock.stop(1);
+    advance(1.5);
+    steps = [];
+    clock.resume(2);
+    advance(0.5);
+    expect(steps[0]).toEqual([8, 2]);
+  });
+
+  it('hands out the steps before a pending stop when resumed early', () => {
+    clock.start(0);
+    clock.stop(1);
+    clock.resume(1);
+    expect(steps.map(([step]) => step)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    advance(1);
+    expect(steps[8]).toEqual([8, 1]);
+  });
+
+  it('takes back steps scheduled past an immediate stop', () => {
+    clock.start(0);
+    advance(0.5);
+    clock.stop();
+    expect(clock.running).toBe(false);
+    steps = [];
+    clock.resume(1);
+    advance(0.5);
+    expect(steps[0]).toEqual([4, 1]);
+  });
+});
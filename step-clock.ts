@@ -0,0 +1,183 @@
+/**
+ * @fileoverview The sequencer's step clock, scheduled ahead on the audio
+ * clock so steps land exactly in time with the music.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {type SequencerTiming, stepsPerBeat} from './sequencer';
+
+/**
+ * Called for each step shortly before it sounds, with its audio time and
+ * length (s).
+ */
+export type StepCallback = (
+  step: number,
+  time: number,
+  duration: number,
+) => void;
+
+/**
+ * Called as the pattern begins, before step 0 is handed out, with its
+ * audio time. `fromTop` is set when `start` began it rather than a wrap.
+ */
+export type LoopCallback = (time: number, fromTop: boolean) => void;
+
+interface ScheduledStep {
+  step: number;
+  time: number;
+}
+
+/** How far ahead of the audio clock steps are scheduled (s). */
+const LOOKAHEAD = 0.1;
+/** How often the scheduler wakes up (ms). */
+const TICK_INTERVAL = 25;
+/** Scheduled steps kept for looking up the current one. */
+const HISTORY = 64;
+
+/**
+ * Counts sequencer steps against `AudioContext.currentTime`. A timer wakes
+ * up often and hands listeners the steps that fall within the next
+ * `LOOKAHEAD` seconds with their exact start times, so timing does not
+ * depend on when the timer fires. BPM changes take effect from the next
+ * step, keeping the count continuous.
+ */
+export class StepClock {
+  private readonly listeners = new Set<StepCallback>();
+  private readonly loopListeners = new Set<LoopCallback>();
+  private bpm = 120;
+  private length = 16;
+  private stepsPerBeat = 4;
+  private swing = 0;
+  private timer?: number;
+  private nextStep = 0;
+  private nextStepTime = 0;
+  private scheduled: ScheduledStep[] = [];
+  // When a `stop` takes effect; Infinity while none is pending.
+  private stopTime = Infinity;
+  private fromTop = false;
+
+  constructor(readonly ctx: BaseAudioContext) {}
+
+  /** Adds a listener; returns a function that removes it. */
+  onStep(callback: StepCallback): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * Adds a listener for pattern starts. Listeners may change the timing
+   * there; it applies from step 0. Returns a function that removes it.
+   */
+  onLoop(callback: LoopCallback): () => void {
+    this.loopListeners.add(callback);
+    return () => this.loopListeners.delete(callback);
+  }
+
+  get running(): boolean {
+    return this.timer !== undefined;
+  }
+
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+  }
+
+  /** Takes the pattern length, grid and swing from `timing`. */
+  setTiming(timing: SequencerTiming) {
+    this.length = timing.steps;
+    this.nextStep %= timing.steps;
+    this.stepsPerBeat = stepsPerBeat(timing);
+    this.swing = timing.swing;
+  }
+
+  /** Starts counting from step 0 at `time` on the audio clock. */
+  start(time: number) {
+    this.fromTop = true;
+    this.run(time, 0);
+  }
+
+  /**
+   * Stops counting at `time`, scheduling steps until then. Steps scheduled
+   * from then on are taken back, so `resume` continues with the first step
+   * that did not sound; sounds listeners already scheduled for them still
+   * play.
+   */
+  stop(time = this.ctx.currentTime) {
+    this.fromTop = false;
+    const unplayed = this.scheduled.find((s) => s.time >= time);
+    if (unplayed) this.nextStep = unplayed.step;
+    this.scheduled = this.scheduled.filter((s) => s.time < time);
+    this.stopTime = time;
+    if (time <= this.ctx.currentTime) this.halt();
+  }
+
+  /** Starts again at `time` where the last `stop` left off. */
+  resume(time: number) {
+    // Steps before a pending stop are still to come.
+    if (this.running) this.schedule(this.stopTime);
+    this.run(time, this.nextStep);
+  }
+
+  /** The step sounding now, or -1 when none is. */
+  get currentStep(): number {
+    const now = this.ctx.currentTime;
+    if (now >= this.stopTime) return -1;
+    let current = -1;
+    for (const {step, time} of this.scheduled) {
+      if (time > now) break;
+      current = step;
+    }
+    return current;
+  }
+
+  private run(time: number, step: number) {
+    this.halt();
+    this.nextStep = step % this.length;
+    this.nextStepTime = time;
+    this.scheduled = [];
+    this.stopTime = Infinity;
+    this.timer = window.setInterval(this.tick, TICK_INTERVAL);
+    this.tick();
+  }
+
+  private halt() {
+    window.clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private tick = () => {
+    const now = this.ctx.currentTime;
+    this.schedule(now + LOOKAHEAD);
+    if (now >= this.stopTime) this.halt();
+  };
+
+  /** Hands out the steps before `until` and a pending stop. */
+  private schedule(until: number) {
+    while (this.nextStepTime < until) {
+      if (this.nextStepTime >= this.stopTime) break;
+      if (this.nextStep === 0) {
+        for (const listener of this.loopListeners) {
+          listener(this.nextStepTime, this.fromTop);
+        }
+        this.fromTop = false;
+      }
+      const duration = 60 / this.bpm / this.stepsPerBeat;
+      // Swing pushes every second step towards the next one, up to the
+      // last third of the pair.
+      const time =
+        this.nextStepTime +
+        (this.nextStep % 2 === 1 ? (this.swing * duration) / 3 : 0);
+      if (time >= this.stopTime) break;
+      // Steps that fell behind, e.g. while the tab was hidden, are skipped.
+      if (time >= this.ctx.currentTime) {
+        for (const listener of this.listeners) {
+          listener(this.nextStep, time, duration);
+        }
+      }
+      this.scheduled.push({step: this.nextStep, time});
+      if (this.scheduled.length > HISTORY) this.scheduled.shift();
+      this.nextStep = (this.nextStep + 1) % this.length;
+      this.nextStepTime += duration;
+    }
+  }
+}
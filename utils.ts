@@ -70,4 +70,15 @@ async function decodeAudioData(
   return buffer;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+/** Triggers a browser download of a DOM blob. */
+function downloadBlob(blob: globalThis.Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export {createBlob, decode, decodeAudioData, downloadBlob, encode};